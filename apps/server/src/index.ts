@@ -5,33 +5,128 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { existsSync } from "node:fs";
 import path from "node:path";
+import { createAuthManager, createAuthMiddleware } from "./lib/auth";
 import { loadConfig } from "./lib/config";
+import { createConversionCache } from "./lib/conversion-cache";
+import { restoreConversionJobs } from "./lib/conversion-jobs";
 import { createDeviceConnectionManager } from "./lib/device-connection";
+import { createDeviceManifest } from "./lib/device-manifest";
+import { createDeviceSyncManager } from "./lib/device-sync";
 import { createLanraragiConnectionManager } from "./lib/lanraragi-connection";
+import { UnknownSourceError } from "./lib/lanraragi-library";
+import { createOpdsFeedSource } from "./lib/opds-feeds";
+import { createProfileRuleManager } from "./lib/profile-rules";
+import { createProfileManager } from "./lib/profiles";
+import { createReadingSyncManager } from "./lib/reading-sync";
+import { createRuntimeSettings } from "./lib/runtime-settings";
+import { createSecretBox } from "./lib/secrets";
+import { createThumbnailCache } from "./lib/thumbnail-cache";
+import { UpstreamError } from "./lib/upstream";
 import { createApiRouter } from "./routes/api";
+import { createAuthRouter } from "./routes/auth";
 import { createOpdsRouter } from "./routes/opds";
+import { createOpds2Router } from "./routes/opds2";
 import { getLogFilePath, logError, logInfo } from "./lib/logger";
 
 const config = loadConfig();
+const secrets = createSecretBox({ secret: config.SETTINGS_SECRET, keyFilePath: config.settingsKeyFileAbsolute });
 const lanraragi = createLanraragiConnectionManager({
   baseUrl: config.LANRARAGI_BASE_URL,
   apiKey: config.LANRARAGI_API_KEY,
+  http: { timeoutMs: config.LANRARAGI_TIMEOUT_MS, retries: config.LANRARAGI_RETRIES },
+  filePath: config.lanraragiSettingsFileAbsolute,
+  precedence: config.SETTINGS_PRECEDENCE,
+  secrets,
 });
 const device = createDeviceConnectionManager({
   baseUrl: config.XTEINK_BASE_URL,
   path: "/",
-  filePath: path.isAbsolute(config.DEVICE_SETTINGS_FILE)
-    ? config.DEVICE_SETTINGS_FILE
-    : path.resolve(process.cwd(), config.DEVICE_SETTINGS_FILE),
+  filePath: config.deviceSettingsFileAbsolute,
+  precedence: config.SETTINGS_PRECEDENCE,
 });
+const auth = createAuthManager({
+  filePath: config.authFileAbsolute,
+  adminPassword: config.ADMIN_PASSWORD,
+  sessionHours: config.AUTH_SESSION_HOURS,
+});
+const deviceManifest = createDeviceManifest({ filePath: config.deviceManifestFileAbsolute });
+const profiles = createProfileManager({ filePath: config.profilesFileAbsolute });
+const runtimeSettings = createRuntimeSettings({ config, lanraragi, device, profiles });
+const profileRules = createProfileRuleManager({ filePath: config.profileRulesFileAbsolute, profiles });
+const conversionCache = createConversionCache(config);
+const thumbnails = createThumbnailCache(config);
+const opdsFeeds = createOpdsFeedSource({
+  config,
+  lanraragi,
+  cache: conversionCache,
+  profiles,
+  rules: profileRules,
+});
+const readingSync = createReadingSyncManager({
+  filePath: config.readingSyncFileAbsolute,
+  lanraragi,
+  device,
+  policy: config.READING_SYNC_POLICY,
+  intervalMinutes: config.READING_SYNC_INTERVAL_MINUTES,
+});
+const deviceSync = createDeviceSyncManager({
+  config,
+  filePath: config.deviceSyncFileAbsolute,
+  lanraragi,
+  device,
+  cache: conversionCache,
+  profiles,
+  rules: profileRules,
+  manifest: deviceManifest,
+  readingSync,
+  intervalMinutes: config.DEVICE_SYNC_INTERVAL_MINUTES,
+  deleteUnwanted: config.DEVICE_SYNC_DELETE_UNWANTED,
+});
+await restoreConversionJobs(config);
+readingSync.start();
+deviceSync.start();
 const webDistRoot = path.resolve(process.cwd(), "../web/dist");
 const hasWebDist = existsSync(path.join(webDistRoot, "index.html"));
 
 const app = new Hono();
 
-app.use("*", cors());
+// The web UI is served same-origin; other origins only get CORS when listed, and then with credentials.
+if (config.CORS_ORIGINS.includes("*")) {
+  app.use("*", cors());
+} else if (config.CORS_ORIGINS.length > 0) {
+  app.use("*", cors({ origin: config.CORS_ORIGINS, credentials: true }));
+}
+app.use(
+  "/api/*",
+  createAuthMiddleware(auth, {
+    publicPaths: ["/api/health", "/api/auth/session", "/api/auth/login", "/api/auth/logout"],
+    // Conversions and downloads; batch routes refuse device uploads for readers themselves.
+    readerWrites: [
+      { method: "POST", path: /^\/api\/convert\/[^/]+(\/start)?$/ },
+      { method: "DELETE", path: /^\/api\/convert\/jobs\/[^/]+$/ },
+      { method: "POST", path: /^\/api\/batches(\/[^/]+\/retry)?$/ },
+      { method: "POST", path: /^\/api\/xtc\/(inspect|pages\/\d+)$/ },
+      { method: "POST", path: /^\/api\/(profile-rules|device-sync)\/preview$/ },
+    ],
+  }),
+);
+app.use("/opds/*", createAuthMiddleware(auth, { basicChallenge: true }));
+app.use("/opds2/*", createAuthMiddleware(auth, { basicChallenge: true }));
+
+// OPDS 1 feeds answer in plain text like the rest of that router; everything else gets JSON.
+const isOpdsPath = (pathname: string) => pathname === "/opds" || pathname.startsWith("/opds/");
 
 app.onError((err, c) => {
+  // An archive or category id naming a source that no longer exists.
+  if (err instanceof UnknownSourceError) {
+    return isOpdsPath(c.req.path) ? c.text(err.message, 404) : c.json({ error: err.message }, 404);
+  }
+  // LANraragi answered with an error or could not be reached. A 401 here is about the
+  // configured API key, so it deliberately carries no WWW-Authenticate challenge.
+  if (err instanceof UpstreamError) {
+    if (err.status === 502) logError(`upstream error method=${c.req.method} path=${c.req.path} message=${err.message}`);
+    return isOpdsPath(c.req.path) ? c.text(err.message, err.status) : c.json({ error: err.message }, err.status);
+  }
   logError(err instanceof Error ? err.stack || err.message : String(err));
   return c.json(
     {
@@ -41,8 +136,25 @@ app.onError((err, c) => {
   );
 });
 
-app.route("/api", createApiRouter(config, lanraragi, device));
-app.route("/opds", createOpdsRouter(config, lanraragi));
+app.route("/api/auth", createAuthRouter(config, auth));
+app.route(
+  "/api",
+  createApiRouter(
+    config,
+    lanraragi,
+    device,
+    conversionCache,
+    profiles,
+    profileRules,
+    deviceManifest,
+    readingSync,
+    deviceSync,
+    runtimeSettings,
+    thumbnails,
+  ),
+);
+app.route("/opds", createOpdsRouter(config, lanraragi, conversionCache, profiles, profileRules, opdsFeeds, readingSync, thumbnails));
+app.route("/opds2", createOpds2Router(config, opdsFeeds));
 
 if (hasWebDist) {
   app.use("/assets/*", serveStatic({ root: webDistRoot }));
@@ -60,6 +172,7 @@ if (hasWebDist) {
       name: "lanraragi-xtc-bridge",
       status: "ok",
       opds: `${config.SERVER_PUBLIC_URL}/opds`,
+      opds2: `${config.SERVER_PUBLIC_URL}/opds2`,
       api: `${config.SERVER_PUBLIC_URL}/api`,
       logFile: getLogFilePath(),
     }),
@@ -0,0 +1,458 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { Context, MiddlewareHandler } from "hono";
+import { getCookie } from "hono/cookie";
+import pLimit from "p-limit";
+import { logInfo } from "./logger";
+
+// Readers can browse and download; only admins change settings, devices or anything else.
+export type AuthRole = "admin" | "reader";
+
+export type AuthUser = {
+  id: string;
+  name: string;
+  role: AuthRole;
+  passwordHash: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+};
+
+export type PublicAuthUser = Omit<AuthUser, "passwordHash">;
+
+export type ApiToken = {
+  id: string;
+  name: string;
+  role: AuthRole;
+  // Only a hash is kept; the secret is shown once when the token is created.
+  tokenHash: string;
+  prefix: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+};
+
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+export type AuthPrincipal = {
+  kind: "admin" | "user" | "token";
+  id: string | null;
+  name: string;
+  role: AuthRole;
+};
+
+// `retryAfterMs` is set when the caller is locked out after too many failed attempts; nothing was checked.
+export type AuthAttempt = {
+  principal: AuthPrincipal | null;
+  retryAfterMs: number | null;
+};
+
+export type AuthManager = {
+  // False without ADMIN_PASSWORD: every request is let through, as before auth existed.
+  enabled: boolean;
+  sessionHours: number;
+  login: (username: string, password: string, remoteAddress: string) => Promise<AuthAttempt & { sessionId: string | null }>;
+  logout: (sessionId: string) => void;
+  authenticate: (input: { sessionId?: string; authorization?: string; remoteAddress: string }) => Promise<AuthAttempt>;
+  listUsers: () => PublicAuthUser[];
+  createUser: (input: { name: string; password: string; role: AuthRole }) => Promise<PublicAuthUser>;
+  updateUser: (
+    id: string,
+    input: { name?: string; password?: string; role?: AuthRole },
+  ) => Promise<PublicAuthUser | null>;
+  removeUser: (id: string) => boolean;
+  // Case-insensitive; used to reject duplicate names.
+  findUserByName: (name: string) => PublicAuthUser | null;
+  listTokens: () => PublicApiToken[];
+  createToken: (input: { name: string; role: AuthRole }) => { token: PublicApiToken; secret: string };
+  removeToken: (id: string) => boolean;
+};
+
+type AuthFile = {
+  version: 1;
+  users: AuthUser[];
+  tokens: ApiToken[];
+};
+
+type Session = {
+  principal: AuthPrincipal;
+  expiresAt: number;
+};
+
+type FailureRecord = {
+  count: number;
+  lastAt: number;
+  lockedUntil: number;
+};
+
+declare module "hono" {
+  interface ContextVariableMap {
+    principal: AuthPrincipal | null;
+  }
+}
+
+export const ADMIN_USERNAME = "admin";
+export const SESSION_COOKIE = "lxb_session";
+const TOKEN_PREFIX = "lxb_";
+// lastUsedAt is informational, so it is written at most this often per user or token.
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+// OPDS readers send Basic credentials with every thumbnail request; scrypt is too slow to run on each one.
+const BASIC_CACHE_MS = 5 * 60 * 1000;
+// Failures are counted per username and per remote address. Past FREE_FAILURES within the window the key is
+// locked, starting at LOCKOUT_BASE_MS and doubling with each further failure up to LOCKOUT_MAX_MS.
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const FREE_FAILURES = 5;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 15 * 60 * 1000;
+const MAX_FAILURE_RECORDS = 10_000;
+// Password checks waiting their turn re-check the lockout, so a burst of bad passwords stops at the first few.
+const PASSWORD_CHECK_CONCURRENCY = 2;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+function loadAuthFile(filePath: string): AuthFile {
+  const empty: AuthFile = { version: 1, users: [], tokens: [] };
+  if (!existsSync(filePath)) return empty;
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<AuthFile>;
+    return {
+      version: 1,
+      users: Array.isArray(parsed?.users) ? parsed.users : [],
+      tokens: Array.isArray(parsed?.tokens) ? parsed.tokens : [],
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function saveAuthFile(filePath: string, body: AuthFile): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), { encoding: "utf8", mode: 0o600 });
+  renameSync(temp, filePath);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString("base64")}$${(await scryptAsync(password, salt, 32)).toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function sameSecret(a: string, b: string): boolean {
+  return timingSafeEqual(sha256(a), sha256(b));
+}
+
+function decodeBasic(value: string): { username: string; password: string } | null {
+  try {
+    const decoded = Buffer.from(value, "base64").toString("utf8");
+    const colon = decoded.indexOf(":");
+    if (colon < 0) return null;
+    return { username: decoded.slice(0, colon), password: decoded.slice(colon + 1) };
+  } catch {
+    return null;
+  }
+}
+
+/** Peer address from whichever server runs the app: Bun passes itself as env, @hono/node-server the raw request. */
+export function remoteAddress(c: Context): string {
+  const env = c.env as
+    | {
+        requestIP?: (request: Request) => { address: string } | null;
+        incoming?: { socket?: { remoteAddress?: string } };
+      }
+    | undefined;
+  return env?.requestIP?.(c.req.raw)?.address ?? env?.incoming?.socket?.remoteAddress ?? "unknown";
+}
+
+const publicUser = ({ passwordHash: _hash, ...user }: AuthUser): PublicAuthUser => ({ ...user });
+const publicToken = ({ tokenHash: _hash, ...token }: ApiToken): PublicApiToken => ({ ...token });
+
+export function createAuthManager(input: {
+  filePath: string;
+  adminPassword: string;
+  sessionHours: number;
+}): AuthManager {
+  const state = loadAuthFile(input.filePath);
+  const sessions = new Map<string, Session>();
+  const basicCache = new Map<string, Session>();
+  const failures = new Map<string, FailureRecord>();
+  const passwordChecks = pLimit(PASSWORD_CHECK_CONCURRENCY);
+  const persist = () => saveAuthFile(input.filePath, state);
+
+  const failureKeys = (remote: string, username: string | null) => [
+    `addr:${remote}`,
+    ...(username === null ? [] : [`user:${username.trim().toLowerCase() || ADMIN_USERNAME}`]),
+  ];
+
+  const lockedFor = (keys: string[]): number | null => {
+    const now = Date.now();
+    const until = Math.max(0, ...keys.map((key) => failures.get(key)?.lockedUntil ?? 0));
+    return until > now ? until - now : null;
+  };
+
+  const recordFailure = (keys: string[]) => {
+    const now = Date.now();
+    if (failures.size >= MAX_FAILURE_RECORDS) {
+      for (const [key, record] of failures) {
+        if (record.lockedUntil <= now && now - record.lastAt > FAILURE_WINDOW_MS) failures.delete(key);
+      }
+    }
+    for (const key of keys) {
+      const previous = failures.get(key);
+      const count = previous && now - previous.lastAt <= FAILURE_WINDOW_MS ? previous.count + 1 : 1;
+      const lockMs = count > FREE_FAILURES ? Math.min(LOCKOUT_MAX_MS, LOCKOUT_BASE_MS * 2 ** (count - FREE_FAILURES - 1)) : 0;
+      failures.set(key, { count, lastAt: now, lockedUntil: lockMs > 0 ? now + lockMs : 0 });
+      if (lockMs > 0) logInfo(`auth lockout key=${JSON.stringify(key)} failures=${count} lock_ms=${lockMs}`);
+    }
+  };
+
+  const attempt = async (
+    keys: string[],
+    check: () => Promise<AuthPrincipal | null>,
+    options?: { expensive?: boolean },
+  ): Promise<AuthAttempt> => {
+    const run = async (): Promise<AuthAttempt> => {
+      const retryAfterMs = lockedFor(keys);
+      if (retryAfterMs !== null) return { principal: null, retryAfterMs };
+      const principal = await check();
+      if (principal) {
+        for (const key of keys) failures.delete(key);
+      } else {
+        recordFailure(keys);
+      }
+      return { principal, retryAfterMs: null };
+    };
+    return options?.expensive ? passwordChecks(run) : run();
+  };
+
+  const touch = (item: { lastUsedAt: number | null }) => {
+    const now = Date.now();
+    const stale = !item.lastUsedAt || now - item.lastUsedAt > LAST_USED_WRITE_INTERVAL_MS;
+    item.lastUsedAt = now;
+    if (stale) persist();
+  };
+
+  const forget = (kind: AuthPrincipal["kind"], id: string) => {
+    for (const cache of [sessions, basicCache]) {
+      for (const [key, session] of cache) {
+        if (session.principal.kind === kind && session.principal.id === id) cache.delete(key);
+      }
+    }
+  };
+
+  const findUser = (name: string) => {
+    const needle = name.trim().toLowerCase();
+    return state.users.find((user) => user.name.toLowerCase() === needle) ?? null;
+  };
+
+  const verifyCredentials = async (username: string, password: string): Promise<AuthPrincipal | null> => {
+    if (!password) return null;
+    const name = username.trim();
+    if ((!name || name.toLowerCase() === ADMIN_USERNAME) && sameSecret(password, input.adminPassword)) {
+      return { kind: "admin", id: null, name: ADMIN_USERNAME, role: "admin" };
+    }
+    const user = name ? findUser(name) : null;
+    if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+    touch(user);
+    return { kind: "user", id: user.id, name: user.name, role: user.role };
+  };
+
+  const verifyToken = (secret: string): AuthPrincipal | null => {
+    if (!secret.startsWith(TOKEN_PREFIX)) return null;
+    const hash = sha256(secret).toString("hex");
+    const token = state.tokens.find((item) => item.tokenHash === hash);
+    if (!token) return null;
+    touch(token);
+    return { kind: "token", id: token.id, name: token.name, role: token.role };
+  };
+
+  return {
+    enabled: input.adminPassword.length > 0,
+    sessionHours: input.sessionHours,
+    login: async (username, password, remote) => {
+      const result = await attempt(failureKeys(remote, username), () => verifyCredentials(username, password), {
+        expensive: true,
+      });
+      const { principal } = result;
+      if (!principal) {
+        logInfo(
+          `auth login failed username=${JSON.stringify(username.trim() || ADMIN_USERNAME)} remote=${remote} locked=${result.retryAfterMs !== null}`,
+        );
+        return { ...result, sessionId: null };
+      }
+      const sessionId = randomBytes(32).toString("base64url");
+      sessions.set(sessionId, { principal, expiresAt: Date.now() + input.sessionHours * 60 * 60 * 1000 });
+      logInfo(`auth login name=${JSON.stringify(principal.name)} role=${principal.role}`);
+      return { principal, retryAfterMs: null, sessionId };
+    },
+    logout: (sessionId) => {
+      sessions.delete(sessionId);
+    },
+    authenticate: async ({ sessionId, authorization, remoteAddress: remote }) => {
+      const none: AuthAttempt = { principal: null, retryAfterMs: null };
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (session && session.expiresAt > Date.now()) return { principal: session.principal, retryAfterMs: null };
+        sessions.delete(sessionId);
+      }
+      if (!authorization) return none;
+      const [scheme, value = ""] = authorization.trim().split(/\s+/, 2);
+      if (/^bearer$/i.test(scheme)) return attempt(failureKeys(remote, null), async () => verifyToken(value));
+      if (/^basic$/i.test(scheme)) {
+        const credentials = decodeBasic(value);
+        if (!credentials) return none;
+        const cacheKey = sha256(value).toString("hex");
+        const cached = basicCache.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) return { principal: cached.principal, retryAfterMs: null };
+        // Readers that only take a password field can send an API token instead.
+        const result = await attempt(
+          failureKeys(remote, credentials.username),
+          async () => verifyToken(credentials.password) ?? (await verifyCredentials(credentials.username, credentials.password)),
+          { expensive: true },
+        );
+        basicCache.delete(cacheKey);
+        if (result.principal) basicCache.set(cacheKey, { principal: result.principal, expiresAt: Date.now() + BASIC_CACHE_MS });
+        return result;
+      }
+      return none;
+    },
+    listUsers: () => state.users.map(publicUser),
+    createUser: async (next) => {
+      const user: AuthUser = {
+        id: randomUUID(),
+        name: next.name.trim(),
+        role: next.role,
+        passwordHash: await hashPassword(next.password),
+        createdAt: Date.now(),
+        lastUsedAt: null,
+      };
+      state.users.push(user);
+      persist();
+      return publicUser(user);
+    },
+    updateUser: async (id, next) => {
+      const passwordHash = next.password !== undefined ? await hashPassword(next.password) : null;
+      const user = state.users.find((item) => item.id === id);
+      if (!user) return null;
+      if (next.name !== undefined) user.name = next.name.trim();
+      if (next.role !== undefined) user.role = next.role;
+      if (passwordHash !== null) user.passwordHash = passwordHash;
+      // Changed credentials or roles should not outlive existing sessions.
+      forget("user", id);
+      persist();
+      return publicUser(user);
+    },
+    removeUser: (id) => {
+      const before = state.users.length;
+      state.users = state.users.filter((item) => item.id !== id);
+      if (state.users.length === before) return false;
+      forget("user", id);
+      persist();
+      return true;
+    },
+    findUserByName: (name) => {
+      const user = findUser(name);
+      return user ? publicUser(user) : null;
+    },
+    listTokens: () => state.tokens.map(publicToken),
+    createToken: (next) => {
+      const secret = `${TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+      const token: ApiToken = {
+        id: randomUUID(),
+        name: next.name.trim(),
+        role: next.role,
+        tokenHash: sha256(secret).toString("hex"),
+        prefix: secret.slice(0, TOKEN_PREFIX.length + 4),
+        createdAt: Date.now(),
+        lastUsedAt: null,
+      };
+      state.tokens.push(token);
+      persist();
+      return { token: publicToken(token), secret };
+    },
+    removeToken: (id) => {
+      const before = state.tokens.length;
+      state.tokens = state.tokens.filter((item) => item.id !== id);
+      if (state.tokens.length === before) return false;
+      forget("token", id);
+      persist();
+      return true;
+    },
+  };
+}
+
+/**
+ * Resolves the caller from the session cookie, a bearer token or HTTP Basic credentials and stores it as
+ * `principal`. Requests without valid credentials get 401, and readers get 403 for anything but reads
+ * and the writes listed in `readerWrites`.
+ */
+export function createAuthMiddleware(
+  auth: AuthManager,
+  options: {
+    publicPaths?: string[];
+    readerWrites?: Array<{ method: string; path: RegExp }>;
+    // Sends `WWW-Authenticate: Basic` so OPDS readers prompt for credentials.
+    basicChallenge?: boolean;
+  },
+): MiddlewareHandler {
+  return async (c, next) => {
+    c.set("principal", null);
+    if (!auth.enabled) {
+      await next();
+      return;
+    }
+
+    const { principal, retryAfterMs } = await auth.authenticate({
+      sessionId: getCookie(c, SESSION_COOKIE),
+      authorization: c.req.header("authorization"),
+      remoteAddress: remoteAddress(c),
+    });
+    // Public paths still see who is calling, e.g. for the session endpoint.
+    if (options.publicPaths?.includes(c.req.path)) {
+      c.set("principal", principal);
+      await next();
+      return;
+    }
+    if (retryAfterMs !== null) {
+      c.header("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+      return c.json({ error: "Too many failed sign-in attempts" }, 429);
+    }
+    if (!principal) {
+      if (options.basicChallenge) c.header("WWW-Authenticate", 'Basic realm="lanraragi-xtc-bridge", charset="UTF-8"');
+      return c.json({ error: "Authentication required" }, 401);
+    }
+    c.set("principal", principal);
+
+    const method = c.req.method.toUpperCase();
+    const isRead = method === "GET" || method === "HEAD" || method === "OPTIONS";
+    if (
+      principal.role === "reader" &&
+      !isRead &&
+      !options.readerWrites?.some((rule) => rule.method === method && rule.path.test(c.req.path))
+    ) {
+      return c.json({ error: "Read-only access" }, 403);
+    }
+    await next();
+  };
+}
+
+export function requireAdmin(): MiddlewareHandler {
+  return async (c, next) => {
+    const principal = c.get("principal");
+    if (principal && principal.role !== "admin") {
+      return c.json({ error: "Admin access required" }, 403);
+    }
+    await next();
+  };
+}
@@ -1,35 +1,106 @@
 import path from "node:path";
 import { z } from "zod";
 
+function envFlag(defaultValue: "true" | "false") {
+  return z
+    .string()
+    .optional()
+    .default(defaultValue)
+    .transform((v) => !["false", "0", "no", "off"].includes(v.toLowerCase()));
+}
+
 const envSchema = z.object({
   PORT: z.coerce.number().int().positive().default(3000),
   SERVER_PUBLIC_URL: z.string().url().default("http://localhost:3000"),
   LANRARAGI_BASE_URL: z.string().url(),
   LANRARAGI_API_KEY: z.string().optional().default(""),
+  LANRARAGI_SETTINGS_FILE: z.string().default(".runtime/lanraragi-settings.json"),
+  LANRARAGI_TIMEOUT_MS: z.coerce.number().int().min(1000).default(15000),
+  LANRARAGI_RETRIES: z.coerce.number().int().min(0).max(10).default(2),
+  SETTINGS_PRECEDENCE: z.enum(["file", "env"]).default("file"),
+  SETTINGS_SECRET: z.string().optional().default(""),
+  SETTINGS_KEY_FILE: z.string().default(".runtime/settings.key"),
   XTEINK_BASE_URL: z.string().url().default("http://xteink.local"),
+  ADMIN_PASSWORD: z.string().optional().default(""),
+  AUTH_FILE: z.string().default(".runtime/auth.json"),
+  AUTH_SESSION_HOURS: z.coerce.number().positive().default(24 * 30),
+  CORS_ORIGINS: z
+    .string()
+    .optional()
+    .default("")
+    .transform((v) =>
+      v
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+    ),
   DEVICE_SETTINGS_FILE: z.string().default(".runtime/device-settings.json"),
+  DEVICE_MANIFEST_FILE: z.string().default(".runtime/device-manifest.json"),
+  DEVICE_MANIFEST_SIDECAR: envFlag("false"),
+  DEVICE_SYNC_FILE: z.string().default(".runtime/device-sync.json"),
+  DEVICE_SYNC_INTERVAL_MINUTES: z.coerce.number().min(0).default(0),
+  DEVICE_SYNC_DELETE_UNWANTED: envFlag("false"),
+  JOB_STORE_FILE: z.string().default(".runtime/conversion-jobs.json"),
+  PROFILES_FILE: z.string().default(".runtime/conversion-profiles.json"),
+  PROFILE_RULES_FILE: z.string().default(".runtime/profile-rules.json"),
+  READING_SYNC_FILE: z.string().default(".runtime/reading-sync.json"),
+  READING_SYNC_INTERVAL_MINUTES: z.coerce.number().min(0).default(0),
+  READING_SYNC_POLICY: z.enum(["furthest", "device", "lanraragi"]).default("furthest"),
   CBZ2XTC_PATH: z.string().min(1),
   PNG2XTC_PATH: z.string().optional().default(""),
+  XTC_PACKER: z.enum(["native", "python"]).default("native"),
+  OPDS_COLOR_DEPTH: z.enum(["1bit", "2bit"]).optional(),
   PYTHON_BIN: z.string().default("python3"),
   TEMP_ROOT: z.string().default(".tmp"),
   PAGE_FETCH_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(6),
-  USE_LRR_PAGE_EXTRACTION: z
-    .string()
-    .optional()
-    .default("true")
-    .transform((v) => !["false", "0", "no", "off"].includes(v.toLowerCase())),
+  CONVERSION_WORKERS: z.coerce.number().int().min(1).max(8).default(2),
+  USE_LRR_PAGE_EXTRACTION: envFlag("true"),
+  CONVERSION_CACHE_ENABLED: envFlag("false"),
+  CONVERSION_CACHE_DIR: z.string().default(".runtime/xtc-cache"),
+  CONVERSION_CACHE_MAX_MB: z.coerce.number().int().min(1).default(2048),
+  CONVERSION_CACHE_MAX_AGE_HOURS: z.coerce.number().min(0).default(24 * 7),
+  THUMBNAIL_CACHE_DIR: z.string().default(".runtime/thumbnails"),
+  THUMBNAIL_CACHE_MAX_MB: z.coerce.number().int().min(1).default(256),
+  THUMBNAIL_CACHE_REVALIDATE_MINUTES: z.coerce.number().min(0).default(60),
+  OPDS_THUMBNAIL_VARIANT: z.enum(["original", "gray", "dither", "cover"]).default("gray"),
 });
 
 export type AppConfig = z.infer<typeof envSchema> & {
   tempRootAbsolute: string;
+  conversionCacheDirAbsolute: string;
+  thumbnailCacheDirAbsolute: string;
+  jobStoreFileAbsolute: string;
+  profilesFileAbsolute: string;
+  profileRulesFileAbsolute: string;
+  readingSyncFileAbsolute: string;
+  deviceManifestFileAbsolute: string;
+  deviceSyncFileAbsolute: string;
+  authFileAbsolute: string;
+  lanraragiSettingsFileAbsolute: string;
+  deviceSettingsFileAbsolute: string;
+  settingsKeyFileAbsolute: string;
 };
 
+function resolveFromCwd(input: string): string {
+  return path.isAbsolute(input) ? input : path.resolve(process.cwd(), input);
+}
+
 export function loadConfig(): AppConfig {
   const parsed = envSchema.parse(process.env);
   return {
     ...parsed,
-    tempRootAbsolute: path.isAbsolute(parsed.TEMP_ROOT)
-      ? parsed.TEMP_ROOT
-      : path.resolve(process.cwd(), parsed.TEMP_ROOT),
+    tempRootAbsolute: resolveFromCwd(parsed.TEMP_ROOT),
+    conversionCacheDirAbsolute: resolveFromCwd(parsed.CONVERSION_CACHE_DIR),
+    thumbnailCacheDirAbsolute: resolveFromCwd(parsed.THUMBNAIL_CACHE_DIR),
+    jobStoreFileAbsolute: resolveFromCwd(parsed.JOB_STORE_FILE),
+    profilesFileAbsolute: resolveFromCwd(parsed.PROFILES_FILE),
+    profileRulesFileAbsolute: resolveFromCwd(parsed.PROFILE_RULES_FILE),
+    readingSyncFileAbsolute: resolveFromCwd(parsed.READING_SYNC_FILE),
+    deviceManifestFileAbsolute: resolveFromCwd(parsed.DEVICE_MANIFEST_FILE),
+    deviceSyncFileAbsolute: resolveFromCwd(parsed.DEVICE_SYNC_FILE),
+    authFileAbsolute: resolveFromCwd(parsed.AUTH_FILE),
+    lanraragiSettingsFileAbsolute: resolveFromCwd(parsed.LANRARAGI_SETTINGS_FILE),
+    deviceSettingsFileAbsolute: resolveFromCwd(parsed.DEVICE_SETTINGS_FILE),
+    settingsKeyFileAbsolute: resolveFromCwd(parsed.SETTINGS_KEY_FILE),
   };
 }
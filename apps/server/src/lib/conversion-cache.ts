@@ -0,0 +1,248 @@
+import { createHash } from "node:crypto";
+import { copyFile, mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AppConfig } from "./config";
+import { hashConversionSettings } from "./settings";
+import type { ConversionSettings } from "../types";
+import { logError, logInfo } from "./logger";
+import { XTC_PACKER_VERSION } from "./xtc";
+
+export type ConversionCacheEntry = {
+  key: string;
+  archiveId: string;
+  settingsHash: string;
+  scriptVersion: string;
+  downloadName: string;
+  fileSize: number;
+  createdAt: string;
+  lastAccessAt: string;
+};
+
+export type ConversionCacheStats = {
+  enabled: boolean;
+  directory: string;
+  maxBytes: number;
+  maxAgeMs: number;
+  totalBytes: number;
+  entries: ConversionCacheEntry[];
+};
+
+export type ConversionCache = {
+  isEnabled: () => boolean;
+  lookup: (archiveId: string, settings: ConversionSettings) => Promise<{ entry: ConversionCacheEntry; filePath: string } | null>;
+  // Like lookup, but read-only: no access-time bump and no removal of stale entries.
+  peek: (archiveId: string, settings: ConversionSettings) => Promise<ConversionCacheEntry | null>;
+  store: (params: {
+    archiveId: string;
+    settings: ConversionSettings;
+    filePath: string;
+    downloadName: string;
+  }) => Promise<ConversionCacheEntry | null>;
+  list: () => Promise<ConversionCacheStats>;
+  purge: (filter?: { key?: string; archiveId?: string }) => Promise<number>;
+};
+
+const ENTRY_SUFFIX = ".json";
+const ARTIFACT_SUFFIX = ".xtc";
+
+async function fileFingerprint(filePath: string): Promise<string> {
+  const bytes = await readFile(filePath);
+  return createHash("sha256").update(bytes).digest("hex").slice(0, 12);
+}
+
+export function createConversionCache(config: AppConfig): ConversionCache {
+  const enabled = config.CONVERSION_CACHE_ENABLED;
+  const directory = config.conversionCacheDirAbsolute;
+  const maxBytes = config.CONVERSION_CACHE_MAX_MB * 1024 * 1024;
+  const maxAgeMs = config.CONVERSION_CACHE_MAX_AGE_HOURS * 60 * 60 * 1000;
+  let scriptVersion: { mtimeMs: number; value: string } | null = null;
+
+  const entryPath = (key: string) => path.join(directory, `${key}${ENTRY_SUFFIX}`);
+  const artifactPath = (key: string) => path.join(directory, `${key}${ARTIFACT_SUFFIX}`);
+
+  // cbz2xtc is vendored and may be patched in place, so its content hash is the version. The packer in use and
+  // the native packer's version are added, since 2-bit output always comes from the native packer.
+  const getScriptVersion = async (): Promise<string> => {
+    const info = await stat(config.CBZ2XTC_PATH);
+    if (scriptVersion && scriptVersion.mtimeMs === info.mtimeMs) {
+      return scriptVersion.value;
+    }
+    const parts = [await fileFingerprint(config.CBZ2XTC_PATH)];
+    if (config.PNG2XTC_PATH) {
+      parts.push(await fileFingerprint(config.PNG2XTC_PATH).catch(() => "missing"));
+    }
+    parts.push(config.XTC_PACKER, `xtc${XTC_PACKER_VERSION}`);
+    scriptVersion = { mtimeMs: info.mtimeMs, value: parts.join("-") };
+    return scriptVersion.value;
+  };
+
+  const buildKey = (archiveId: string, settingsHash: string, version: string): string =>
+    createHash("sha256").update(`${archiveId}\n${settingsHash}\n${version}`).digest("hex").slice(0, 32);
+
+  const readEntry = async (key: string): Promise<ConversionCacheEntry | null> => {
+    try {
+      const raw = await readFile(entryPath(key), "utf8");
+      const parsed = JSON.parse(raw) as ConversionCacheEntry;
+      return parsed && typeof parsed === "object" && parsed.key === key ? parsed : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeEntry = async (entry: ConversionCacheEntry): Promise<void> => {
+    const target = entryPath(entry.key);
+    const temp = `${target}.tmp`;
+    await writeFile(temp, JSON.stringify(entry, null, 2), "utf8");
+    await rename(temp, target);
+  };
+
+  const removeEntry = async (key: string): Promise<void> => {
+    await rm(artifactPath(key), { force: true });
+    await rm(entryPath(key), { force: true });
+  };
+
+  const isExpired = (entry: ConversionCacheEntry, now: number): boolean =>
+    maxAgeMs > 0 && now - new Date(entry.createdAt).getTime() > maxAgeMs;
+
+  const readAllEntries = async (): Promise<ConversionCacheEntry[]> => {
+    let names: string[];
+    try {
+      names = await readdir(directory);
+    } catch {
+      return [];
+    }
+    const entries: ConversionCacheEntry[] = [];
+    for (const name of names) {
+      if (!name.endsWith(ENTRY_SUFFIX)) continue;
+      const entry = await readEntry(name.slice(0, -ENTRY_SUFFIX.length));
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  };
+
+  const evict = async (): Promise<ConversionCacheEntry[]> => {
+    const now = Date.now();
+    const kept: ConversionCacheEntry[] = [];
+    for (const entry of await readAllEntries()) {
+      if (isExpired(entry, now)) {
+        await removeEntry(entry.key);
+        logInfo(`conversion cache evict key=${entry.key} id=${entry.archiveId} reason=age`);
+        continue;
+      }
+      kept.push(entry);
+    }
+
+    // Least recently used entries go first once the size budget is exceeded.
+    kept.sort((a, b) => new Date(b.lastAccessAt).getTime() - new Date(a.lastAccessAt).getTime());
+    let totalBytes = kept.reduce((sum, entry) => sum + entry.fileSize, 0);
+    while (totalBytes > maxBytes && kept.length > 0) {
+      const victim = kept.pop()!;
+      await removeEntry(victim.key);
+      totalBytes -= victim.fileSize;
+      logInfo(`conversion cache evict key=${victim.key} id=${victim.archiveId} reason=size`);
+    }
+    return kept;
+  };
+
+  return {
+    isEnabled: () => enabled,
+    lookup: async (archiveId, settings) => {
+      if (!enabled) return null;
+      try {
+        const settingsHash = hashConversionSettings(settings);
+        const key = buildKey(archiveId, settingsHash, await getScriptVersion());
+        const entry = await readEntry(key);
+        if (!entry) return null;
+
+        if (isExpired(entry, Date.now())) {
+          await removeEntry(key);
+          return null;
+        }
+
+        const filePath = artifactPath(key);
+        const info = await stat(filePath).catch(() => null);
+        if (!info || info.size !== entry.fileSize) {
+          await removeEntry(key);
+          return null;
+        }
+
+        entry.lastAccessAt = new Date().toISOString();
+        await writeEntry(entry).catch(() => undefined);
+        return { entry, filePath };
+      } catch (error) {
+        logError(`conversion cache lookup failed id=${archiveId} ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      }
+    },
+    peek: async (archiveId, settings) => {
+      if (!enabled) return null;
+      try {
+        const key = buildKey(archiveId, hashConversionSettings(settings), await getScriptVersion());
+        const entry = await readEntry(key);
+        if (!entry || isExpired(entry, Date.now())) return null;
+        const info = await stat(artifactPath(key)).catch(() => null);
+        return info && info.size === entry.fileSize ? entry : null;
+      } catch {
+        return null;
+      }
+    },
+    store: async (params) => {
+      if (!enabled) return null;
+      try {
+        await mkdir(directory, { recursive: true });
+        const settingsHash = hashConversionSettings(params.settings);
+        const version = await getScriptVersion();
+        const key = buildKey(params.archiveId, settingsHash, version);
+        const target = artifactPath(key);
+        const temp = `${target}.tmp`;
+        await copyFile(params.filePath, temp);
+        await rename(temp, target);
+        const info = await stat(target);
+        const now = new Date().toISOString();
+        const entry: ConversionCacheEntry = {
+          key,
+          archiveId: params.archiveId,
+          settingsHash,
+          scriptVersion: version,
+          downloadName: params.downloadName,
+          fileSize: info.size,
+          createdAt: now,
+          lastAccessAt: now,
+        };
+        await writeEntry(entry);
+        logInfo(`conversion cache store key=${key} id=${params.archiveId} size=${info.size}`);
+        await evict();
+        return entry;
+      } catch (error) {
+        logError(
+          `conversion cache store failed id=${params.archiveId} ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return null;
+      }
+    },
+    list: async () => {
+      const entries = enabled ? await evict() : await readAllEntries();
+      return {
+        enabled,
+        directory,
+        maxBytes,
+        maxAgeMs,
+        totalBytes: entries.reduce((sum, entry) => sum + entry.fileSize, 0),
+        entries,
+      };
+    },
+    purge: async (filter) => {
+      let removed = 0;
+      for (const entry of await readAllEntries()) {
+        if (filter?.key && entry.key !== filter.key) continue;
+        if (filter?.archiveId && entry.archiveId !== filter.archiveId) continue;
+        await removeEntry(entry.key);
+        removed += 1;
+      }
+      if (removed > 0) {
+        logInfo(`conversion cache purge removed=${removed}`);
+      }
+      return removed;
+    },
+  };
+}
@@ -1,12 +1,26 @@
 import { randomUUID } from "node:crypto";
-import { stat } from "node:fs/promises";
+import { readdir, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import pLimit, { type LimitFunction } from "p-limit";
 import type { AppConfig } from "./config";
-import { convertArchiveToXtc, type ConversionArtifact, type ConversionProgressEvent } from "./conversion";
-import { LanraragiClient } from "./lanraragi-client";
+import type { ConversionCache } from "./conversion-cache";
+import {
+  convertArchiveToXtc,
+  resolveWorkspaceRoot,
+  WORKSPACE_DIR_PREFIX,
+  type ConversionArtifact,
+  type ConversionProgressEvent,
+} from "./conversion";
+import type { DeviceManifest } from "./device-manifest";
+import { uploadArtifactToDevice } from "./device-upload";
+import { createJobStore, type JobStore, type StoredJob } from "./job-store";
+import type { LanraragiApi } from "./lanraragi-client";
+import type { AppliedProfileRule, ProfileRuleManager, RuleContext } from "./profile-rules";
+import type { ReadingSyncManager } from "./reading-sync";
 import type { ConversionSettings } from "../types";
-import { logError } from "./logger";
+import { logError, logInfo } from "./logger";
 
-type JobStatus = "queued" | "running" | "completed" | "failed";
+type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
 
 type JobPage = {
   label: string;
@@ -29,30 +43,144 @@ export type ConversionJobSnapshot = {
   error: string | null;
   downloadName: string | null;
   fileSize: number | null;
+  // The profile rule that replaced or patched the requested settings, if any.
+  appliedRule: AppliedProfileRule | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type ConversionJobEvent = {
+  jobId: string;
+  // Null for lifecycle changes (queued, running, completed, failed) that carry no progress event.
+  event: ConversionProgressEvent | null;
+  job: ConversionJobSnapshot;
+};
+
+type ConversionJobListener = (payload: ConversionJobEvent) => void;
+
 type ConversionJobRecord = {
   snapshot: ConversionJobSnapshot;
   artifact: ConversionArtifact | null;
   cleanupTimer: ReturnType<typeof setTimeout> | null;
   currentConvertedFramePath: string | null;
+  abort: AbortController;
 };
 
 const JOB_TTL_MS = 15 * 60 * 1000;
+const JOB_HISTORY_LIMIT = 200;
+const JOB_PERSIST_DELAY_MS = 1000;
 const jobs = new Map<string, ConversionJobRecord>();
+// Finished jobs whose artifact is gone (downloaded, uploaded or expired), kept for history.
+const history = new Map<string, ConversionJobSnapshot>();
+let workerLimit: LimitFunction | null = null;
+let jobStore: JobStore | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// Journal writes run one after another so an older write never lands after a newer one.
+let persistQueue: Promise<void> = Promise.resolve();
+const jobListeners = new Set<ConversionJobListener>();
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
+function emitJobEvent(snapshot: ConversionJobSnapshot, event: ConversionProgressEvent | null = null): void {
+  if (jobListeners.size === 0) return;
+  // Listeners write asynchronously, so they get a copy rather than the live snapshot.
+  const payload: ConversionJobEvent = {
+    jobId: snapshot.jobId,
+    event,
+    job: { ...snapshot, pages: snapshot.pages.map((page) => ({ ...page })) },
+  };
+  for (const listener of jobListeners) {
+    try {
+      listener(payload);
+    } catch (error) {
+      logError(`job listener failed jobId=${snapshot.jobId} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+export function subscribeConversionJobs(listener: ConversionJobListener): () => void {
+  jobListeners.add(listener);
+  return () => {
+    jobListeners.delete(listener);
+  };
+}
+
+// Page lists are left out: they only matter while a job runs, and a restart fails running jobs anyway.
+function collectStoredJobs(): StoredJob[] {
+  const active: StoredJob[] = Array.from(jobs.values()).map((record) => ({
+    snapshot: { ...record.snapshot, pages: [] },
+    artifact: record.artifact
+      ? {
+          workspaceDir: record.artifact.workspaceDir,
+          filePath: record.artifact.filePath,
+          downloadName: record.artifact.downloadName,
+          fileSize: record.artifact.fileSize,
+          pageCount: record.artifact.pageCount,
+          settingsHash: record.artifact.settingsHash,
+        }
+      : null,
+  }));
+  const retired: StoredJob[] = Array.from(history.values()).map((snapshot) => ({ snapshot, artifact: null }));
+  return [...active, ...retired];
+}
+
+function persistJobs(): void {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  if (!jobStore) return;
+  const store = jobStore;
+  const stored = collectStoredJobs();
+  persistQueue = persistQueue
+    .then(() => store.save(stored))
+    .catch((error) => {
+      logError(`job store save failed ${error instanceof Error ? error.message : String(error)}`);
+    });
+}
+
+// The journal only records lifecycle changes (queued, started, finished, retired), never per-page
+// progress. Those still come in bursts when a batch queues many jobs, so writes are coalesced.
+function schedulePersist(): void {
+  if (!jobStore || persistTimer) return;
+  persistTimer = setTimeout(persistJobs, JOB_PERSIST_DELAY_MS);
+}
+
+function trimHistory(): void {
+  if (history.size <= JOB_HISTORY_LIMIT) return;
+  const oldest = Array.from(history.values())
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+    .slice(0, history.size - JOB_HISTORY_LIMIT);
+  for (const snapshot of oldest) {
+    history.delete(snapshot.jobId);
+  }
+}
+
+function retireJob(jobId: string): void {
+  const record = jobs.get(jobId);
+  if (!record) return;
+  jobs.delete(jobId);
+  history.set(jobId, { ...record.snapshot, pages: [] });
+  trimHistory();
+  schedulePersist();
+}
+
 function updateProgress(snapshot: ConversionJobSnapshot): void {
   if (snapshot.status === "completed") {
     snapshot.progress = 1;
     return;
   }
-  if (snapshot.status === "failed") {
+  if (snapshot.status === "failed" || snapshot.status === "cancelled") {
+    return;
+  }
+  if (snapshot.stage === "finalizing") {
+    snapshot.progress = Math.max(snapshot.progress, 0.99);
+    return;
+  }
+  if (snapshot.stage === "xtc-pack") {
+    snapshot.progress = Math.max(snapshot.progress, 0.95);
     return;
   }
   if (snapshot.totalPages > 0) {
@@ -77,7 +205,7 @@ function updateProgress(snapshot: ConversionJobSnapshot): void {
   }
 }
 
-function scheduleCleanup(jobId: string): void {
+function scheduleCleanup(jobId: string, ttlMs = JOB_TTL_MS): void {
   const record = jobs.get(jobId);
   if (!record) return;
 
@@ -93,9 +221,19 @@ function scheduleCleanup(jobId: string): void {
     } catch (error) {
       logError(`job cleanup failed jobId=${jobId} ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      jobs.delete(jobId);
+      retireJob(jobId);
     }
-  }, JOB_TTL_MS);
+  }, ttlMs);
+}
+
+// Hands a completed job's lifetime to its batch: it no longer expires on its own, and the batch
+// cleanup disposes of it.
+function holdJob(jobId: string): void {
+  const record = jobs.get(jobId);
+  if (record?.cleanupTimer) {
+    clearTimeout(record.cleanupTimer);
+    record.cleanupTimer = null;
+  }
 }
 
 function applyProgressEvent(record: ConversionJobRecord, event: ConversionProgressEvent): void {
@@ -129,27 +267,43 @@ function applyProgressEvent(record: ConversionJobRecord, event: ConversionProgre
     snapshot.message = `Converting frame ${event.frameLabel}`;
   } else if (event.type === "cbz2xtc_summary") {
     snapshot.message = event.summary;
+  } else if (event.type === "profile_rule") {
+    snapshot.appliedRule = event.rule;
+    snapshot.message = `Applied profile rule "${event.rule.name}"`;
   } else if (event.type === "done") {
-    snapshot.status = "completed";
-    snapshot.stage = "completed";
-    snapshot.message = `Conversion complete (${event.fileSize} bytes)`;
-    snapshot.progress = 1;
+    // Still running: the job only completes once executeJob has attached the artifact, so nothing reads a
+    // completed job it cannot download yet.
+    snapshot.stage = "finalizing";
+    snapshot.message = `Conversion complete (${event.fileSize} bytes), finalizing`;
     snapshot.downloadName = event.downloadName;
     snapshot.fileSize = event.fileSize;
   }
   updateProgress(snapshot);
+  emitJobEvent(snapshot, event);
 }
 
-export function startConversionJob(params: {
+type ConversionJobParams = {
   config: AppConfig;
-  lrr: LanraragiClient;
+  lrr: LanraragiApi;
   archiveId: string;
   settings: ConversionSettings;
-}): ConversionJobSnapshot {
+  cache?: ConversionCache;
+  rules?: ProfileRuleManager;
+  ruleContext?: RuleContext;
+};
+
+function getWorkerLimit(config: AppConfig): LimitFunction {
+  if (!workerLimit) {
+    workerLimit = pLimit(config.CONVERSION_WORKERS);
+  }
+  return workerLimit;
+}
+
+function createJobRecord(archiveId: string): ConversionJobSnapshot {
   const jobId = randomUUID();
   const snapshot: ConversionJobSnapshot = {
     jobId,
-    archiveId: params.archiveId,
+    archiveId,
     status: "queued",
     stage: "queued",
     message: "Queued",
@@ -163,6 +317,7 @@ export function startConversionJob(params: {
     error: null,
     downloadName: null,
     fileSize: null,
+    appliedRule: null,
     createdAt: nowIso(),
     updatedAt: nowIso(),
   };
@@ -172,17 +327,26 @@ export function startConversionJob(params: {
     artifact: null,
     cleanupTimer: null,
     currentConvertedFramePath: null,
+    abort: new AbortController(),
   });
+  schedulePersist();
+  emitJobEvent(snapshot);
+  return snapshot;
+}
 
-  void (async () => {
+async function executeJob(jobId: string, params: ConversionJobParams, onStart?: () => void): Promise<void> {
+  await getWorkerLimit(params.config)(async () => {
     const record = jobs.get(jobId);
-    if (!record) return;
+    if (!record || record.abort.signal.aborted) return;
 
     record.snapshot.status = "running";
     record.snapshot.stage = "starting";
     record.snapshot.message = "Starting conversion";
     record.snapshot.updatedAt = nowIso();
     updateProgress(record.snapshot);
+    schedulePersist();
+    emitJobEvent(record.snapshot);
+    onStart?.();
 
     try {
       const artifact = await convertArchiveToXtc({
@@ -190,15 +354,19 @@ export function startConversionJob(params: {
         lrr: params.lrr,
         archiveId: params.archiveId,
         settings: params.settings,
+        cache: params.cache,
+        rules: params.rules,
+        ruleContext: params.ruleContext,
+        signal: record.abort.signal,
         onProgress: (event) => {
           const current = jobs.get(jobId);
-          if (!current) return;
+          if (!current || current.abort.signal.aborted) return;
           applyProgressEvent(current, event);
         },
       });
 
       const current = jobs.get(jobId);
-      if (!current) {
+      if (!current || current.abort.signal.aborted) {
         await artifact.dispose();
         return;
       }
@@ -211,24 +379,62 @@ export function startConversionJob(params: {
       current.snapshot.fileSize = artifact.fileSize;
       current.snapshot.updatedAt = nowIso();
       scheduleCleanup(jobId);
+      persistJobs();
+      emitJobEvent(current.snapshot);
     } catch (error) {
       const current = jobs.get(jobId);
-      if (!current) return;
+      // Cancelled jobs were already finalized by cancelConversionJob; the error is just the abort unwinding.
+      if (!current || current.abort.signal.aborted) return;
       current.snapshot.status = "failed";
       current.snapshot.stage = "failed";
       current.snapshot.error = error instanceof Error ? error.message : String(error);
       current.snapshot.message = current.snapshot.error;
       current.snapshot.updatedAt = nowIso();
       scheduleCleanup(jobId);
+      persistJobs();
+      emitJobEvent(current.snapshot);
     }
-  })();
+  });
+}
 
+export function startConversionJob(params: ConversionJobParams): ConversionJobSnapshot {
+  const snapshot = createJobRecord(params.archiveId);
+  void executeJob(snapshot.jobId, params);
   return snapshot;
 }
 
+/**
+ * Cancels a queued or running job: aborts LANraragi fetches, kills the conversion child process and
+ * lets the conversion remove its workspace. Returns null for unknown or already finished jobs.
+ */
+export function cancelConversionJob(jobId: string): ConversionJobSnapshot | null {
+  const record = jobs.get(jobId);
+  if (!record || (record.snapshot.status !== "queued" && record.snapshot.status !== "running")) {
+    return null;
+  }
+
+  record.abort.abort();
+  record.currentConvertedFramePath = null;
+  record.snapshot.status = "cancelled";
+  record.snapshot.stage = "cancelled";
+  record.snapshot.message = "Conversion cancelled";
+  record.snapshot.updatedAt = nowIso();
+  logInfo(`job cancelled jobId=${jobId} id=${record.snapshot.archiveId}`);
+  scheduleCleanup(jobId);
+  persistJobs();
+  emitJobEvent(record.snapshot);
+  return record.snapshot;
+}
+
 export function getConversionJob(jobId: string): ConversionJobSnapshot | null {
   const record = jobs.get(jobId);
-  return record ? record.snapshot : null;
+  return record ? record.snapshot : history.get(jobId) ?? null;
+}
+
+export function listConversionJobs(): ConversionJobSnapshot[] {
+  return [...Array.from(jobs.values()).map((record) => record.snapshot), ...history.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
 }
 
 export async function getConversionJobFrame(jobId: string): Promise<{ filePath: string; mtimeMs: number } | null> {
@@ -247,6 +453,13 @@ export async function getConversionJobFrame(jobId: string): Promise<{ filePath:
   }
 }
 
+// Read-only access for inspection; the artifact stays with the job until it is taken or expires.
+export function peekJobArtifact(jobId: string): ConversionArtifact | null {
+  const record = jobs.get(jobId);
+  if (!record || record.snapshot.status !== "completed") return null;
+  return record.artifact;
+}
+
 export function takeJobArtifact(jobId: string): ConversionArtifact | null {
   const record = jobs.get(jobId);
   if (!record || record.snapshot.status !== "completed" || !record.artifact) {
@@ -260,6 +473,322 @@ export function takeJobArtifact(jobId: string): ConversionArtifact | null {
 
   const artifact = record.artifact;
   record.artifact = null;
-  jobs.delete(jobId);
+  retireJob(jobId);
   return artifact;
 }
+
+/**
+ * Loads the job journal written by a previous server process. Jobs that were still queued or
+ * running are marked failed, completed jobs get their artifact back while it is still on disk,
+ * and any other conversion workspace left under the temp root is removed.
+ */
+export async function restoreConversionJobs(config: AppConfig): Promise<void> {
+  jobStore = createJobStore(config.jobStoreFileAbsolute);
+  const keepWorkspaces = new Set<string>();
+  let interrupted = 0;
+  let restored = 0;
+
+  for (const { snapshot, artifact } of jobStore.load()) {
+    snapshot.appliedRule ??= null;
+    if (snapshot.status === "queued" || snapshot.status === "running") {
+      snapshot.status = "failed";
+      snapshot.stage = "failed";
+      snapshot.error = "Interrupted by server restart";
+      snapshot.message = snapshot.error;
+      snapshot.updatedAt = nowIso();
+      history.set(snapshot.jobId, { ...snapshot, pages: [] });
+      interrupted += 1;
+      continue;
+    }
+
+    const age = Date.now() - new Date(snapshot.updatedAt).getTime();
+    const artifactInfo = artifact ? await stat(artifact.filePath).catch(() => null) : null;
+    if (snapshot.status === "completed" && artifact && artifactInfo?.isFile() && age < JOB_TTL_MS) {
+      keepWorkspaces.add(path.resolve(artifact.workspaceDir));
+      jobs.set(snapshot.jobId, {
+        snapshot,
+        artifact: {
+          ...artifact,
+          archiveId: snapshot.archiveId,
+          pageCount: artifact.pageCount ?? 0,
+          settingsHash: artifact.settingsHash ?? "",
+          dispose: async () => {
+            await rm(artifact.workspaceDir, { recursive: true, force: true });
+          },
+        },
+        cleanupTimer: null,
+        currentConvertedFramePath: null,
+        abort: new AbortController(),
+      });
+      scheduleCleanup(snapshot.jobId);
+      restored += 1;
+      continue;
+    }
+
+    history.set(snapshot.jobId, { ...snapshot, pages: [] });
+  }
+  trimHistory();
+
+  const workspaceRoot = resolveWorkspaceRoot(config);
+  let removed = 0;
+  const names = await readdir(workspaceRoot).catch(() => [] as string[]);
+  for (const name of names) {
+    if (!name.startsWith(WORKSPACE_DIR_PREFIX)) continue;
+    const dir = path.resolve(workspaceRoot, name);
+    if (keepWorkspaces.has(dir)) continue;
+    try {
+      await rm(dir, { recursive: true, force: true });
+      removed += 1;
+    } catch (error) {
+      logError(`job workspace cleanup failed dir=${dir} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  persistJobs();
+  logInfo(
+    `job store restored file=${config.jobStoreFileAbsolute} history=${history.size} restored=${restored} interrupted=${interrupted} orphans_removed=${removed}`,
+  );
+}
+
+type BatchStatus = "running" | "completed";
+type BatchItemStatus = "queued" | "converting" | "uploading" | "completed" | "failed";
+
+export type ConversionBatchItem = {
+  archiveId: string;
+  title: string;
+  status: BatchItemStatus;
+  attempts: number;
+  jobId: string | null;
+  job: ConversionJobSnapshot | null;
+  error: string | null;
+  fileSize: number | null;
+  uploadedTo: string | null;
+};
+
+export type ConversionBatchSnapshot = {
+  batchId: string;
+  mode: "download" | "upload";
+  status: BatchStatus;
+  target: { baseUrl: string; path: string } | null;
+  total: number;
+  completed: number;
+  failed: number;
+  active: number;
+  items: ConversionBatchItem[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ConversionBatchRecord = {
+  snapshot: ConversionBatchSnapshot;
+  params: Omit<ConversionJobParams, "archiveId">;
+  uploadLimit: LimitFunction;
+  manifest?: DeviceManifest;
+  readingSync?: ReadingSyncManager;
+  cleanupTimer: ReturnType<typeof setTimeout> | null;
+};
+
+const BATCH_TTL_MS = 60 * 60 * 1000;
+const BATCH_ITEM_MAX_ATTEMPTS = 2;
+const batches = new Map<string, ConversionBatchRecord>();
+
+function refreshBatchCounts(snapshot: ConversionBatchSnapshot): void {
+  snapshot.completed = snapshot.items.filter((item) => item.status === "completed").length;
+  snapshot.failed = snapshot.items.filter((item) => item.status === "failed").length;
+  snapshot.active = snapshot.items.filter((item) => item.status === "converting" || item.status === "uploading").length;
+  snapshot.updatedAt = nowIso();
+  if (snapshot.completed + snapshot.failed === snapshot.total) {
+    snapshot.status = "completed";
+  }
+}
+
+function scheduleBatchCleanup(batchId: string): void {
+  const record = batches.get(batchId);
+  if (!record) return;
+  if (record.cleanupTimer) {
+    clearTimeout(record.cleanupTimer);
+  }
+  record.cleanupTimer = setTimeout(() => {
+    batches.delete(batchId);
+    for (const item of record.snapshot.items) {
+      if (record.snapshot.mode === "download" && item.status === "completed" && item.jobId) {
+        scheduleCleanup(item.jobId, 0);
+      }
+    }
+  }, BATCH_TTL_MS);
+}
+
+async function runBatchItem(record: ConversionBatchRecord, item: ConversionBatchItem): Promise<void> {
+  const { snapshot } = record;
+
+  while (item.attempts < BATCH_ITEM_MAX_ATTEMPTS) {
+    item.attempts += 1;
+    item.error = null;
+    item.status = "queued";
+    const job = createJobRecord(item.archiveId);
+    item.jobId = job.jobId;
+    item.job = job;
+    refreshBatchCounts(snapshot);
+
+    // The item stays queued until a conversion worker slot frees up.
+    await executeJob(job.jobId, { ...record.params, archiveId: item.archiveId }, () => {
+      item.status = "converting";
+      refreshBatchCounts(snapshot);
+    });
+
+    if (job.status === "cancelled") {
+      item.error = "Conversion cancelled";
+      break;
+    }
+    if (job.status !== "completed") {
+      item.error = job.error || "Conversion failed";
+      logError(
+        `batch item failed batch=${snapshot.batchId} id=${item.archiveId} attempt=${item.attempts}/${BATCH_ITEM_MAX_ATTEMPTS} error=${item.error}`,
+      );
+      continue;
+    }
+
+    item.fileSize = job.fileSize;
+    if (snapshot.mode === "download" || !snapshot.target) {
+      // Download items stay fetchable for as long as the batch is listed, not just the job's own TTL.
+      holdJob(job.jobId);
+      item.status = "completed";
+      refreshBatchCounts(snapshot);
+      return;
+    }
+
+    const artifact = takeJobArtifact(job.jobId);
+    if (!artifact) {
+      item.error = "Conversion output expired before upload";
+      continue;
+    }
+
+    const target = snapshot.target;
+    item.status = "uploading";
+    refreshBatchCounts(snapshot);
+    try {
+      const upload = await record.uploadLimit(() =>
+        uploadArtifactToDevice({
+          artifact,
+          baseUrl: target.baseUrl,
+          path: target.path,
+          label: `batch=${snapshot.batchId} job=${job.jobId}`,
+          jobId: job.jobId,
+          manifest: record.manifest,
+          sidecar: record.params.config.DEVICE_MANIFEST_SIDECAR,
+          readingSync: record.readingSync,
+        }),
+      );
+      item.uploadedTo = `${upload.baseUrl}${upload.path}`;
+      item.status = "completed";
+      refreshBatchCounts(snapshot);
+      return;
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  item.status = "failed";
+  refreshBatchCounts(snapshot);
+}
+
+function runBatchItems(record: ConversionBatchRecord, items: ConversionBatchItem[]): void {
+  void Promise.all(items.map((item) => runBatchItem(record, item))).then(() => {
+    refreshBatchCounts(record.snapshot);
+    logInfo(
+      `batch done batch=${record.snapshot.batchId} completed=${record.snapshot.completed} failed=${record.snapshot.failed}`,
+    );
+    scheduleBatchCleanup(record.snapshot.batchId);
+  });
+}
+
+export function startConversionBatch(params: {
+  config: AppConfig;
+  lrr: LanraragiApi;
+  settings: ConversionSettings;
+  cache?: ConversionCache;
+  rules?: ProfileRuleManager;
+  ruleContext?: RuleContext;
+  items: Array<{ archiveId: string; title?: string }>;
+  target: { baseUrl: string; path: string } | null;
+  manifest?: DeviceManifest;
+  readingSync?: ReadingSyncManager;
+}): ConversionBatchSnapshot {
+  const batchId = randomUUID();
+  const snapshot: ConversionBatchSnapshot = {
+    batchId,
+    mode: params.target ? "upload" : "download",
+    status: "running",
+    target: params.target,
+    total: params.items.length,
+    completed: 0,
+    failed: 0,
+    active: 0,
+    items: params.items.map((item) => ({
+      archiveId: item.archiveId,
+      title: item.title?.trim() || item.archiveId,
+      status: "queued",
+      attempts: 0,
+      jobId: null,
+      job: null,
+      error: null,
+      fileSize: null,
+      uploadedTo: null,
+    })),
+    createdAt: nowIso(),
+    updatedAt: nowIso(),
+  };
+
+  const record: ConversionBatchRecord = {
+    snapshot,
+    params: {
+      config: params.config,
+      lrr: params.lrr,
+      settings: params.settings,
+      cache: params.cache,
+      rules: params.rules,
+      ruleContext: params.ruleContext,
+    },
+    uploadLimit: pLimit(1),
+    manifest: params.manifest,
+    readingSync: params.readingSync,
+    cleanupTimer: null,
+  };
+  batches.set(batchId, record);
+  logInfo(`batch start batch=${batchId} mode=${snapshot.mode} items=${snapshot.total}`);
+  runBatchItems(record, snapshot.items);
+  return snapshot;
+}
+
+export function getConversionBatch(batchId: string): ConversionBatchSnapshot | null {
+  return batches.get(batchId)?.snapshot ?? null;
+}
+
+export function listConversionBatches(): ConversionBatchSnapshot[] {
+  return Array.from(batches.values())
+    .map((record) => record.snapshot)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function retryConversionBatch(batchId: string): ConversionBatchSnapshot | null {
+  const record = batches.get(batchId);
+  if (!record) return null;
+
+  const failed = record.snapshot.items.filter((item) => item.status === "failed");
+  if (failed.length === 0) return record.snapshot;
+
+  if (record.cleanupTimer) {
+    clearTimeout(record.cleanupTimer);
+    record.cleanupTimer = null;
+  }
+  for (const item of failed) {
+    item.status = "queued";
+    item.attempts = 0;
+    item.error = null;
+  }
+  record.snapshot.status = "running";
+  refreshBatchCounts(record.snapshot);
+  logInfo(`batch retry batch=${batchId} items=${failed.length}`);
+  runBatchItems(record, failed);
+  return record.snapshot;
+}
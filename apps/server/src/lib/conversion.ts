@@ -1,19 +1,28 @@
-import { spawn } from "node:child_process";
+import { spawn, type ChildProcess } from "node:child_process";
 import { createWriteStream, existsSync } from "node:fs";
-import { access, copyFile, mkdir, mkdtemp, open, readdir, rename, rm, stat } from "node:fs/promises";
+import { access, copyFile, mkdir, mkdtemp, open, readdir, readFile, rename, rm, stat } from "node:fs/promises";
 import type { Dirent } from "node:fs";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import pLimit from "p-limit";
 import yazl from "yazl";
 import type { AppConfig } from "./config";
-import { LanraragiClient } from "./lanraragi-client";
-import { settingsToCbz2xtcArgs } from "./settings";
-import type { ConversionSettings } from "../types";
+import type { ConversionCache } from "./conversion-cache";
+import type { AppliedProfileRule, ProfileRuleManager, RuleContext, RuleEvaluation } from "./profile-rules";
+import type { LanraragiApi } from "./lanraragi-client";
+import { hashConversionSettings, settingsToCbz2xtcArgs } from "./settings";
+import { isRetryableUpstreamError, withRetry } from "./upstream";
+import { assertValidXtc, packPngFolderToXtc } from "./xtc";
+import type { ArchiveRecord, ConversionSettings } from "../types";
 import { logError, logInfo } from "./logger";
 
 const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".avif"]);
-const PAGE_FETCH_RETRY_ATTEMPTS = 5;
+const PAGE_FETCH_RETRY_ATTEMPTS = 3;
+// How long a remembered profile rule match may stand in for fresh metadata on a cache hit. Tags edited in
+// LANraragi within that window still get the old rule's output; the offline bound applies only while
+// LANraragi cannot be reached.
+const RULE_RECALL_MAX_AGE_MS = 60 * 1000;
+const RULE_RECALL_OFFLINE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
 const PAGE_FETCH_RETRY_DELAY_MS = 500;
 const FRAME_POLL_INTERVAL_MS = 500;
 const FRAME_MIN_AGE_MS = 350;
@@ -33,6 +42,7 @@ export type ConversionProgressEvent =
   | { type: "cbz_ready"; total: number }
   | { type: "cbz2xtc_frame"; framePath: string; frameLabel: string }
   | { type: "cbz2xtc_summary"; summary: string }
+  | { type: "profile_rule"; rule: AppliedProfileRule }
   | { type: "done"; fileSize: number; downloadName: string };
 
 function sanitizeSegment(input: string): string {
@@ -223,56 +233,81 @@ function inferPageExtension(response: Response, pageRef: string): string {
   return ".jpg";
 }
 
-async function sleep(ms: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, ms));
+class UnexpectedPageContentError extends Error {}
+
+const CANCELLED_MESSAGE = "Conversion cancelled";
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(CANCELLED_MESSAGE);
+  }
+}
+
+// Returns a detach function; call it once the child has exited.
+function killOnAbort(proc: ChildProcess, signal?: AbortSignal): () => void {
+  if (!signal) return () => undefined;
+  const onAbort = () => {
+    proc.kill("SIGTERM");
+  };
+  if (signal.aborted) {
+    onAbort();
+    return () => undefined;
+  }
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
 }
 
+// The client already retries transient upstream errors; this also covers LANraragi answering a page request
+// with an error document instead of the image.
 async function downloadPageWithRetry(params: {
-  lrr: LanraragiClient;
+  lrr: LanraragiApi;
   pageUrl: string;
   pageNumber: number;
   totalPages: number;
   archiveId: string;
+  signal?: AbortSignal;
 }): Promise<Response> {
-  let lastError: unknown;
-
-  for (let attempt = 1; attempt <= PAGE_FETCH_RETRY_ATTEMPTS; attempt += 1) {
-    try {
-      const response = await params.lrr.downloadByPageUrl(params.pageUrl);
-      const contentType = (response.headers.get("content-type") || "").toLowerCase();
-      if (contentType.includes("text/html") || contentType.includes("application/json")) {
-        throw new Error(
-          `Unexpected page content-type for page ${params.pageNumber}: ${contentType || "unknown"}`,
-        );
-      }
-      return response;
-    } catch (error) {
-      lastError = error;
-      if (attempt < PAGE_FETCH_RETRY_ATTEMPTS) {
-        const reason = error instanceof Error ? error.message : String(error);
-        logInfo(
-          `page fetch retry id=${params.archiveId} page=${params.pageNumber}/${params.totalPages} attempt=${attempt + 1}/${PAGE_FETCH_RETRY_ATTEMPTS} reason=${reason.slice(0, 160)}`,
-        );
-        await sleep(PAGE_FETCH_RETRY_DELAY_MS * attempt);
-        continue;
-      }
-    }
-  }
-
-  if (lastError instanceof Error) {
-    throw new Error(
-      `Failed to fetch page ${params.pageNumber}/${params.totalPages} for archive ${params.archiveId}: ${lastError.message}`,
+  try {
+    return await withRetry(
+      async () => {
+        throwIfCancelled(params.signal);
+        const response = await params.lrr.downloadByPageUrl(params.pageUrl, { signal: params.signal });
+        const contentType = (response.headers.get("content-type") || "").toLowerCase();
+        if (contentType.includes("text/html") || contentType.includes("application/json")) {
+          await response.body?.cancel().catch(() => undefined);
+          throw new UnexpectedPageContentError(
+            `Unexpected page content-type for page ${params.pageNumber}: ${contentType || "unknown"}`,
+          );
+        }
+        return response;
+      },
+      {
+        retries: PAGE_FETCH_RETRY_ATTEMPTS - 1,
+        baseDelayMs: PAGE_FETCH_RETRY_DELAY_MS,
+        signal: params.signal,
+        shouldRetry: (error) => error instanceof UnexpectedPageContentError || isRetryableUpstreamError(error),
+        onRetry: (error, nextAttempt) => {
+          const reason = error instanceof Error ? error.message : String(error);
+          logInfo(
+            `page fetch retry id=${params.archiveId} page=${params.pageNumber}/${params.totalPages} attempt=${nextAttempt}/${PAGE_FETCH_RETRY_ATTEMPTS} reason=${reason.slice(0, 160)}`,
+          );
+        },
+      },
     );
+  } catch (error) {
+    throwIfCancelled(params.signal);
+    const reason = error instanceof Error ? `: ${error.message}` : "";
+    throw new Error(`Failed to fetch page ${params.pageNumber}/${params.totalPages} for archive ${params.archiveId}${reason}`);
   }
-  throw new Error(`Failed to fetch page ${params.pageNumber}/${params.totalPages} for archive ${params.archiveId}`);
 }
 
 async function getArchivePagesRobust(params: {
-  lrr: LanraragiClient;
+  lrr: LanraragiApi;
   archiveId: string;
   expectedPageCount?: number;
+  signal?: AbortSignal;
 }): Promise<string[]> {
-  const cachedPages = await params.lrr.getArchivePages(params.archiveId, { force: false });
+  const cachedPages = await params.lrr.getArchivePages(params.archiveId, { force: false, signal: params.signal });
   if (cachedPages.length > 1) {
     return cachedPages;
   }
@@ -281,7 +316,7 @@ async function getArchivePagesRobust(params: {
     return cachedPages;
   }
 
-  const refreshedPages = await params.lrr.getArchivePages(params.archiveId, { force: true });
+  const refreshedPages = await params.lrr.getArchivePages(params.archiveId, { force: true, signal: params.signal });
   if (refreshedPages.length !== cachedPages.length) {
     logInfo(
       `page list refresh id=${params.archiveId} cached=${cachedPages.length} refreshed=${refreshedPages.length}`,
@@ -291,7 +326,11 @@ async function getArchivePagesRobust(params: {
   return refreshedPages.length > 0 ? refreshedPages : cachedPages;
 }
 
-async function normalizeImagesForXtc(params: { files: string[]; pythonBin: string }): Promise<string[]> {
+async function normalizeImagesForXtc(params: {
+  files: string[];
+  pythonBin: string;
+  signal?: AbortSignal;
+}): Promise<string[]> {
   if (!params.files.length) return [];
 
   const script = `
@@ -319,6 +358,7 @@ for src in sys.argv[1:]:
     const proc = spawn(params.pythonBin, ["-c", script, ...params.files], {
       stdio: ["ignore", "pipe", "pipe"],
     });
+    const detachAbort = killOnAbort(proc, params.signal);
 
     let stdout = "";
     let stderr = "";
@@ -331,6 +371,11 @@ for src in sys.argv[1:]:
     });
     proc.on("error", reject);
     proc.on("close", (code) => {
+      detachAbort();
+      if (params.signal?.aborted) {
+        reject(new Error(CANCELLED_MESSAGE));
+        return;
+      }
       if (code !== 0) {
         reject(
           new Error(
@@ -352,7 +397,11 @@ for src in sys.argv[1:]:
   });
 }
 
-async function rotateCoverForPortraitInLandscape(params: { filePath: string; pythonBin: string }): Promise<void> {
+async function rotateCoverForPortraitInLandscape(params: {
+  filePath: string;
+  pythonBin: string;
+  signal?: AbortSignal;
+}): Promise<void> {
   const script = `
 import os, sys
 from PIL import Image
@@ -376,6 +425,7 @@ with Image.open(src) as im:
     const proc = spawn(params.pythonBin, ["-c", script, params.filePath], {
       stdio: ["ignore", "pipe", "pipe"],
     });
+    const detachAbort = killOnAbort(proc, params.signal);
 
     let stdout = "";
     let stderr = "";
@@ -387,6 +437,11 @@ with Image.open(src) as im:
     });
     proc.on("error", reject);
     proc.on("close", (code) => {
+      detachAbort();
+      if (params.signal?.aborted) {
+        reject(new Error(CANCELLED_MESSAGE));
+        return;
+      }
       if (code === 0) {
         resolve();
         return;
@@ -402,13 +457,14 @@ with Image.open(src) as im:
 
 async function createCbzFromPages(params: {
   pages: string[];
-  lrr: LanraragiClient;
+  lrr: LanraragiApi;
   archivePath: string;
   archiveId: string;
   concurrency: number;
   pythonBin: string;
   prependPortraitCoverForLandscape?: boolean;
   onProgress?: (event: ConversionProgressEvent) => void;
+  signal?: AbortSignal;
 }): Promise<void> {
   const pageDir = path.join(path.dirname(params.archivePath), "pages_tmp");
   await mkdir(pageDir, { recursive: true });
@@ -418,6 +474,7 @@ async function createCbzFromPages(params: {
   const downloadedFilesRaw = await Promise.all(
     params.pages.map((pageUrl, index) =>
       limit(async () => {
+        throwIfCancelled(params.signal);
         const pageNumber = index + 1;
         const response = await globalPageFetchLimit(() =>
           downloadPageWithRetry({
@@ -426,6 +483,7 @@ async function createCbzFromPages(params: {
             pageNumber,
             totalPages: params.pages.length,
             archiveId: params.archiveId,
+            signal: params.signal,
           }),
         );
         const inferredExt = inferPageExtension(response, pageUrl);
@@ -446,15 +504,18 @@ async function createCbzFromPages(params: {
   const downloadedFiles = await normalizeImagesForXtc({
     files: downloadedFilesRaw,
     pythonBin: params.pythonBin,
+    signal: params.signal,
   });
   if (params.prependPortraitCoverForLandscape && downloadedFiles.length > 0) {
     await rotateCoverForPortraitInLandscape({
       filePath: downloadedFiles[0],
       pythonBin: params.pythonBin,
+      signal: params.signal,
     });
     logInfo(`landscape cover prep applied file=${path.basename(downloadedFiles[0])}`);
   }
 
+  throwIfCancelled(params.signal);
   let archivedPageCount = 0;
   await new Promise<void>((resolve, reject) => {
     const zip = new yazl.ZipFile();
@@ -580,16 +641,24 @@ async function isCompletePngFile(filePath: string, sizeHint?: number): Promise<b
   }
 }
 
+// png2xtc.py only writes 1-bit pages, so 2-bit output always goes through the native packer.
+function usesNativePacker(config: AppConfig, settings: ConversionSettings): boolean {
+  return config.XTC_PACKER === "native" || settings.colorDepth === "2bit";
+}
+
 async function runCbz2xtc(params: {
   config: AppConfig;
   jobDir: string;
   settings: ConversionSettings;
   onProgress?: (event: ConversionProgressEvent) => void;
+  signal?: AbortSignal;
 }): Promise<{ stdout: string; stderr: string }> {
   const args = [
     params.config.CBZ2XTC_PATH,
     params.jobDir,
     ...settingsToCbz2xtcArgs(params.settings),
+    // With the native packer cbz2xtc only renders pages; packing happens in packPngFolderToXtc.
+    ...(usesNativePacker(params.config, params.settings) ? ["--png-only"] : []),
   ];
   logInfo(`cbz2xtc spawn cwd=${params.jobDir} cmd=${params.config.PYTHON_BIN} ${args.join(" ")}`);
 
@@ -606,6 +675,7 @@ async function runCbz2xtc(params: {
       cwd: params.jobDir,
       stdio: ["ignore", "pipe", "pipe"],
     });
+    const detachAbort = killOnAbort(proc, params.signal);
 
     let stdout = "";
     let stderr = "";
@@ -676,6 +746,12 @@ async function runCbz2xtc(params: {
     proc.on("close", (code) => {
       stopped = true;
       clearInterval(timer);
+      detachAbort();
+      if (params.signal?.aborted) {
+        logInfo(`cbz2xtc killed cwd=${params.jobDir} reason=cancelled`);
+        reject(new Error(CANCELLED_MESSAGE));
+        return;
+      }
       if (code === 0) {
         resolve({ stdout, stderr });
         return;
@@ -691,31 +767,50 @@ async function runCbz2xtc(params: {
   });
 }
 
+async function validateXtcArtifact(filePath: string, archiveId: string): Promise<number> {
+  const inspection = assertValidXtc(await readFile(filePath));
+  logInfo(`xtc validated id=${archiveId} pages=${inspection.pages.length} size=${inspection.fileSize}`);
+  return inspection.pages.length;
+}
+
 export type ConversionArtifact = {
+  workspaceDir: string;
   filePath: string;
+  archiveId: string;
   downloadName: string;
   fileSize: number;
+  // XTC pages, which differ from the archive's page count once spreads are split.
+  pageCount: number;
+  // Hash of the settings after profile rules, the same one the conversion cache keys on.
+  settingsHash: string;
   dispose: () => Promise<void>;
 };
 
+export const WORKSPACE_DIR_PREFIX = "lrr-xtc-";
+
+export function resolveWorkspaceRoot(config: AppConfig): string {
+  return existsSync(config.tempRootAbsolute) ? config.tempRootAbsolute : tmpdir();
+}
+
 export async function convertArchiveToXtc(params: {
   config: AppConfig;
-  lrr: LanraragiClient;
+  lrr: LanraragiApi;
   archiveId: string;
   settings: ConversionSettings;
+  cache?: ConversionCache;
+  rules?: ProfileRuleManager;
+  ruleContext?: RuleContext;
   onProgress?: (event: ConversionProgressEvent) => void;
+  signal?: AbortSignal;
 }): Promise<ConversionArtifact> {
   await ensureFileExists(params.config.CBZ2XTC_PATH);
-  if (params.config.PNG2XTC_PATH) {
+  if (params.config.XTC_PACKER === "python" && params.config.PNG2XTC_PATH) {
     await ensureFileExists(params.config.PNG2XTC_PATH);
   }
 
-  const workspace = existsSync(params.config.tempRootAbsolute)
-    ? params.config.tempRootAbsolute
-    : tmpdir();
-
+  const workspace = resolveWorkspaceRoot(params.config);
   await mkdir(workspace, { recursive: true });
-  const jobDir = await mkdtemp(path.join(workspace, "lrr-xtc-"));
+  const jobDir = await mkdtemp(path.join(workspace, WORKSPACE_DIR_PREFIX));
 
   const cleanup = async () => {
     logInfo(`cleanup jobDir=${jobDir}`);
@@ -723,14 +818,90 @@ export async function convertArchiveToXtc(params: {
   };
 
   try {
-    params.onProgress?.({
-      type: "stage",
-      stage: "metadata",
-      message: "Loading archive metadata",
+    const loadMetadata = () => {
+      params.onProgress?.({
+        type: "stage",
+        stage: "metadata",
+        message: "Loading archive metadata",
+      });
+      return params.lrr.getArchiveMetadata(params.archiveId, { signal: params.signal });
+    };
+    const unruled = (): RuleEvaluation => ({
+      settings: { ...params.settings, ...params.ruleContext?.overrides },
+      rule: null,
     });
-    const metadata = await params.lrr.getArchiveMetadata(params.archiveId);
+    const isCached = async (candidate: RuleEvaluation | null | undefined) =>
+      Boolean(candidate && (await params.cache?.peek(params.archiveId, candidate.settings)));
+
+    // Rules run before the cache lookup so the cache key reflects the settings actually used. The rule this
+    // archive matched last time is tried first, so a cache hit needs no LANraragi round trip.
+    let loadedMetadata: ArchiveRecord | null = null;
+    let ruled = params.rules
+      ? params.rules.recall(params.archiveId, params.settings, params.ruleContext, { maxAgeMs: RULE_RECALL_MAX_AGE_MS })
+      : unruled();
+    if (!(await isCached(ruled))) {
+      try {
+        loadedMetadata = await loadMetadata();
+        ruled = params.rules?.evaluate(loadedMetadata, params.settings, params.ruleContext) ?? unruled();
+      } catch (error) {
+        // With LANraragi unreachable, an older remembered match is still good enough to serve the cache.
+        const stale = params.rules?.recall(params.archiveId, params.settings, params.ruleContext, {
+          maxAgeMs: RULE_RECALL_OFFLINE_MAX_AGE_MS,
+        });
+        if (params.signal?.aborted || !stale || !(await isCached(stale))) throw error;
+        logInfo(`convert using remembered profile rule id=${params.archiveId} reason=metadata-unavailable`);
+        ruled = stale;
+      }
+    }
+    if (!ruled) throw new Error(`No conversion settings resolved for ${params.archiveId}`);
+    if (ruled.rule) {
+      logInfo(
+        `profile rule applied id=${params.archiveId} rule=${JSON.stringify(ruled.rule.name)} profile=${JSON.stringify(ruled.rule.profileName)}`,
+      );
+      params.onProgress?.({ type: "profile_rule", rule: ruled.rule });
+    }
+
+    const cached = await params.cache?.lookup(params.archiveId, ruled.settings);
+    if (cached) {
+      params.onProgress?.({
+        type: "stage",
+        stage: "cache",
+        message: "Using cached conversion output",
+      });
+      await mkdir(path.join(jobDir, "deliver"), { recursive: true });
+      const deliverPath = path.join(jobDir, "deliver", `${cached.entry.key}.xtc`);
+      await copyFile(cached.filePath, deliverPath);
+      try {
+        const xtcPageCount = await validateXtcArtifact(deliverPath, params.archiveId);
+        logInfo(`convert cache hit id=${params.archiveId} key=${cached.entry.key} size=${cached.entry.fileSize}`);
+        params.onProgress?.({
+          type: "done",
+          fileSize: cached.entry.fileSize,
+          downloadName: cached.entry.downloadName,
+        });
+        return {
+          workspaceDir: jobDir,
+          filePath: deliverPath,
+          archiveId: params.archiveId,
+          downloadName: cached.entry.downloadName,
+          fileSize: cached.entry.fileSize,
+          pageCount: xtcPageCount,
+          settingsHash: hashConversionSettings(ruled.settings),
+          dispose: cleanup,
+        };
+      } catch (error) {
+        // A corrupt cache entry is dropped and the archive is converted from scratch.
+        logError(
+          `convert cache entry invalid id=${params.archiveId} key=${cached.entry.key} ${error instanceof Error ? error.message : String(error)}`,
+        );
+        await rm(deliverPath, { force: true });
+        await params.cache?.purge({ key: cached.entry.key });
+      }
+    }
+
+    const metadata = loadedMetadata ?? (await loadMetadata());
     logInfo(`convert start id=${params.archiveId} ext=${metadata.extension} pagecount=${metadata.pagecount}`);
-    const resolvedSettings: ConversionSettings = { ...params.settings };
+    const resolvedSettings: ConversionSettings = { ...ruled.settings };
 
     if (resolvedSettings.orientation === "portrait") {
       resolvedSettings.splitMode = "nosplit";
@@ -781,6 +952,7 @@ export async function convertArchiveToXtc(params: {
           lrr: params.lrr,
           archiveId: params.archiveId,
           expectedPageCount: metadata.pagecount,
+          signal: params.signal,
         });
         pageCount = cachedPages.length;
       }
@@ -802,6 +974,7 @@ export async function convertArchiveToXtc(params: {
         lrr: params.lrr,
         archiveId: params.archiveId,
         expectedPageCount: metadata.pagecount,
+        signal: params.signal,
       });
       const pagesForBuild = preparePagesForBuild(cachedPages);
       params.onProgress?.({
@@ -826,6 +999,7 @@ export async function convertArchiveToXtc(params: {
           pythonBin: params.config.PYTHON_BIN,
           prependPortraitCoverForLandscape,
           onProgress: params.onProgress,
+          signal: params.signal,
         });
       } else {
         logInfo(`page extraction returned <=1 page for id=${params.archiveId}; trying archive download fallback`);
@@ -833,7 +1007,7 @@ export async function convertArchiveToXtc(params: {
     }
 
     if (!existsSync(archiveInputPath) && isCbzLikeExtension(metadata.extension)) {
-      const archiveResponse = await params.lrr.downloadArchive(params.archiveId);
+      const archiveResponse = await params.lrr.downloadArchive(params.archiveId, { signal: params.signal });
       const contentType = archiveResponse.headers.get("content-type") || "";
       logInfo(`archive download id=${params.archiveId} content-type=${contentType || "unknown"}`);
 
@@ -844,6 +1018,7 @@ export async function convertArchiveToXtc(params: {
             lrr: params.lrr,
             archiveId: params.archiveId,
             expectedPageCount: metadata.pagecount,
+            signal: params.signal,
           }));
         logInfo(
           `archive download looked non-archive, falling back to pages id=${params.archiveId} pages=${cachedPages.length}`,
@@ -862,6 +1037,7 @@ export async function convertArchiveToXtc(params: {
           pythonBin: params.config.PYTHON_BIN,
           prependPortraitCoverForLandscape,
           onProgress: params.onProgress,
+          signal: params.signal,
         });
       } else {
         params.onProgress?.({
@@ -880,6 +1056,7 @@ export async function convertArchiveToXtc(params: {
               lrr: params.lrr,
               archiveId: params.archiveId,
               expectedPageCount: metadata.pagecount,
+              signal: params.signal,
             }));
           if (!cachedPages.length) {
             throw new Error("Archive payload was not a zip archive and no pages were found.");
@@ -894,6 +1071,7 @@ export async function convertArchiveToXtc(params: {
             pythonBin: params.config.PYTHON_BIN,
             prependPortraitCoverForLandscape,
             onProgress: params.onProgress,
+            signal: params.signal,
           });
         }
       }
@@ -904,6 +1082,7 @@ export async function convertArchiveToXtc(params: {
           lrr: params.lrr,
           archiveId: params.archiveId,
           expectedPageCount: metadata.pagecount,
+          signal: params.signal,
         }));
       logInfo(`non-cbz fallback id=${params.archiveId} pages=${pages.length}`);
       if (!pages.length) {
@@ -920,9 +1099,11 @@ export async function convertArchiveToXtc(params: {
         pythonBin: params.config.PYTHON_BIN,
         prependPortraitCoverForLandscape,
         onProgress: params.onProgress,
+        signal: params.signal,
       });
     }
 
+    throwIfCancelled(params.signal);
     params.onProgress?.({
       type: "stage",
       stage: "cbz2xtc",
@@ -933,6 +1114,7 @@ export async function convertArchiveToXtc(params: {
       jobDir,
       settings: resolvedSettings,
       onProgress: params.onProgress,
+      signal: params.signal,
     });
     const cbz2xtcSummary = summarizeCbz2xtcOutput(cbz2xtcRun.stdout, cbz2xtcRun.stderr);
     if (cbz2xtcSummary) {
@@ -944,13 +1126,39 @@ export async function convertArchiveToXtc(params: {
     }
 
     const outputPath = path.join(jobDir, "xtc_output", `${baseName}.xtc`);
+    if (usesNativePacker(params.config, resolvedSettings)) {
+      throwIfCancelled(params.signal);
+      params.onProgress?.({
+        type: "stage",
+        stage: "xtc-pack",
+        message: "Packing converted pages into XTC",
+      });
+      const packStartAt = Date.now();
+      const packed = await packPngFolderToXtc({
+        pngDir: path.join(jobDir, ".temp_png", baseName),
+        outputPath,
+        colorDepth: resolvedSettings.colorDepth,
+        dither: !resolvedSettings.noDither,
+        signal: params.signal,
+      });
+      logInfo(
+        `xtc pack done id=${params.archiveId} colorDepth=${resolvedSettings.colorDepth} pages=${packed.pageCount} size=${packed.fileSize} elapsed_ms=${Date.now() - packStartAt}`,
+      );
+    }
     await ensureFileExists(outputPath);
 
     await mkdir(path.join(jobDir, "deliver"), { recursive: true });
     const deliverPath = path.join(jobDir, "deliver", `${baseName}.xtc`);
     await rename(outputPath, deliverPath);
+    const xtcPageCount = await validateXtcArtifact(deliverPath, params.archiveId);
     const outputInfo = await stat(deliverPath);
     logInfo(`convert done id=${params.archiveId} output=${deliverPath} size=${outputInfo.size}`);
+    await params.cache?.store({
+      archiveId: params.archiveId,
+      settings: ruled.settings,
+      filePath: deliverPath,
+      downloadName,
+    });
     params.onProgress?.({
       type: "done",
       fileSize: outputInfo.size,
@@ -958,9 +1166,13 @@ export async function convertArchiveToXtc(params: {
     });
 
     return {
+      workspaceDir: jobDir,
       filePath: deliverPath,
+      archiveId: params.archiveId,
       downloadName,
       fileSize: outputInfo.size,
+      pageCount: xtcPageCount,
+      settingsHash: hashConversionSettings(ruled.settings),
       dispose: cleanup,
     };
   } catch (error) {
@@ -1,6 +1,9 @@
 import { normalizeDeviceBaseUrl, normalizeDevicePath } from "./xteink-client";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
 import path from "node:path";
+import type { ConversionSettings } from "../types";
+import type { SettingsPrecedence, SettingsSource } from "./lanraragi-connection";
 
 export type DeviceSettings = {
   baseUrl: string;
@@ -12,69 +15,237 @@ export type DeviceSettingsUpdate = {
   path?: string;
 };
 
+export type SavedDevice = DeviceSettings & {
+  id: string;
+  name: string;
+  // Used for conversions aimed at this device when the request names no profile.
+  profileId: string | null;
+  // Overrides the profile's orientation unless the request sets one.
+  orientation: ConversionSettings["orientation"] | null;
+  isDefault: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SavedDeviceInput = DeviceSettingsUpdate & {
+  name?: string;
+  profileId?: string | null;
+  orientation?: ConversionSettings["orientation"] | null;
+  isDefault?: boolean;
+};
+
 export type DeviceConnectionManager = {
+  // Both operate on the default device.
   getSettings: () => DeviceSettings;
   updateSettings: (next: DeviceSettingsUpdate) => DeviceSettings;
+  list: () => SavedDevice[];
+  getDefault: () => SavedDevice;
+  // Accepts an id or a case-insensitive name.
+  find: (idOrName: string) => SavedDevice | null;
+  create: (input: SavedDeviceInput & { name: string; baseUrl: string }) => SavedDevice;
+  update: (id: string, input: SavedDeviceInput) => SavedDevice | null;
+  // The default device cannot be removed; mark another one as default first.
+  remove: (id: string) => boolean;
+  // Where the default device's address came from.
+  getSource: () => SettingsSource;
+  // Adds or replaces devices by id; nothing is removed. Returns how many were applied.
+  importDevices: (devices: Array<SavedDeviceInput & { id: string; name: string; baseUrl: string }>) => number;
 };
 
-function loadPersistedSettings(filePath: string): Partial<DeviceSettings> | null {
-  if (!existsSync(filePath)) return null;
+type DeviceFile = {
+  version: 1;
+  devices: SavedDevice[];
+};
+
+const DEFAULT_DEVICE_ID = "default";
+const DEFAULT_DEVICE_NAME = "Default";
+
+function isSavedDevice(value: unknown): value is SavedDevice {
+  if (!value || typeof value !== "object") return false;
+  const device = value as SavedDevice;
+  return typeof device.id === "string" && typeof device.name === "string" && typeof device.baseUrl === "string";
+}
+
+// Before named devices, the file held a single `{ baseUrl, path }` object.
+function loadPersistedDevices(filePath: string): { devices: SavedDevice[]; legacy: Partial<DeviceSettings> | null } {
+  if (!existsSync(filePath)) return { devices: [], legacy: null };
   try {
-    const raw = readFileSync(filePath, "utf8");
-    const parsed = JSON.parse(raw) as Partial<DeviceSettings>;
-    return parsed && typeof parsed === "object" ? parsed : null;
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<DeviceFile> & Partial<DeviceSettings>;
+    if (!parsed || typeof parsed !== "object") return { devices: [], legacy: null };
+    if (Array.isArray(parsed.devices)) return { devices: parsed.devices.filter(isSavedDevice), legacy: null };
+    return { devices: [], legacy: parsed };
   } catch {
-    return null;
+    return { devices: [], legacy: null };
   }
 }
 
-function saveSettings(filePath: string, settings: DeviceSettings): void {
+function saveDevices(filePath: string, devices: SavedDevice[]): void {
+  const body: DeviceFile = { version: 1, devices };
   mkdirSync(path.dirname(filePath), { recursive: true });
-  writeFileSync(filePath, JSON.stringify(settings, null, 2), "utf8");
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), "utf8");
+  renameSync(temp, filePath);
 }
 
-export function createDeviceConnectionManager(input: DeviceSettings & { filePath?: string }): DeviceConnectionManager {
-  let baseUrl = normalizeDeviceBaseUrl(input.baseUrl);
-  let path = normalizeDevicePath(input.path);
+function normalizeOr<T>(normalize: (value: string) => T, value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return normalize(value);
+  } catch {
+    return fallback;
+  }
+}
+
+export function createDeviceConnectionManager(
+  input: DeviceSettings & { filePath?: string; precedence?: SettingsPrecedence },
+): DeviceConnectionManager {
+  const fallbackBaseUrl = normalizeDeviceBaseUrl(input.baseUrl);
+  const fallbackPath = normalizeDevicePath(input.path);
   const settingsFile = input.filePath || "";
+  const now = Date.now();
 
-  if (settingsFile) {
-    const persisted = loadPersistedSettings(settingsFile);
-    if (persisted?.baseUrl) {
-      try {
-        baseUrl = normalizeDeviceBaseUrl(persisted.baseUrl);
-      } catch {
-        // Ignore invalid persisted base URL.
-      }
-    }
-    if (persisted?.path) {
-      try {
-        path = normalizeDevicePath(persisted.path);
-      } catch {
-        // Ignore invalid persisted path.
-      }
-    }
+  const persisted = settingsFile ? loadPersistedDevices(settingsFile) : { devices: [], legacy: null };
+  let devices: SavedDevice[] = persisted.devices.map((device) => ({
+    ...device,
+    baseUrl: normalizeOr(normalizeDeviceBaseUrl, device.baseUrl, fallbackBaseUrl),
+    path: normalizeOr(normalizeDevicePath, device.path, fallbackPath),
+    profileId: device.profileId ?? null,
+    orientation: device.orientation ?? null,
+    isDefault: Boolean(device.isDefault),
+  }));
+  if (devices.length === 0) {
+    devices = [
+      {
+        // Fixed id: the seeded device is not written until it changes, and env defaults keep applying until then.
+        id: DEFAULT_DEVICE_ID,
+        name: DEFAULT_DEVICE_NAME,
+        baseUrl: normalizeOr(normalizeDeviceBaseUrl, persisted.legacy?.baseUrl, fallbackBaseUrl),
+        path: normalizeOr(normalizeDevicePath, persisted.legacy?.path, fallbackPath),
+        profileId: null,
+        orientation: null,
+        isDefault: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ];
+  }
+  if (!devices.some((device) => device.isDefault)) {
+    devices[0].isDefault = true;
+  }
+  let source: SettingsSource = persisted.devices.length > 0 || persisted.legacy?.baseUrl ? "file" : "env";
+  // XTEINK_BASE_URL always has a value, so env precedence pins the default device to it.
+  if (input.precedence === "env") {
+    (devices.find((device) => device.isDefault) ?? devices[0]).baseUrl = fallbackBaseUrl;
+    source = "env";
   }
 
+  const copy = (device: SavedDevice): SavedDevice => ({ ...device });
+  const persist = () => {
+    if (settingsFile) saveDevices(settingsFile, devices);
+  };
+  const defaultDevice = () => devices.find((device) => device.isDefault) ?? devices[0];
+  const markDefault = (id: string) => {
+    for (const device of devices) {
+      device.isDefault = device.id === id;
+    }
+  };
+  // Validates everything before touching the device, so a bad URL leaves it unchanged.
+  const apply = (device: SavedDevice, next: SavedDeviceInput) => {
+    const baseUrl = next.baseUrl !== undefined ? normalizeDeviceBaseUrl(next.baseUrl) : device.baseUrl;
+    const devicePath = next.path !== undefined ? normalizeDevicePath(next.path) : device.path;
+    device.baseUrl = baseUrl;
+    device.path = devicePath;
+    if (next.name !== undefined) device.name = next.name.trim();
+    if (next.profileId !== undefined) device.profileId = next.profileId;
+    if (next.orientation !== undefined) device.orientation = next.orientation;
+  };
+
   return {
-    getSettings: () => ({
-      baseUrl,
-      path,
-    }),
+    getSettings: () => {
+      const device = defaultDevice();
+      return { baseUrl: device.baseUrl, path: device.path };
+    },
     updateSettings: (next) => {
-      if (next.baseUrl !== undefined) {
-        baseUrl = normalizeDeviceBaseUrl(next.baseUrl);
-      }
-      if (next.path !== undefined) {
-        path = normalizeDevicePath(next.path);
-      }
-      if (settingsFile) {
-        saveSettings(settingsFile, { baseUrl, path });
-      }
-      return {
-        baseUrl,
-        path,
+      const device = defaultDevice();
+      apply(device, next);
+      device.updatedAt = Date.now();
+      persist();
+      source = "file";
+      return { baseUrl: device.baseUrl, path: device.path };
+    },
+    list: () => devices.map(copy),
+    getDefault: () => copy(defaultDevice()),
+    find: (idOrName) => {
+      const needle = idOrName.trim().toLowerCase();
+      const match =
+        devices.find((device) => device.id === idOrName) ??
+        devices.find((device) => device.name.toLowerCase() === needle);
+      return match ? copy(match) : null;
+    },
+    create: (next) => {
+      const at = Date.now();
+      const device: SavedDevice = {
+        id: randomUUID(),
+        name: next.name.trim(),
+        baseUrl: fallbackBaseUrl,
+        path: fallbackPath,
+        profileId: null,
+        orientation: null,
+        isDefault: false,
+        createdAt: at,
+        updatedAt: at,
       };
+      apply(device, next);
+      devices.push(device);
+      if (next.isDefault) markDefault(device.id);
+      persist();
+      return copy(device);
+    },
+    update: (id, next) => {
+      const device = devices.find((item) => item.id === id);
+      if (!device) return null;
+      apply(device, next);
+      // Clearing the flag is ignored: some device always has to be the default.
+      if (next.isDefault) markDefault(device.id);
+      device.updatedAt = Date.now();
+      persist();
+      return copy(device);
+    },
+    remove: (id) => {
+      const device = devices.find((item) => item.id === id);
+      if (!device || device.isDefault) return false;
+      devices = devices.filter((item) => item.id !== id);
+      persist();
+      return true;
+    },
+    getSource: () => source,
+    importDevices: (incoming) => {
+      const at = Date.now();
+      let defaultId: string | null = null;
+      for (const next of incoming) {
+        let device = devices.find((item) => item.id === next.id);
+        if (!device) {
+          device = {
+            id: next.id,
+            name: next.name.trim(),
+            baseUrl: fallbackBaseUrl,
+            path: fallbackPath,
+            profileId: null,
+            orientation: null,
+            isDefault: false,
+            createdAt: at,
+            updatedAt: at,
+          };
+          devices.push(device);
+        }
+        apply(device, next);
+        device.updatedAt = at;
+        if (next.isDefault) defaultId = device.id;
+      }
+      if (defaultId) markDefault(defaultId);
+      persist();
+      source = "file";
+      return incoming.length;
     },
   };
 }
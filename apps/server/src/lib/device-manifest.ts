@@ -0,0 +1,111 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { normalizeDeviceBaseUrl, normalizeDevicePath } from "./xteink-client";
+
+export type DeviceManifestEntry = {
+  archiveId: string;
+  baseUrl: string;
+  // Folder the file was uploaded into.
+  devicePath: string;
+  fileName: string;
+  fileSize: number;
+  // Settings after profile rules; compared with what a fresh conversion would use to flag stale copies.
+  settingsHash: string;
+  jobId: string | null;
+  uploadedAt: string;
+};
+
+export type DeviceManifest = {
+  list: (filter?: { archiveIds?: string[]; baseUrl?: string }) => DeviceManifestEntry[];
+  // Replaces any entry for the same file on the same device.
+  record: (entry: Omit<DeviceManifestEntry, "uploadedAt">) => DeviceManifestEntry;
+  // Both take a file path or a folder, in which case every entry below it is affected.
+  remove: (baseUrl: string, filePath: string) => boolean;
+  relocate: (baseUrl: string, fromPath: string, toPath: string) => number;
+};
+
+type ManifestFile = {
+  version: 1;
+  entries: DeviceManifestEntry[];
+};
+
+function loadEntries(filePath: string): DeviceManifestEntry[] {
+  if (!existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<ManifestFile>;
+    return Array.isArray(parsed?.entries) ? parsed.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveEntries(filePath: string, entries: DeviceManifestEntry[]): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const body: ManifestFile = { version: 1, entries };
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), "utf8");
+  renameSync(temp, filePath);
+}
+
+export function manifestFilePath(entry: Pick<DeviceManifestEntry, "devicePath" | "fileName">): string {
+  return normalizeDevicePath(`${entry.devicePath}/${entry.fileName}`);
+}
+
+function isSameOrBelow(filePath: string, target: string): boolean {
+  return filePath === target || filePath.startsWith(target === "/" ? "/" : `${target}/`);
+}
+
+export function createDeviceManifest(input: { filePath: string }): DeviceManifest {
+  let entries = loadEntries(input.filePath);
+
+  return {
+    list: (filter) => {
+      const ids = filter?.archiveIds ? new Set(filter.archiveIds) : null;
+      const baseUrl = filter?.baseUrl ? normalizeDeviceBaseUrl(filter.baseUrl) : null;
+      return entries.filter(
+        (entry) => (!ids || ids.has(entry.archiveId)) && (!baseUrl || entry.baseUrl === baseUrl),
+      );
+    },
+    record: (entry) => {
+      const next: DeviceManifestEntry = {
+        ...entry,
+        baseUrl: normalizeDeviceBaseUrl(entry.baseUrl),
+        devicePath: normalizeDevicePath(entry.devicePath),
+        uploadedAt: new Date().toISOString(),
+      };
+      const filePath = manifestFilePath(next);
+      entries = entries.filter((item) => !(item.baseUrl === next.baseUrl && manifestFilePath(item) === filePath));
+      entries.push(next);
+      saveEntries(input.filePath, entries);
+      return next;
+    },
+    remove: (baseUrl, filePath) => {
+      const normalizedBaseUrl = normalizeDeviceBaseUrl(baseUrl);
+      const normalizedPath = normalizeDevicePath(filePath);
+      const before = entries.length;
+      entries = entries.filter(
+        (item) => !(item.baseUrl === normalizedBaseUrl && isSameOrBelow(manifestFilePath(item), normalizedPath)),
+      );
+      if (entries.length === before) return false;
+      saveEntries(input.filePath, entries);
+      return true;
+    },
+    relocate: (baseUrl, fromPath, toPath) => {
+      const normalizedBaseUrl = normalizeDeviceBaseUrl(baseUrl);
+      const from = normalizeDevicePath(fromPath);
+      const to = normalizeDevicePath(toPath);
+      let moved = 0;
+      for (const item of entries) {
+        const current = manifestFilePath(item);
+        if (item.baseUrl !== normalizedBaseUrl || !isSameOrBelow(current, from)) continue;
+        const next = normalizeDevicePath(`${to}${current.slice(from.length)}`);
+        const slash = next.lastIndexOf("/");
+        item.devicePath = normalizeDevicePath(next.slice(0, slash));
+        item.fileName = next.slice(slash + 1);
+        moved += 1;
+      }
+      if (moved > 0) saveEntries(input.filePath, entries);
+      return moved;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { joinDevicePath, normalizeDevicePath, type XteinkClient } from "./xteink-client";
+
+export type DeviceTreeNode = {
+  name: string;
+  path: string;
+  // Folders report the total of everything listed below them.
+  size: number;
+  isDirectory: boolean;
+  children: DeviceTreeNode[] | null;
+};
+
+export type DeviceTree = {
+  root: DeviceTreeNode;
+  fileCount: number;
+  folderCount: number;
+  // Depth or entry limits were hit, so some folders have `children: null`.
+  truncated: boolean;
+};
+
+const MAX_TREE_ENTRIES = 5000;
+
+function parentPath(devicePath: string): string {
+  const normalized = normalizeDevicePath(devicePath);
+  return normalizeDevicePath(normalized.slice(0, normalized.lastIndexOf("/")));
+}
+
+function leafName(devicePath: string): string {
+  return normalizeDevicePath(devicePath).split("/").pop() ?? "";
+}
+
+/** Lists a folder recursively, one request per folder, breadth limited by depth and total entries. */
+export async function listDeviceTree(client: XteinkClient, rawPath: string, maxDepth: number): Promise<DeviceTree> {
+  const rootPath = normalizeDevicePath(rawPath);
+  const tree: DeviceTree = {
+    root: { name: leafName(rootPath) || "/", path: rootPath, size: 0, isDirectory: true, children: null },
+    fileCount: 0,
+    folderCount: 0,
+    truncated: false,
+  };
+  let seen = 0;
+
+  const walk = async (node: DeviceTreeNode, depth: number): Promise<void> => {
+    if (depth > maxDepth || seen >= MAX_TREE_ENTRIES) {
+      tree.truncated = true;
+      return;
+    }
+    const entries = await client.listFiles(node.path);
+    node.children = [];
+    for (const entry of entries) {
+      if (seen >= MAX_TREE_ENTRIES) {
+        tree.truncated = true;
+        break;
+      }
+      seen += 1;
+      const child: DeviceTreeNode = {
+        name: entry.name,
+        path: joinDevicePath(node.path, entry.name),
+        size: entry.isDirectory ? 0 : entry.size,
+        isDirectory: entry.isDirectory,
+        children: null,
+      };
+      if (entry.isDirectory) {
+        tree.folderCount += 1;
+        await walk(child, depth + 1);
+      } else {
+        tree.fileCount += 1;
+      }
+      node.size += child.size;
+      node.children.push(child);
+    }
+    node.children.sort((a, b) =>
+      a.isDirectory === b.isDirectory
+        ? a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
+        : a.isDirectory
+          ? -1
+          : 1,
+    );
+  };
+
+  await walk(tree.root, 1);
+  return tree;
+}
+
+/** Looks a path up in its parent folder; null when it does not exist. */
+export async function statDevicePath(
+  client: XteinkClient,
+  rawPath: string,
+): Promise<{ path: string; isDirectory: boolean; size: number } | null> {
+  const devicePath = normalizeDevicePath(rawPath);
+  if (devicePath === "/") return { path: "/", isDirectory: true, size: 0 };
+  const name = leafName(devicePath);
+  const entry = (await client.listFiles(parentPath(devicePath))).find((item) => item.name === name);
+  return entry ? { path: devicePath, isDirectory: entry.isDirectory, size: entry.size } : null;
+}
+
+/** Deletes a file, or a folder with everything in it (the firmware only removes empty folders). */
+export async function deleteDevicePath(client: XteinkClient, rawPath: string, isDirectory: boolean): Promise<void> {
+  const devicePath = normalizeDevicePath(rawPath);
+  if (isDirectory) {
+    for (const entry of await client.listFiles(devicePath)) {
+      await deleteDevicePath(client, joinDevicePath(devicePath, entry.name), entry.isDirectory);
+    }
+  }
+  await client.deletePath(devicePath, isDirectory ? "folder" : "file");
+}
+
+/**
+ * Moves a file or folder. Uses the firmware's move when it has one, otherwise copies through the bridge
+ * (download, upload) and deletes the source only once every copy succeeded.
+ */
+export async function moveDevicePath(
+  client: XteinkClient,
+  rawFrom: string,
+  rawTo: string,
+  isDirectory: boolean,
+): Promise<"move" | "copy"> {
+  const from = normalizeDevicePath(rawFrom);
+  const to = normalizeDevicePath(rawTo);
+  if (await client.movePath(from, to)) return "move";
+
+  const copy = async (source: string, target: string, directory: boolean): Promise<void> => {
+    if (directory) {
+      await client.createFolder(parentPath(target), leafName(target));
+      for (const entry of await client.listFiles(source)) {
+        await copy(joinDevicePath(source, entry.name), joinDevicePath(target, entry.name), entry.isDirectory);
+      }
+      return;
+    }
+    const bytes = await client.downloadFile(source);
+    if (!bytes) throw new Error(`Device file disappeared during move: ${source}`);
+    await client.uploadBytes({ bytes, fileName: leafName(target), targetPath: parentPath(target) });
+  };
+
+  await copy(from, to, isDirectory);
+  await deleteDevicePath(client, from, isDirectory);
+  return "copy";
+}
@@ -0,0 +1,431 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { AppConfig } from "./config";
+import { convertArchiveToXtc } from "./conversion";
+import type { ConversionCache } from "./conversion-cache";
+import type { DeviceConnectionManager, SavedDevice } from "./device-connection";
+import { manifestFilePath, type DeviceManifest, type DeviceManifestEntry } from "./device-manifest";
+import { uploadArtifactToDevice } from "./device-upload";
+import type { LanraragiConnectionManager } from "./lanraragi-connection";
+import { logError, logInfo } from "./logger";
+import type { ProfileRuleManager, RuleContext } from "./profile-rules";
+import type { ProfileManager } from "./profiles";
+import type { ReadingSyncManager } from "./reading-sync";
+import { hashConversionSettings } from "./settings";
+import { XteinkClient } from "./xteink-client";
+import { UpstreamNotFoundError } from "./upstream";
+import type { ArchiveRecord, ConversionSettings } from "../types";
+
+export type WishlistItem = {
+  id: string;
+  // archive: an archive id; tag: `namespace:value`, matched exactly; category: a LANraragi category id.
+  kind: "archive" | "tag" | "category";
+  value: string;
+  label: string;
+  enabled: boolean;
+  createdAt: number;
+};
+
+export type WishlistItemInput = {
+  kind: WishlistItem["kind"];
+  value: string;
+  label?: string;
+  enabled?: boolean;
+};
+
+export type DeviceSyncAction = {
+  archiveId: string;
+  title: string;
+  action: "upload" | "reupload" | "delete" | "keep" | "skip";
+  reason: string;
+  filePath: string | null;
+  status: "planned" | "done" | "failed";
+  error: string | null;
+};
+
+export type DeviceSyncReport = {
+  trigger: "manual" | "schedule" | "preview";
+  dryRun: boolean;
+  baseUrl: string;
+  path: string;
+  startedAt: number;
+  finishedAt: number;
+  wanted: number;
+  // Wanted archives beyond MAX_WANTED_ARCHIVES are left out and reported here.
+  truncated: boolean;
+  actions: DeviceSyncAction[];
+  error: string | null;
+};
+
+export type DeviceSyncStatus = {
+  intervalMinutes: number;
+  deleteUnwanted: boolean;
+  running: boolean;
+  lastReport: DeviceSyncReport | null;
+};
+
+export type DeviceSyncManager = {
+  listItems: () => WishlistItem[];
+  addItem: (input: WishlistItemInput) => WishlistItem;
+  updateItem: (id: string, input: Partial<Pick<WishlistItem, "label" | "enabled">>) => WishlistItem | null;
+  removeItem: (id: string) => boolean;
+  status: () => DeviceSyncStatus;
+  // Plans without touching the device; the result is not stored as the last report.
+  preview: () => Promise<DeviceSyncReport>;
+  // Concurrent calls share the run already in flight.
+  run: (trigger?: "manual" | "schedule") => Promise<DeviceSyncReport>;
+  start: () => void;
+  stop: () => void;
+};
+
+type SyncFile = {
+  version: 1;
+  items: WishlistItem[];
+  lastReport: DeviceSyncReport | null;
+};
+
+const MAX_WANTED_ARCHIVES = 500;
+
+function loadSyncFile(filePath: string): SyncFile {
+  const empty: SyncFile = { version: 1, items: [], lastReport: null };
+  if (!existsSync(filePath)) return empty;
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<SyncFile>;
+    return {
+      version: 1,
+      items: Array.isArray(parsed?.items) ? parsed.items : [],
+      lastReport: parsed?.lastReport ?? null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function saveSyncFile(filePath: string, body: SyncFile): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), "utf8");
+  renameSync(temp, filePath);
+}
+
+type SyncPreferences = { settings: ConversionSettings; ruleContext: RuleContext };
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function createDeviceSyncManager(input: {
+  config: AppConfig;
+  filePath: string;
+  lanraragi: LanraragiConnectionManager;
+  device: DeviceConnectionManager;
+  cache: ConversionCache;
+  profiles: ProfileManager;
+  rules: ProfileRuleManager;
+  manifest: DeviceManifest;
+  readingSync: ReadingSyncManager;
+  intervalMinutes: number;
+  deleteUnwanted: boolean;
+}): DeviceSyncManager {
+  const state = loadSyncFile(input.filePath);
+  let inFlight: Promise<DeviceSyncReport> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const persist = () => saveSyncFile(input.filePath, state);
+
+  // The same precedence as a conversion aimed at the device: its preferred profile and orientation, then rules.
+  const devicePreferences = (target: SavedDevice): SyncPreferences => {
+    const preferred = target.profileId ? input.profiles.find(target.profileId) : null;
+    const profile = preferred ?? input.profiles.getDefault();
+    const overrides = target.orientation ? { orientation: target.orientation } : {};
+    return {
+      settings: { ...profile.settings, ...overrides },
+      ruleContext: { profilePinned: Boolean(preferred), overrides },
+    };
+  };
+
+  // Resolves every enabled item to archive records, deduplicated and capped. Archive items LANraragi no
+  // longer has are returned as `missing` instead of failing the whole list.
+  const collectWanted = async (): Promise<{
+    archives: Map<string, ArchiveRecord>;
+    truncated: boolean;
+    missing: WishlistItem[];
+  }> => {
+    const lrr = input.lanraragi.getClient();
+    const archives = new Map<string, ArchiveRecord>();
+    const missing: WishlistItem[] = [];
+    let truncated = false;
+
+    const addAll = async (query: { filter?: string; category?: string }) => {
+      let start = 0;
+      while (!truncated) {
+        const result = await lrr.searchArchives({ ...query, start, sortby: "title", order: "asc" });
+        if (!result.data.length) return;
+        for (const archive of result.data) {
+          if (archives.size >= MAX_WANTED_ARCHIVES && !archives.has(archive.arcid)) {
+            truncated = true;
+            return;
+          }
+          archives.set(archive.arcid, archive);
+        }
+        start += result.data.length;
+        if (start >= result.recordsFiltered) return;
+      }
+    };
+
+    for (const item of state.items) {
+      if (!item.enabled) continue;
+      if (item.kind === "archive") {
+        if (archives.has(item.value)) continue;
+        if (archives.size >= MAX_WANTED_ARCHIVES) {
+          truncated = true;
+          continue;
+        }
+        try {
+          archives.set(item.value, await lrr.getArchiveMetadata(item.value));
+        } catch (error) {
+          if (!(error instanceof UpstreamNotFoundError)) throw error;
+          missing.push(item);
+        }
+      } else if (item.kind === "tag") {
+        await addAll({ filter: `${item.value}$` });
+      } else {
+        await addAll({ category: item.value });
+      }
+    }
+    return { archives, truncated, missing };
+  };
+
+  const plan = async (report: DeviceSyncReport, client: XteinkClient, preferences: SyncPreferences): Promise<void> => {
+    const { archives, truncated, missing } = await collectWanted();
+    report.wanted = archives.size;
+    report.truncated = truncated;
+
+    const present = new Set(
+      (await client.listFiles(report.path))
+        .filter((entry) => !entry.isDirectory)
+        .map((entry) => manifestFilePath({ devicePath: report.path, fileName: entry.name })),
+    );
+    // Only files the bridge uploaded into the sync folder are considered; anything else on the device is left alone.
+    const tracked = input.manifest
+      .list({ baseUrl: report.baseUrl })
+      .filter((entry) => entry.devicePath === report.path);
+    const byArchive = new Map<string, DeviceManifestEntry>();
+    for (const entry of tracked) {
+      if (present.has(manifestFilePath(entry))) byArchive.set(entry.archiveId, entry);
+    }
+
+    for (const archive of archives.values()) {
+      const entry = byArchive.get(archive.arcid);
+      const title = archive.title || archive.arcid;
+      const action = (kind: DeviceSyncAction["action"], reason: string): DeviceSyncAction => ({
+        archiveId: archive.arcid,
+        title,
+        action: kind,
+        reason,
+        filePath: entry ? manifestFilePath(entry) : null,
+        status: "planned",
+        error: null,
+      });
+
+      if (!entry) {
+        report.actions.push(action("upload", "not on device"));
+        continue;
+      }
+      const wantedHash = hashConversionSettings(
+        input.rules.evaluate(archive, preferences.settings, preferences.ruleContext).settings,
+      );
+      report.actions.push(
+        wantedHash === entry.settingsHash ? action("keep", "up to date") : action("reupload", "settings changed"),
+      );
+    }
+
+    for (const item of missing) {
+      report.actions.push({
+        archiveId: item.value,
+        title: item.label || item.value,
+        action: "skip",
+        reason: "archive not found in LANraragi",
+        filePath: null,
+        status: "planned",
+        error: null,
+      });
+    }
+
+    // A truncated or partial wanted list leaves out archives the user may still want, so nothing is deleted against it.
+    const partial = truncated || missing.length > 0;
+    const canDelete = input.deleteUnwanted && !partial;
+    for (const entry of tracked) {
+      if (archives.has(entry.archiveId) || !present.has(manifestFilePath(entry))) continue;
+      report.actions.push({
+        archiveId: entry.archiveId,
+        title: entry.fileName,
+        action: canDelete ? "delete" : "keep",
+        reason: canDelete
+          ? "no longer wanted"
+          : partial
+            ? `not in the ${truncated ? "truncated" : "incomplete"} wanted list (deletion skipped)`
+            : "no longer wanted (deletion disabled)",
+        filePath: manifestFilePath(entry),
+        status: "planned",
+        error: null,
+      });
+    }
+  };
+
+  const apply = async (
+    report: DeviceSyncReport,
+    client: XteinkClient,
+    preferences: SyncPreferences,
+    action: DeviceSyncAction,
+  ) => {
+    if (action.action === "delete" && action.filePath) {
+      await client.deletePath(action.filePath, "file");
+      input.manifest.remove(report.baseUrl, action.filePath);
+      if (input.config.DEVICE_MANIFEST_SIDECAR) {
+        await client.deletePath(`${action.filePath}.json`, "file").catch(() => undefined);
+      }
+      return;
+    }
+
+    const artifact = await convertArchiveToXtc({
+      config: input.config,
+      lrr: input.lanraragi.getClient(),
+      archiveId: action.archiveId,
+      settings: preferences.settings,
+      cache: input.cache,
+      rules: input.rules,
+      ruleContext: preferences.ruleContext,
+    });
+    const upload = await uploadArtifactToDevice({
+      artifact,
+      baseUrl: report.baseUrl,
+      path: report.path,
+      label: `sync id=${action.archiveId}`,
+      manifest: input.manifest,
+      sidecar: input.config.DEVICE_MANIFEST_SIDECAR,
+      readingSync: input.readingSync,
+    });
+    // A new title or naming scheme gives the file a new name; the old copy would otherwise linger.
+    const uploadedPath = manifestFilePath({ devicePath: upload.path, fileName: upload.fileName });
+    if (action.filePath && action.filePath !== uploadedPath) {
+      await client.deletePath(action.filePath, "file");
+      input.manifest.remove(report.baseUrl, action.filePath);
+    }
+    action.filePath = uploadedPath;
+  };
+
+  const execute = async (trigger: DeviceSyncReport["trigger"], dryRun: boolean): Promise<DeviceSyncReport> => {
+    const target = input.device.getDefault();
+    const report: DeviceSyncReport = {
+      trigger,
+      dryRun,
+      baseUrl: target.baseUrl,
+      path: target.path,
+      startedAt: Date.now(),
+      finishedAt: 0,
+      wanted: 0,
+      truncated: false,
+      actions: [],
+      error: null,
+    };
+
+    try {
+      const client = new XteinkClient(target.baseUrl);
+      const preferences = devicePreferences(target);
+      await plan(report, client, preferences);
+      if (!dryRun) {
+        // One item at a time: the device accepts a single upload well, several at once poorly.
+        for (const action of report.actions) {
+          if (action.action === "keep" || action.action === "skip") continue;
+          try {
+            await apply(report, client, preferences, action);
+            action.status = "done";
+          } catch (error) {
+            action.status = "failed";
+            action.error = errorMessage(error);
+            logError(`device sync item failed id=${action.archiveId} action=${action.action} error=${action.error}`);
+          }
+        }
+      }
+    } catch (error) {
+      report.error = errorMessage(error);
+      logError(`device sync failed trigger=${trigger} error=${report.error}`);
+    }
+
+    report.finishedAt = Date.now();
+    const count = (kind: DeviceSyncAction["action"]) => report.actions.filter((item) => item.action === kind).length;
+    logInfo(
+      `device sync ${dryRun ? "preview" : "done"} trigger=${trigger} wanted=${report.wanted} upload=${count("upload")} reupload=${count("reupload")} delete=${count("delete")} skipped=${count("skip")} failed=${report.actions.filter((item) => item.status === "failed").length}`,
+    );
+    if (!dryRun) {
+      state.lastReport = report;
+      persist();
+    }
+    return report;
+  };
+
+  const run = (trigger: "manual" | "schedule" = "manual") => {
+    if (!inFlight) {
+      inFlight = execute(trigger, false).finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
+
+  return {
+    listItems: () => state.items.map((item) => ({ ...item })),
+    addItem: (next) => {
+      const value = next.value.trim();
+      const existing = state.items.find((item) => item.kind === next.kind && item.value === value);
+      if (existing) return { ...existing };
+      const item: WishlistItem = {
+        id: randomUUID(),
+        kind: next.kind,
+        value,
+        label: next.label?.trim() || value,
+        enabled: next.enabled ?? true,
+        createdAt: Date.now(),
+      };
+      state.items.push(item);
+      persist();
+      return { ...item };
+    },
+    updateItem: (id, next) => {
+      const item = state.items.find((entry) => entry.id === id);
+      if (!item) return null;
+      if (next.label !== undefined) item.label = next.label.trim() || item.value;
+      if (next.enabled !== undefined) item.enabled = next.enabled;
+      persist();
+      return { ...item };
+    },
+    removeItem: (id) => {
+      const before = state.items.length;
+      state.items = state.items.filter((item) => item.id !== id);
+      if (state.items.length === before) return false;
+      persist();
+      return true;
+    },
+    status: () => ({
+      intervalMinutes: input.intervalMinutes,
+      deleteUnwanted: input.deleteUnwanted,
+      running: inFlight !== null,
+      lastReport: state.lastReport,
+    }),
+    preview: () => execute("preview", true),
+    run,
+    start: () => {
+      if (timer || input.intervalMinutes <= 0) return;
+      timer = setInterval(() => {
+        void run("schedule");
+      }, input.intervalMinutes * 60 * 1000);
+      timer.unref?.();
+      logInfo(`device sync scheduled every ${input.intervalMinutes} min delete_unwanted=${input.deleteUnwanted}`);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
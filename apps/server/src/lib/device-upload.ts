@@ -0,0 +1,92 @@
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ConversionArtifact } from "./conversion";
+import type { DeviceManifest } from "./device-manifest";
+import { logError, logInfo } from "./logger";
+import type { ReadingSyncManager } from "./reading-sync";
+import { XteinkClient } from "./xteink-client";
+
+export type DeviceUploadResult = {
+  baseUrl: string;
+  path: string;
+  fileName: string;
+  fileSize: number;
+};
+
+export async function uploadArtifactToDevice(params: {
+  artifact: ConversionArtifact;
+  baseUrl: string;
+  path: string;
+  label: string;
+  jobId?: string;
+  manifest?: DeviceManifest;
+  // Also upload `<file>.json` next to the book so the device copy can be traced without the bridge.
+  sidecar?: boolean;
+  readingSync?: ReadingSyncManager;
+}): Promise<DeviceUploadResult> {
+  const { artifact, baseUrl, path: devicePath } = params;
+  const deviceClient = new XteinkClient(baseUrl);
+  const uploadStartAt = Date.now();
+  const artifactName = artifact.downloadName || `${params.label}.xtc`;
+  logInfo(
+    `upload start ${params.label} file=${artifactName} size=${artifact.fileSize} target=${baseUrl}${devicePath}`,
+  );
+
+  try {
+    await deviceClient.uploadFile({
+      filePath: artifact.filePath,
+      fileName: artifactName,
+      targetPath: devicePath,
+    });
+    const elapsedMs = Date.now() - uploadStartAt;
+    logInfo(
+      `upload done ${params.label} file=${artifactName} size=${artifact.fileSize} target=${baseUrl}${devicePath} elapsed_ms=${elapsedMs}`,
+    );
+    const entry = params.manifest?.record({
+      archiveId: artifact.archiveId,
+      baseUrl,
+      devicePath,
+      fileName: artifactName,
+      fileSize: artifact.fileSize,
+      settingsHash: artifact.settingsHash,
+      jobId: params.jobId ?? null,
+    });
+    if (entry && params.sidecar) {
+      try {
+        const sidecarName = `${artifactName}.json`;
+        const sidecarPath = path.join(artifact.workspaceDir, sidecarName);
+        await writeFile(sidecarPath, JSON.stringify(entry, null, 2), "utf8");
+        await deviceClient.uploadFile({ filePath: sidecarPath, fileName: sidecarName, targetPath: devicePath });
+      } catch (error) {
+        // The book is already on the device; a missing sidecar only loses the on-device trace.
+        logError(
+          `upload sidecar failed ${params.label} file=${artifactName} error=${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    params.readingSync?.recordDelivery({
+      archiveId: artifact.archiveId,
+      fileName: artifactName,
+      devicePath,
+      via: "upload",
+      baseUrl,
+      pageCount: artifact.pageCount,
+    });
+    return {
+      baseUrl,
+      path: devicePath,
+      fileName: artifactName,
+      fileSize: artifact.fileSize,
+    };
+  } catch (error) {
+    const elapsedMs = Date.now() - uploadStartAt;
+    logError(
+      `upload failed ${params.label} file=${artifactName} size=${artifact.fileSize} target=${baseUrl}${devicePath} elapsed_ms=${elapsedMs} error=${
+        error instanceof Error ? error.message : "Unknown upload error"
+      }`,
+    );
+    throw error;
+  } finally {
+    await artifact.dispose();
+  }
+}
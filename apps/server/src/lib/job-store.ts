@@ -0,0 +1,64 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ConversionJobSnapshot } from "./conversion-jobs";
+
+export type StoredJobArtifact = {
+  workspaceDir: string;
+  filePath: string;
+  downloadName: string;
+  fileSize: number;
+  // Missing in journals written by older versions.
+  pageCount?: number;
+  settingsHash?: string;
+};
+
+export type StoredJob = {
+  snapshot: ConversionJobSnapshot;
+  artifact: StoredJobArtifact | null;
+};
+
+export type JobStore = {
+  load: () => StoredJob[];
+  save: (jobs: StoredJob[]) => Promise<void>;
+};
+
+type JobJournal = {
+  version: 1;
+  savedAt: string;
+  jobs: StoredJob[];
+};
+
+function isStoredJob(value: unknown): value is StoredJob {
+  if (!value || typeof value !== "object") return false;
+  const snapshot = (value as StoredJob).snapshot;
+  return Boolean(snapshot && typeof snapshot.jobId === "string" && typeof snapshot.status === "string");
+}
+
+export function createJobStore(filePath: string): JobStore {
+  return {
+    load: () => {
+      if (!existsSync(filePath)) return [];
+      try {
+        const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<JobJournal>;
+        return Array.isArray(parsed?.jobs) ? parsed.jobs.filter(isStoredJob) : [];
+      } catch {
+        return [];
+      }
+    },
+    // Serializes before the first await, so later changes to the jobs never leak into this write.
+    save: async (jobs) => {
+      const journal: JobJournal = {
+        version: 1,
+        savedAt: new Date().toISOString(),
+        jobs,
+      };
+      const body = JSON.stringify(journal);
+      // Write-then-rename so a crash mid-write never leaves a truncated journal behind.
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const temp = `${filePath}.tmp`;
+      await writeFile(temp, body, "utf8");
+      await rename(temp, filePath);
+    },
+  };
+}
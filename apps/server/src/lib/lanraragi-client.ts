@@ -1,18 +1,60 @@
 import { URL } from "node:url";
-import type { ArchivePagesResponse, ArchiveRecord, SearchResponse } from "../types";
+import { createCircuitBreaker, upstreamFetch, type CircuitBreaker, type UpstreamCallPolicy } from "./upstream";
+import type { ArchivePagesResponse, ArchiveRecord, CategorySummary, LanraragiCategory, SearchResponse } from "../types";
 
 type QueryValue = string | number | boolean | undefined | null;
 
+function summarizeCategory(category: LanraragiCategory): CategorySummary {
+  const search = (category.search ?? "").trim();
+  return {
+    id: category.id,
+    name: category.name,
+    kind: search ? "dynamic" : "static",
+    pinned: category.pinned === "1",
+    archiveCount: search ? null : (category.archives ?? []).length,
+    search,
+  };
+}
+
 function makeAuthHeader(apiKey: string): string | undefined {
   if (!apiKey) return undefined;
   return `Bearer ${Buffer.from(apiKey).toString("base64")}`;
 }
 
+export type LanraragiHttpOptions = {
+  timeoutMs: number;
+  retries: number;
+};
+
+const DEFAULT_HTTP_OPTIONS: LanraragiHttpOptions = { timeoutMs: 15_000, retries: 2 };
+const RETRY_BASE_DELAY_MS = 300;
+// Failed attempts in a row before calls fail fast, and how long they do.
+const BREAKER_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+// Health checks should answer quickly and report the outage rather than wait it out.
+const PING_TIMEOUT_MS = 5000;
+// LANraragi may extract a whole archive before it answers a download.
+const DOWNLOAD_TIMEOUT_MS = 120_000;
+
+// The public surface, so a multi-source library can stand in for a single client.
+export type LanraragiApi = { [K in keyof LanraragiClient]: LanraragiClient[K] };
+
 export class LanraragiClient {
+  private readonly breaker: CircuitBreaker;
+  private readonly http: LanraragiHttpOptions;
+
   constructor(
     private readonly baseUrl: string,
     private readonly apiKey: string,
-  ) {}
+    http?: Partial<LanraragiHttpOptions>,
+  ) {
+    this.http = { ...DEFAULT_HTTP_OPTIONS, ...http };
+    this.breaker = createCircuitBreaker({
+      name: `LANraragi ${baseUrl}`,
+      threshold: BREAKER_THRESHOLD,
+      cooldownMs: BREAKER_COOLDOWN_MS,
+    });
+  }
 
   private buildUrl(pathname: string, query?: Record<string, QueryValue>): string {
     const url = new URL(pathname, this.baseUrl);
@@ -28,23 +70,55 @@ export class LanraragiClient {
     return url.toString();
   }
 
-  private async fetchJson<T>(pathname: string, query?: Record<string, QueryValue>): Promise<T> {
-    const response = await fetch(this.buildUrl(pathname, query), {
-      headers: {
-        ...(makeAuthHeader(this.apiKey) ? { Authorization: makeAuthHeader(this.apiKey)! } : {}),
+  // Every request goes through here: auth header, timeout, retries and the circuit breaker.
+  private request(
+    url: string | URL,
+    label: string,
+    options?: { method?: "GET" | "PUT"; signal?: AbortSignal; policy?: Partial<UpstreamCallPolicy> },
+  ): Promise<Response> {
+    const authorization = makeAuthHeader(this.apiKey);
+    return upstreamFetch(
+      url,
+      {
+        method: options?.method ?? "GET",
+        signal: options?.signal,
+        headers: authorization ? { Authorization: authorization } : {},
       },
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`LANraragi request failed (${response.status}): ${text.slice(0, 200)}`);
-    }
+      {
+        label: `LANraragi ${label}`,
+        timeoutMs: this.http.timeoutMs,
+        retries: this.http.retries,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        ...options?.policy,
+        breaker: this.breaker,
+      },
+    );
+  }
 
+  private async fetchJson<T>(
+    pathname: string,
+    query?: Record<string, QueryValue>,
+    signal?: AbortSignal,
+    method: "GET" | "PUT" = "GET",
+    policy?: Partial<UpstreamCallPolicy>,
+  ): Promise<T> {
+    const response = await this.request(this.buildUrl(pathname, query), `${method} ${pathname}`, {
+      method,
+      signal,
+      policy,
+    });
     return (await response.json()) as T;
   }
 
+  circuitState(): ReturnType<CircuitBreaker["state"]> {
+    return this.breaker.state();
+  }
+
   async ping(): Promise<{ name?: string; version?: string }> {
-    return this.fetchJson<{ name?: string; version?: string }>("/api/info");
+    return this.fetchJson<{ name?: string; version?: string }>("/api/info", undefined, undefined, "GET", {
+      timeoutMs: PING_TIMEOUT_MS,
+      retries: 0,
+    });
   }
 
   async searchArchives(params: {
@@ -63,14 +137,28 @@ export class LanraragiClient {
     });
   }
 
-  async getArchiveMetadata(id: string): Promise<ArchiveRecord> {
-    return this.fetchJson<ArchiveRecord>(`/api/archives/${encodeURIComponent(id)}/metadata`);
+  async getArchiveMetadata(id: string, options?: { signal?: AbortSignal }): Promise<ArchiveRecord> {
+    return this.fetchJson<ArchiveRecord>(`/api/archives/${encodeURIComponent(id)}/metadata`, undefined, options?.signal);
   }
 
-  async getArchivePages(id: string, options?: { force?: boolean }): Promise<string[]> {
-    const data = await this.fetchJson<ArchivePagesResponse>(`/api/archives/${encodeURIComponent(id)}/files`, {
-      force: options?.force ? "true" : "false",
-    });
+  /** Sets reading progress (1-based page); LANraragi also bumps `lastreadtime`. */
+  async updateProgress(id: string, page: number): Promise<void> {
+    await this.fetchJson<unknown>(
+      `/api/archives/${encodeURIComponent(id)}/progress/${Math.max(1, Math.round(page))}`,
+      undefined,
+      undefined,
+      "PUT",
+    );
+  }
+
+  async getArchivePages(id: string, options?: { force?: boolean; signal?: AbortSignal }): Promise<string[]> {
+    const data = await this.fetchJson<ArchivePagesResponse>(
+      `/api/archives/${encodeURIComponent(id)}/files`,
+      {
+        force: options?.force ? "true" : "false",
+      },
+      options?.signal,
+    );
     return data.pages ?? [];
   }
 
@@ -80,56 +168,42 @@ export class LanraragiClient {
     });
   }
 
-  async getArchiveThumbnail(id: string): Promise<Response> {
-    const response = await fetch(this.buildUrl(`/api/archives/${encodeURIComponent(id)}/thumbnail`), {
-      headers: {
-        ...(makeAuthHeader(this.apiKey) ? { Authorization: makeAuthHeader(this.apiKey)! } : {}),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Thumbnail request failed (${response.status})`);
-    }
+  async getCategories(): Promise<LanraragiCategory[]> {
+    return this.fetchJson<LanraragiCategory[]>("/api/categories");
+  }
 
-    return response;
+  /** Static and dynamic categories, pinned first, then by name. */
+  async listCategories(): Promise<CategorySummary[]> {
+    const categories = await this.getCategories();
+    return categories
+      .map(summarizeCategory)
+      .sort(
+        (a, b) =>
+          Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+      );
   }
 
-  async getArchivePage(id: string, pagePath: string): Promise<Response> {
-    const response = await fetch(
-      this.buildUrl(`/api/archives/${encodeURIComponent(id)}/page`, {
-        path: pagePath,
-      }),
-      {
-        headers: {
-          ...(makeAuthHeader(this.apiKey) ? { Authorization: makeAuthHeader(this.apiKey)! } : {}),
-        },
-      },
-    );
+  async getCategory(id: string): Promise<CategorySummary> {
+    const category = await this.fetchJson<LanraragiCategory>(`/api/categories/${encodeURIComponent(id)}`);
+    return summarizeCategory(category);
+  }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Page request failed (${response.status}): ${text.slice(0, 120)}`);
-    }
+  async getArchiveThumbnail(id: string): Promise<Response> {
+    return this.request(this.buildUrl(`/api/archives/${encodeURIComponent(id)}/thumbnail`), "thumbnail");
+  }
 
-    return response;
+  async getArchivePage(id: string, pagePath: string): Promise<Response> {
+    return this.request(this.buildUrl(`/api/archives/${encodeURIComponent(id)}/page`, { path: pagePath }), "page");
   }
 
-  async downloadArchive(id: string): Promise<Response> {
-    const response = await fetch(this.buildUrl(`/api/archives/${encodeURIComponent(id)}/download`), {
-      headers: {
-        ...(makeAuthHeader(this.apiKey) ? { Authorization: makeAuthHeader(this.apiKey)! } : {}),
-      },
+  async downloadArchive(id: string, options?: { signal?: AbortSignal }): Promise<Response> {
+    return this.request(this.buildUrl(`/api/archives/${encodeURIComponent(id)}/download`), "archive download", {
+      signal: options?.signal,
+      policy: { timeoutMs: Math.max(this.http.timeoutMs, DOWNLOAD_TIMEOUT_MS) },
     });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Archive download failed (${response.status}): ${text.slice(0, 200)}`);
-    }
-
-    return response;
   }
 
-  async downloadByPageUrl(pagePathOrUrl: string): Promise<Response> {
+  async downloadByPageUrl(pagePathOrUrl: string, options?: { signal?: AbortSignal }): Promise<Response> {
     const url = pagePathOrUrl.startsWith("http")
       ? new URL(pagePathOrUrl)
       : new URL(pagePathOrUrl, this.baseUrl);
@@ -138,17 +212,6 @@ export class LanraragiClient {
       url.searchParams.set("key", this.apiKey);
     }
 
-    const response = await fetch(url, {
-      headers: {
-        ...(makeAuthHeader(this.apiKey) ? { Authorization: makeAuthHeader(this.apiKey)! } : {}),
-      },
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Page fetch failed (${response.status}): ${text.slice(0, 120)}`);
-    }
-
-    return response;
+    return this.request(url, "page fetch", { signal: options?.signal });
   }
 }
@@ -1,8 +1,19 @@
-import { LanraragiClient } from "./lanraragi-client";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { LanraragiClient, type LanraragiHttpOptions } from "./lanraragi-client";
+import { LanraragiLibrary, PRIMARY_SOURCE_ID, type LanraragiSource } from "./lanraragi-library";
+import { logError } from "./logger";
+import type { SecretBox } from "./secrets";
+
+// Where a value came from. With `file` precedence, values saved from the UI win over env vars; with `env`
+// precedence, env vars that are set win at every start and UI changes only last until the next restart.
+export type SettingsSource = "env" | "file";
+export type SettingsPrecedence = "file" | "env";
 
 export type LanraragiSettingsPublic = {
   baseUrl: string;
   hasApiKey: boolean;
+  sources: { baseUrl: SettingsSource; apiKey: SettingsSource };
 };
 
 export type LanraragiSettingsUpdate = {
@@ -10,14 +21,97 @@ export type LanraragiSettingsUpdate = {
   apiKey?: string;
 };
 
+export type LanraragiSourcePublic = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  hasApiKey: boolean;
+  isPrimary: boolean;
+};
+
+export type LanraragiSourceInput = {
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string;
+};
+
+export type LanraragiSourceHealth = {
+  id: string;
+  name: string;
+  ok: boolean;
+  latencyMs: number;
+  version: string | null;
+  error: string | null;
+  // "open" while requests to this source fail fast after repeated failures.
+  circuit: "closed" | "open" | "half-open";
+};
+
+// Includes API keys; only for settings export and import.
+export type LanraragiConnection = {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  sources: Array<{ id: string; name: string; baseUrl: string; apiKey: string }>;
+};
+
 export type LanraragiConnectionManager = {
-  getClient: () => LanraragiClient;
+  // Routes namespaced archive ids across every source; see lanraragi-library.ts.
+  getClient: () => LanraragiLibrary;
+  // Both operate on the primary source.
   getSettings: () => LanraragiSettingsPublic;
   updateSettings: (next: LanraragiSettingsUpdate) => LanraragiSettingsPublic;
+  listSources: () => LanraragiSourcePublic[];
+  // Accepts an id or a case-insensitive name.
+  findSource: (idOrName: string) => LanraragiSourcePublic | null;
+  addSource: (next: LanraragiSourceInput & { name: string; baseUrl: string }) => LanraragiSourcePublic;
+  updateSource: (id: string, next: LanraragiSourceInput) => LanraragiSourcePublic | null;
+  // The primary source cannot be removed.
+  removeSource: (id: string) => boolean;
+  checkSources: () => Promise<LanraragiSourceHealth[]>;
+  getConnection: () => LanraragiConnection;
+  // Adds or replaces extra sources by id; nothing is removed.
+  importSources: (sources: Array<LanraragiSourceInput & { id: string; name: string; baseUrl: string }>) => number;
   getVersion: () => number;
 };
 
-function normalizeLanraragiBaseUrl(input: string): string {
+type PersistedSource = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+};
+
+type PersistedLanraragiSettings = {
+  version: 1;
+  name?: string;
+  baseUrl?: string;
+  // Sealed with the settings key, never stored in plain text.
+  apiKey?: string;
+  sources?: PersistedSource[];
+};
+
+type SourceState = { id: string; name: string; baseUrl: string; apiKey: string; client: LanraragiClient };
+
+const PRIMARY_SOURCE_NAME = "Main library";
+
+function loadPersistedSettings(filePath: string): Partial<PersistedLanraragiSettings> | null {
+  if (!existsSync(filePath)) return null;
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<PersistedLanraragiSettings>;
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSettings(filePath: string, settings: PersistedLanraragiSettings): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(settings, null, 2), { encoding: "utf8", mode: 0o600 });
+  renameSync(temp, filePath);
+}
+
+export function normalizeLanraragiBaseUrl(input: string): string {
   const trimmed = input.trim();
   if (!trimmed) {
     throw new Error("LANraragi base URL is required.");
@@ -27,32 +121,251 @@ function normalizeLanraragiBaseUrl(input: string): string {
   return `${parsed.protocol}//${parsed.host}`;
 }
 
+// Source ids end up in archive ids (`archive:abc123`), so they are short slugs fixed at creation. `all` names the
+// merged view, and a URL scheme would make a prefixed page reference look like a plain URL.
+const RESERVED_SOURCE_IDS = new Set(["all", "http", "https"]);
+
+function sourceIdFromName(name: string, taken: Set<string>): string {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 24) || "source";
+  let id = base;
+  for (let suffix = 2; taken.has(id) || RESERVED_SOURCE_IDS.has(id); suffix += 1) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+export function isValidSourceId(id: string): boolean {
+  return /^[a-z0-9][a-z0-9-]{0,31}$/.test(id) && !RESERVED_SOURCE_IDS.has(id);
+}
+
 export function createLanraragiConnectionManager(input: {
   baseUrl: string;
   apiKey: string;
+  http?: Partial<LanraragiHttpOptions>;
+  filePath?: string;
+  precedence?: SettingsPrecedence;
+  secrets?: SecretBox;
 }): LanraragiConnectionManager {
   let baseUrl = normalizeLanraragiBaseUrl(input.baseUrl);
   let apiKey = input.apiKey || "";
-  let client = new LanraragiClient(baseUrl, apiKey);
+  const origins: LanraragiSettingsPublic["sources"] = { baseUrl: "env", apiKey: "env" };
+  const settingsFile = input.filePath || "";
+
+  const persisted = settingsFile ? loadPersistedSettings(settingsFile) : null;
+  const preferFile = (input.precedence ?? "file") === "file";
+  if (persisted?.baseUrl) {
+    try {
+      const fileBaseUrl = normalizeLanraragiBaseUrl(persisted.baseUrl);
+      if (preferFile) {
+        baseUrl = fileBaseUrl;
+        origins.baseUrl = "file";
+      }
+    } catch {
+      // Ignore invalid persisted base URL.
+    }
+  }
+  const openKey = (sealed: string, label: string): string | null => {
+    const opened = sealed === "" ? "" : (input.secrets?.open(sealed) ?? null);
+    if (opened === null) logError(`lanraragi settings api key could not be decrypted file=${settingsFile} ${label}`);
+    return opened;
+  };
+  if (persisted?.apiKey !== undefined && (preferFile || !apiKey)) {
+    const opened = openKey(persisted.apiKey, "source=main; using env value");
+    if (opened !== null) {
+      apiKey = opened;
+      origins.apiKey = "file";
+    }
+  }
+
+  const primary: SourceState = {
+    id: PRIMARY_SOURCE_ID,
+    name: persisted?.name?.trim() || PRIMARY_SOURCE_NAME,
+    baseUrl,
+    apiKey,
+    client: new LanraragiClient(baseUrl, apiKey, input.http),
+  };
+  let extras: SourceState[] = [];
+  for (const item of Array.isArray(persisted?.sources) ? persisted.sources : []) {
+    if (!item || typeof item.id !== "string" || !isValidSourceId(item.id) || item.id === PRIMARY_SOURCE_ID) continue;
+    try {
+      const itemBaseUrl = normalizeLanraragiBaseUrl(item.baseUrl);
+      const itemApiKey = openKey(item.apiKey ?? "", `source=${item.id}`) ?? "";
+      extras.push({
+        id: item.id,
+        name: item.name?.trim() || item.id,
+        baseUrl: itemBaseUrl,
+        apiKey: itemApiKey,
+        client: new LanraragiClient(itemBaseUrl, itemApiKey, input.http),
+      });
+    } catch {
+      // Ignore sources with an invalid persisted base URL.
+    }
+  }
+
+  const all = () => [primary, ...extras];
+  const buildLibrary = () =>
+    new LanraragiLibrary(
+      all().map((source): LanraragiSource => ({
+        id: source.id,
+        name: source.name,
+        baseUrl: source.baseUrl,
+        client: source.client,
+      })),
+    );
+  let library = buildLibrary();
   let version = 0;
 
+  const publicSettings = (): LanraragiSettingsPublic => ({
+    baseUrl: primary.baseUrl,
+    hasApiKey: primary.apiKey.trim().length > 0,
+    sources: { ...origins },
+  });
+  const publicSource = (source: SourceState): LanraragiSourcePublic => ({
+    id: source.id,
+    name: source.name,
+    baseUrl: source.baseUrl,
+    hasApiKey: source.apiKey.trim().length > 0,
+    isPrimary: source.id === PRIMARY_SOURCE_ID,
+  });
+  const seal = (value: string) => (value && input.secrets ? input.secrets.seal(value) : "");
+  // Rebuilds clients and saves; callers have validated everything first.
+  const commit = () => {
+    for (const source of all()) {
+      source.client = new LanraragiClient(source.baseUrl, source.apiKey, input.http);
+    }
+    library = buildLibrary();
+    version += 1;
+    if (settingsFile && input.secrets) {
+      saveSettings(settingsFile, {
+        version: 1,
+        name: primary.name,
+        baseUrl: primary.baseUrl,
+        apiKey: seal(primary.apiKey),
+        sources: extras.map((source) => ({
+          id: source.id,
+          name: source.name,
+          baseUrl: source.baseUrl,
+          apiKey: seal(source.apiKey),
+        })),
+      });
+      origins.baseUrl = "file";
+      origins.apiKey = "file";
+    }
+  };
+  const apply = (source: SourceState, next: LanraragiSourceInput) => {
+    const nextBaseUrl = next.baseUrl !== undefined ? normalizeLanraragiBaseUrl(next.baseUrl) : source.baseUrl;
+    source.baseUrl = nextBaseUrl;
+    if (next.name !== undefined) source.name = next.name.trim();
+    if (next.apiKey !== undefined) source.apiKey = next.apiKey;
+  };
+
   return {
-    getClient: () => client,
-    getSettings: () => ({
-      baseUrl,
-      hasApiKey: apiKey.trim().length > 0,
-    }),
+    getClient: () => library,
+    getSettings: publicSettings,
     updateSettings: (next) => {
-      const nextBaseUrl = next.baseUrl !== undefined ? normalizeLanraragiBaseUrl(next.baseUrl) : baseUrl;
-      const nextApiKey = next.apiKey !== undefined ? next.apiKey : apiKey;
-      baseUrl = nextBaseUrl;
-      apiKey = nextApiKey;
-      client = new LanraragiClient(baseUrl, apiKey);
-      version += 1;
-      return {
-        baseUrl,
-        hasApiKey: apiKey.trim().length > 0,
+      apply(primary, { baseUrl: next.baseUrl, apiKey: next.apiKey });
+      commit();
+      return publicSettings();
+    },
+    listSources: () => all().map(publicSource),
+    findSource: (idOrName) => {
+      const needle = idOrName.trim().toLowerCase();
+      const match =
+        all().find((source) => source.id === idOrName) ??
+        all().find((source) => source.name.toLowerCase() === needle);
+      return match ? publicSource(match) : null;
+    },
+    addSource: (next) => {
+      const sourceBaseUrl = normalizeLanraragiBaseUrl(next.baseUrl);
+      const sourceApiKey = next.apiKey ?? "";
+      const source: SourceState = {
+        id: sourceIdFromName(next.name, new Set(all().map((item) => item.id).concat("all"))),
+        name: next.name.trim(),
+        baseUrl: sourceBaseUrl,
+        apiKey: sourceApiKey,
+        client: new LanraragiClient(sourceBaseUrl, sourceApiKey, input.http),
       };
+      extras.push(source);
+      commit();
+      return publicSource(source);
+    },
+    updateSource: (id, next) => {
+      const source = all().find((item) => item.id === id);
+      if (!source) return null;
+      apply(source, next);
+      commit();
+      return publicSource(source);
+    },
+    removeSource: (id) => {
+      if (id === PRIMARY_SOURCE_ID || !extras.some((source) => source.id === id)) return false;
+      extras = extras.filter((source) => source.id !== id);
+      commit();
+      return true;
+    },
+    checkSources: () =>
+      Promise.all(
+        all().map(async (source): Promise<LanraragiSourceHealth> => {
+          const startedAt = Date.now();
+          try {
+            const info = await source.client.ping();
+            return {
+              id: source.id,
+              name: source.name,
+              ok: true,
+              latencyMs: Date.now() - startedAt,
+              version: info.version ?? null,
+              error: null,
+              circuit: source.client.circuitState(),
+            };
+          } catch (error) {
+            return {
+              id: source.id,
+              name: source.name,
+              ok: false,
+              latencyMs: Date.now() - startedAt,
+              version: null,
+              error: error instanceof Error ? error.message : String(error),
+              circuit: source.client.circuitState(),
+            };
+          }
+        }),
+      ),
+    getConnection: () => ({
+      name: primary.name,
+      baseUrl: primary.baseUrl,
+      apiKey: primary.apiKey,
+      sources: extras.map(({ id, name, baseUrl: sourceBaseUrl, apiKey: sourceApiKey }) => ({
+        id,
+        name,
+        baseUrl: sourceBaseUrl,
+        apiKey: sourceApiKey,
+      })),
+    }),
+    importSources: (incoming) => {
+      for (const next of incoming) {
+        const source = extras.find((item) => item.id === next.id);
+        if (source) {
+          apply(source, next);
+          continue;
+        }
+        const sourceBaseUrl = normalizeLanraragiBaseUrl(next.baseUrl);
+        const sourceApiKey = next.apiKey ?? "";
+        extras.push({
+          id: next.id,
+          name: next.name.trim(),
+          baseUrl: sourceBaseUrl,
+          apiKey: sourceApiKey,
+          client: new LanraragiClient(sourceBaseUrl, sourceApiKey, input.http),
+        });
+      }
+      commit();
+      return incoming.length;
     },
     getVersion: () => version,
   };
@@ -0,0 +1,332 @@
+import type { LanraragiApi, LanraragiClient } from "./lanraragi-client";
+import { logError } from "./logger";
+import type { ArchiveRecord, CategorySummary, LanraragiCategory, SearchResponse } from "../types";
+
+// Archives and categories of the primary source keep their bare LANraragi ids, so manifests, wishlists, reading
+// sync records and OPDS links from before multiple sources stay valid. Other sources use `source:id`.
+export const PRIMARY_SOURCE_ID = "main";
+export const ALL_SOURCES = "all";
+
+export type LanraragiSource = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  client: LanraragiClient;
+};
+
+export class UnknownSourceError extends Error {
+  constructor(readonly sourceId: string) {
+    super(`Unknown LANraragi source: ${sourceId}`);
+    this.name = "UnknownSourceError";
+  }
+}
+
+export function splitSourceId(value: string): { sourceId: string; id: string } {
+  const separator = value.indexOf(":");
+  if (separator <= 0) return { sourceId: PRIMARY_SOURCE_ID, id: value };
+  return { sourceId: value.slice(0, separator), id: value.slice(separator + 1) };
+}
+
+export function joinSourceId(sourceId: string, id: string): string {
+  return sourceId === PRIMARY_SOURCE_ID ? id : `${sourceId}:${id}`;
+}
+
+type SearchParams = Parameters<LanraragiClient["searchArchives"]>[0] & { source?: string };
+
+type MergeStream = {
+  source: LanraragiSource;
+  buffer: ArchiveRecord[];
+  next: number;
+  total: number;
+  done: boolean;
+};
+
+type MergeCursor = {
+  at: number;
+  pageSize: number;
+  streams: MergeStream[];
+  merged: ArchiveRecord[];
+  // Concurrent pages of the same query take turns, so no source page is fetched twice.
+  queue: Promise<unknown>;
+};
+
+const MERGE_CURSOR_TTL_MS = 60 * 1000;
+const MERGE_CURSOR_LIMIT = 20;
+
+function tagValue(archive: ArchiveRecord, namespace: string): string {
+  const prefix = `${namespace}:`;
+  const tag = (archive.tags || "")
+    .split(",")
+    .map((item) => item.trim())
+    .find((item) => item.toLowerCase().startsWith(prefix));
+  return tag ? tag.slice(prefix.length) : "";
+}
+
+// Approximates LANraragi's own ordering so each source's already-sorted stream interleaves sensibly.
+function sortKey(archive: ArchiveRecord, sortby: string): string | number {
+  switch (sortby) {
+    case "title":
+      return archive.title || archive.filename || "";
+    case "progress":
+    case "lastreadtime":
+    case "size":
+      return Number(archive[sortby]) || 0;
+    case "time_read":
+      return Number(archive.lastreadtime) || 0;
+    default: {
+      const value = tagValue(archive, sortby);
+      return /^\d+$/.test(value) ? Number(value) : value;
+    }
+  }
+}
+
+function compareArchives(a: ArchiveRecord, b: ArchiveRecord, sortby: string, order: "asc" | "desc"): number {
+  const left = sortKey(a, sortby);
+  const right = sortKey(b, sortby);
+  const result =
+    typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right), undefined, { sensitivity: "base", numeric: true });
+  return order === "desc" ? -result : result;
+}
+
+/**
+ * Routes namespaced ids to the source that owns them and merges searches, tag stats and categories across
+ * sources. With a single source it behaves exactly like that source's client.
+ */
+export class LanraragiLibrary implements LanraragiApi {
+  private readonly cursors = new Map<string, MergeCursor>();
+
+  constructor(private readonly sources: LanraragiSource[]) {}
+
+  private get primary(): LanraragiSource {
+    return this.sources.find((source) => source.id === PRIMARY_SOURCE_ID) ?? this.sources[0];
+  }
+
+  private source(sourceId: string): LanraragiSource {
+    const source = this.sources.find((item) => item.id === sourceId);
+    if (!source) throw new UnknownSourceError(sourceId);
+    return source;
+  }
+
+  private route(value: string): { source: LanraragiSource; id: string } {
+    const { sourceId, id } = splitSourceId(value);
+    return { source: this.source(sourceId), id };
+  }
+
+  private rename(source: LanraragiSource, archive: ArchiveRecord): ArchiveRecord {
+    return source.id === PRIMARY_SOURCE_ID ? archive : { ...archive, arcid: joinSourceId(source.id, archive.arcid) };
+  }
+
+  hasSource(sourceId: string): boolean {
+    return this.sources.some((source) => source.id === sourceId);
+  }
+
+  async ping(): Promise<{ name?: string; version?: string }> {
+    return this.primary.client.ping();
+  }
+
+  circuitState(): ReturnType<LanraragiApi["circuitState"]> {
+    return this.primary.client.circuitState();
+  }
+
+  // `source` narrows to one library; without it (or with "all") every source is searched and merged.
+  async searchArchives(params: SearchParams): Promise<SearchResponse> {
+    const { source: sourceId, ...query } = params;
+    if (query.category) {
+      const { source, id } = this.route(query.category);
+      return this.searchOne(source, { ...query, category: id });
+    }
+    if (sourceId && sourceId !== ALL_SOURCES) {
+      return this.searchOne(this.source(sourceId), query);
+    }
+    if (this.sources.length === 1) {
+      return this.searchOne(this.sources[0], query);
+    }
+    return this.searchMerged(query);
+  }
+
+  private async searchOne(source: LanraragiSource, query: SearchParams): Promise<SearchResponse> {
+    const result = await source.client.searchArchives(query);
+    return { ...result, data: result.data.map((archive) => this.rename(source, archive)) };
+  }
+
+  // A first page always starts over, so a fresh listing never shows stale merged results.
+  private cursorFor(key: string, restart: boolean): MergeCursor {
+    const existing = this.cursors.get(key);
+    if (existing && !restart && Date.now() - existing.at <= MERGE_CURSOR_TTL_MS) return existing;
+    const cursor: MergeCursor = {
+      at: Date.now(),
+      pageSize: 0,
+      streams: this.sources.map((source) => ({ source, buffer: [], next: 0, total: 0, done: false })),
+      merged: [],
+      queue: Promise.resolve(),
+    };
+    this.cursors.delete(key);
+    this.cursors.set(key, cursor);
+    while (this.cursors.size > MERGE_CURSOR_LIMIT) {
+      this.cursors.delete(this.cursors.keys().next().value as string);
+    }
+    return cursor;
+  }
+
+  // Keeps each source's position per query, so paging deeper only fetches the pages it has not seen yet.
+  private async searchMerged(query: SearchParams): Promise<SearchResponse> {
+    const sortby = query.sortby ?? "title";
+    const order = query.order ?? "asc";
+    const start = query.start ?? 0;
+    const key = JSON.stringify([query.filter ?? "", sortby, order]);
+    const cursor = this.cursorFor(key, start === 0);
+    const extend = async () => {
+      const fill = (stream: MergeStream) =>
+        stream.source.client
+          .searchArchives({ ...query, start: stream.next, sortby, order })
+          .then((result) => {
+            stream.total = result.recordsFiltered;
+            stream.buffer.push(...result.data.map((archive) => this.rename(stream.source, archive)));
+            stream.next += result.data.length;
+            stream.done = result.data.length === 0 || stream.next >= stream.total;
+            cursor.pageSize = Math.max(cursor.pageSize, result.data.length);
+          })
+          .catch((error) => {
+            // One unreachable library should not take the merged view down; /api/health reports it.
+            logError(
+              `lanraragi merged search skipped source=${stream.source.id} ${error instanceof Error ? error.message : String(error)}`,
+            );
+            stream.done = true;
+          });
+
+      while (true) {
+        await Promise.all(cursor.streams.filter((stream) => !stream.done && stream.buffer.length === 0).map(fill));
+        if (cursor.merged.length >= start + cursor.pageSize) break;
+        let best: MergeStream | null = null;
+        for (const stream of cursor.streams) {
+          if (stream.buffer.length === 0) continue;
+          if (!best || compareArchives(stream.buffer[0], best.buffer[0], sortby, order) < 0) best = stream;
+        }
+        if (!best) break;
+        cursor.merged.push(best.buffer.shift() as ArchiveRecord);
+      }
+    };
+    const run = cursor.queue.then(extend);
+    cursor.queue = run.catch(() => undefined);
+    await run;
+    cursor.at = Date.now();
+
+    const total = cursor.streams.reduce((sum, stream) => sum + stream.total, 0);
+    return {
+      recordsTotal: total,
+      recordsFiltered: total,
+      data: cursor.merged.slice(start, start + cursor.pageSize),
+    };
+  }
+
+  async getArchiveMetadata(value: string, options?: { signal?: AbortSignal }): Promise<ArchiveRecord> {
+    const { source, id } = this.route(value);
+    return this.rename(source, await source.client.getArchiveMetadata(id, options));
+  }
+
+  async updateProgress(value: string, page: number): Promise<void> {
+    const { source, id } = this.route(value);
+    await source.client.updateProgress(id, page);
+  }
+
+  // Page references from other sources carry their source id like archive ids do, so `downloadByPageUrl` sends
+  // them to the right server and API key even when several sources share a host.
+  async getArchivePages(value: string, options?: { force?: boolean; signal?: AbortSignal }): Promise<string[]> {
+    const { source, id } = this.route(value);
+    const pages = await source.client.getArchivePages(id, options);
+    if (source.id === PRIMARY_SOURCE_ID) return pages;
+    return pages.map((page) => joinSourceId(source.id, page));
+  }
+
+  async getTagStats(minweight = 1): Promise<Array<{ namespace: string; text: string; weight: string }>> {
+    if (this.sources.length === 1) return this.sources[0].client.getTagStats(minweight);
+    const results = await Promise.allSettled(this.sources.map((source) => source.client.getTagStats(minweight)));
+    const failed = results.find((result) => result.status === "rejected");
+    if (failed && results.every((result) => result.status === "rejected")) throw failed.reason;
+
+    const merged = new Map<string, { namespace: string; text: string; weight: number }>();
+    for (const result of results) {
+      if (result.status !== "fulfilled") continue;
+      for (const row of result.value) {
+        const key = `${row.namespace}\u0000${row.text}`;
+        const existing = merged.get(key);
+        if (existing) existing.weight += Number(row.weight) || 0;
+        else merged.set(key, { namespace: row.namespace, text: row.text, weight: Number(row.weight) || 0 });
+      }
+    }
+    return Array.from(merged.values()).map((row) => ({ ...row, weight: String(row.weight) }));
+  }
+
+  async getCategories(): Promise<LanraragiCategory[]> {
+    const lists = await Promise.all(
+      this.sources.map(async (source) => {
+        const categories = await source.client.getCategories().catch((error) => {
+          if (source.id === PRIMARY_SOURCE_ID) throw error;
+          logError(`lanraragi categories skipped source=${source.id} ${error instanceof Error ? error.message : String(error)}`);
+          return [];
+        });
+        return categories.map((category) => this.renameCategory(source, category));
+      }),
+    );
+    return lists.flat();
+  }
+
+  private renameCategory<T extends LanraragiCategory | CategorySummary>(source: LanraragiSource, category: T): T {
+    if (source.id === PRIMARY_SOURCE_ID) return category;
+    const renamed = { ...category, id: joinSourceId(source.id, category.id), name: `${category.name} (${source.name})` };
+    if ("archives" in renamed && Array.isArray(renamed.archives)) {
+      renamed.archives = renamed.archives.map((id) => joinSourceId(source.id, id));
+    }
+    return renamed;
+  }
+
+  async listCategories(): Promise<CategorySummary[]> {
+    const lists = await Promise.all(
+      this.sources.map(async (source) => {
+        const categories = await source.client.listCategories().catch((error) => {
+          if (source.id === PRIMARY_SOURCE_ID) throw error;
+          logError(`lanraragi categories skipped source=${source.id} ${error instanceof Error ? error.message : String(error)}`);
+          return [];
+        });
+        return categories.map((category) => this.renameCategory(source, category));
+      }),
+    );
+    return lists
+      .flat()
+      .sort(
+        (a, b) =>
+          Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+      );
+  }
+
+  async getCategory(value: string): Promise<CategorySummary> {
+    const { source, id } = this.route(value);
+    return this.renameCategory(source, await source.client.getCategory(id));
+  }
+
+  async getArchiveThumbnail(value: string): Promise<Response> {
+    const { source, id } = this.route(value);
+    return source.client.getArchiveThumbnail(id);
+  }
+
+  async getArchivePage(value: string, pagePath: string): Promise<Response> {
+    const { source, id } = this.route(value);
+    return source.client.getArchivePage(id, pagePath);
+  }
+
+  async downloadArchive(value: string, options?: { signal?: AbortSignal }): Promise<Response> {
+    const { source, id } = this.route(value);
+    return source.client.downloadArchive(id, options);
+  }
+
+  async downloadByPageUrl(pagePathOrUrl: string, options?: { signal?: AbortSignal }): Promise<Response> {
+    // Primary references are LANraragi's own paths or URLs and never start with a source id.
+    const owner = this.sources.find(
+      (source) => source.id !== PRIMARY_SOURCE_ID && pagePathOrUrl.startsWith(`${source.id}:`),
+    );
+    if (!owner) return this.primary.client.downloadByPageUrl(pagePathOrUrl, options);
+    return owner.client.downloadByPageUrl(pagePathOrUrl.slice(owner.id.length + 1), options);
+  }
+}
@@ -0,0 +1,749 @@
+import { z } from "zod";
+import type { AppConfig } from "./config";
+import type { ConversionCache } from "./conversion-cache";
+import type { LanraragiConnectionManager } from "./lanraragi-connection";
+import type { ProfileRuleManager, RuleContext } from "./profile-rules";
+import type { ProfileManager } from "./profiles";
+import { thumbnailContentType } from "./thumbnail-cache";
+import type { ArchiveRecord, CategorySummary, ConversionSettings } from "../types";
+
+// Feed models are format-neutral: hrefs are relative to the catalog root ("/", "/list?...") and each
+// renderer (Atom under /opds, OPDS 2.0 JSON under /opds2) prefixes its own root.
+
+export const listQuerySchema = z.object({
+  q: z.string().optional(),
+  title: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(10).max(100).default(30),
+  sortby: z.enum(["title", "progress", "lastreadtime", "size", "time_read", "date_added"]).default("title"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  // Refinements kept separate from `q` so facet links can swap them without rewriting the search text.
+  language: z.string().trim().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+  // One LANraragi source; every source is merged when absent.
+  source: z.string().trim().min(1).optional(),
+});
+
+export const searchQuerySchema = listQuerySchema.extend({
+  q: z.string().trim().min(1),
+});
+
+export const facetQuerySchema = z.object({
+  letter: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(10).max(100).default(40),
+});
+
+export const titleBrowseQuerySchema = z.object({
+  dir: z.enum(["asc", "desc"]).default("asc"),
+  letter: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(10).max(100).default(30),
+});
+
+export const facetNamespaceSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9_ -]{1,40}$/);
+
+// Not IANA-registered; XTEink readers match on the `.xtc` extension, the type just stops clients guessing EPUB.
+export const XTC_MEDIA_TYPE = "application/x-xtc";
+
+const FACET_CACHE_MS = 5 * 60 * 1000;
+const TITLE_CACHE_MS = 15 * 60 * 1000;
+const LETTER_BUCKETS = ["0-9", ...Array.from("ABCDEFGHIJKLMNOPQRSTUVWXYZ"), "#"];
+const LANGUAGE_FACET_LIMIT = 8;
+const NAMESPACE_LABELS: Record<string, { one: string; many: string }> = {
+  artist: { one: "Artist", many: "Artists" },
+  character: { one: "Character", many: "Characters" },
+  group: { one: "Group", many: "Groups" },
+  language: { one: "Language", many: "Languages" },
+  parody: { one: "Parody", many: "Parodies" },
+  series: { one: "Series", many: "Series" },
+};
+const LANGUAGE_CODES: Record<string, string> = {
+  chinese: "zh",
+  english: "en",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  japanese: "ja",
+  korean: "ko",
+  portuguese: "pt",
+  russian: "ru",
+  spanish: "es",
+  thai: "th",
+  vietnamese: "vi",
+};
+
+export type FacetNamespace = z.infer<typeof facetNamespaceSchema>;
+export type OpdsListQuery = z.infer<typeof listQuerySchema>;
+type TitleBrowseQuery = z.infer<typeof titleBrowseQuerySchema>;
+type FacetQuery = z.infer<typeof facetQuerySchema>;
+type TitleBrowseDir = TitleBrowseQuery["dir"];
+
+type FacetItem = {
+  name: string;
+  count: number;
+  bucket: string;
+};
+
+type TitleBucketCache = {
+  at: number;
+  nextStart: number;
+  total: number;
+  done: boolean;
+  buckets: Record<string, ArchiveRecord[]>;
+};
+
+export type ArchiveTag = {
+  // Empty for tags without a namespace.
+  namespace: string;
+  value: string;
+};
+
+export type ArchiveDescription = {
+  title: string;
+  authors: string[];
+  publishers: string[];
+  language: string | null;
+  series: string | null;
+  // ISO date (YYYY-MM-DD) from the `date_added` tag.
+  issued: string | null;
+  tags: ArchiveTag[];
+};
+
+export type OpdsPublication = {
+  archive: ArchiveRecord;
+  description: ArchiveDescription;
+  // Size of an already-converted artifact for the default OPDS settings; null until one is cached.
+  artifactSize: number | null;
+};
+
+export type OpdsNavigationItem = {
+  title: string;
+  href: string;
+  summary?: string;
+};
+
+export type OpdsFacet = {
+  group: string;
+  title: string;
+  href: string;
+  active: boolean;
+};
+
+export type OpdsFeed = {
+  kind: "navigation" | "acquisition";
+  title: string;
+  subtitle?: string;
+  selfHref: string;
+  // Rendered first, as a "Back to ..." entry in Atom and an `up` link in JSON.
+  up: OpdsNavigationItem | null;
+  previousHref: string | null;
+  nextHref: string | null;
+  navigation: OpdsNavigationItem[];
+  publications: OpdsPublication[];
+  facets: OpdsFacet[];
+  pagination: { page: number; pageSize: number; total: number | null } | null;
+};
+
+export type OpdsFeedSource = {
+  root: () => Promise<OpdsFeed>;
+  list: (
+    path: string,
+    query: OpdsListQuery & { filter?: string },
+    options?: { includeHomeLink?: boolean },
+  ) => Promise<OpdsFeed>;
+  titles: (query: TitleBrowseQuery) => Promise<OpdsFeed>;
+  namespaces: () => Promise<OpdsFeed>;
+  facets: (namespace: FacetNamespace, query: FacetQuery) => Promise<OpdsFeed>;
+  categories: () => Promise<OpdsFeed>;
+};
+
+const HOME_LINK: OpdsNavigationItem = { title: "Back to OPDS Home", href: "/" };
+
+export function opdsBaseUrl(config: AppConfig): string {
+  return config.SERVER_PUBLIC_URL.replace(/\/+$/g, "");
+}
+
+// Both catalogs link the same thumbnail rendition, picked by OPDS_THUMBNAIL_VARIANT.
+export function opdsThumbnailLink(config: AppConfig, archiveId: string): { href: string; type: string } {
+  const variant = config.OPDS_THUMBNAIL_VARIANT;
+  const query = variant === "original" ? "" : `?variant=${variant}`;
+  return {
+    href: `/opds/thumbnail/${encodeURIComponent(archiveId)}${query}`,
+    type: thumbnailContentType(variant),
+  };
+}
+
+export function qs(input: Record<string, string | number | undefined>): string {
+  const u = new URLSearchParams();
+  for (const [k, v] of Object.entries(input)) {
+    if (v === undefined || v === "") continue;
+    u.set(k, String(v));
+  }
+  const rendered = u.toString();
+  return rendered ? `?${rendered}` : "";
+}
+
+/**
+ * Settings used by OPDS downloads: the named profile when `profileRef` is given (null if it does not
+ * exist), otherwise the default profile with OPDS_COLOR_DEPTH on top if set. A named profile is not replaced by a
+ * rule's profile, and OPDS_COLOR_DEPTH still applies when a rule matches.
+ */
+export function resolveOpdsDownloadSettings(
+  config: AppConfig,
+  profiles: ProfileManager,
+  profileRef?: string,
+): { settings: ConversionSettings; ruleContext: RuleContext } | null {
+  if (profileRef) {
+    const profile = profiles.find(profileRef);
+    return profile ? { settings: profile.settings, ruleContext: { profilePinned: true } } : null;
+  }
+  const overrides: Partial<ConversionSettings> = config.OPDS_COLOR_DEPTH ? { colorDepth: config.OPDS_COLOR_DEPTH } : {};
+  return { settings: { ...profiles.getDefault().settings, ...overrides }, ruleContext: { overrides } };
+}
+
+export function parseArchiveTags(tags: string): ArchiveTag[] {
+  return (tags || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+    .map((tag) => {
+      const separator = tag.indexOf(":");
+      return separator > 0
+        ? { namespace: tag.slice(0, separator).trim().toLowerCase(), value: tag.slice(separator + 1).trim() }
+        : { namespace: "", value: tag };
+    })
+    .filter((tag) => tag.value.length > 0);
+}
+
+/** Category scheme for a tag namespace, so readers can tell `artist:` from `series:` values. */
+export function tagScheme(namespace: string): string {
+  return namespace ? `urn:lanraragi:namespace:${namespace}` : "urn:lanraragi:tag";
+}
+
+export function describeArchive(arc: ArchiveRecord): ArchiveDescription {
+  const tags = parseArchiveTags(arc.tags);
+  const values = (namespace: string) => tags.filter((tag) => tag.namespace === namespace).map((tag) => tag.value);
+  const language = values("language").find((value) => value.toLowerCase() !== "translated") ?? null;
+  const added = Number.parseInt(values("date_added")[0] ?? "", 10);
+
+  return {
+    title: arc.title || arc.filename || arc.arcid,
+    authors: values("artist"),
+    publishers: values("group"),
+    language: language ? (LANGUAGE_CODES[language.toLowerCase()] ?? language) : null,
+    series: values("series")[0] ?? null,
+    issued: Number.isFinite(added) && added > 0 ? new Date(added * 1000).toISOString().slice(0, 10) : null,
+    tags,
+  };
+}
+
+/** Resolves a model href against a catalog root such as "/opds" or "/opds2". */
+export function catalogHref(root: string, href: string): string {
+  if (href === "/") return root;
+  if (href.startsWith("/?")) return `${root}${href.slice(1)}`;
+  return `${root}${href}`;
+}
+
+/**
+ * Turns reader search-box text into LANraragi filter syntax: whitespace-separated words become
+ * comma-separated terms (all must match), quoted phrases stay together, and `ns:"a b"` loses its
+ * quotes. Input that already contains commas is treated as LANraragi syntax and passed through.
+ */
+export function toLanraragiFilter(query: string): string {
+  const trimmed = query.trim();
+  if (trimmed.includes(",")) return trimmed;
+
+  const terms: string[] = [];
+  const pattern = /(-?[^\s:"]+:)?"([^"]*)"?|\S+/g;
+  for (const match of trimmed.matchAll(pattern)) {
+    if (match[2] !== undefined) {
+      terms.push(match[1] ? `${match[1]}${match[2]}` : `"${match[2]}"`);
+    } else {
+      terms.push(match[0]);
+    }
+  }
+  return terms.filter((term) => term.replace(/"/g, "").trim().length > 0).join(", ");
+}
+
+function bucketForFacetName(name: string): string {
+  const first = name.trim().charAt(0).toUpperCase();
+  if (!first) return "#";
+  if (first >= "A" && first <= "Z") return first;
+  if (first >= "0" && first <= "9") return "0-9";
+  return "#";
+}
+
+function normalizeBucket(input?: string): string | undefined {
+  if (!input) return undefined;
+  const value = input.trim().toUpperCase();
+  if (value === "0-9" || value === "#") return value;
+  if (value.length === 1 && value >= "A" && value <= "Z") return value;
+  if (value.length === 1 && value >= "0" && value <= "9") return "0-9";
+  return undefined;
+}
+
+function namespaceLabel(namespace: string): { one: string; many: string } {
+  const known = NAMESPACE_LABELS[namespace];
+  if (known) return known;
+  const capitalized = namespace.charAt(0).toUpperCase() + namespace.slice(1);
+  return { one: capitalized, many: capitalized };
+}
+
+function titleBucketOrder(dir: TitleBrowseDir): string[] {
+  const letters = Array.from("ABCDEFGHIJKLMNOPQRSTUVWXYZ");
+  return dir === "desc" ? ["0-9", ...letters.reverse(), "#"] : ["0-9", ...letters, "#"];
+}
+
+function categoryNavigation(category: CategorySummary): OpdsNavigationItem {
+  return {
+    title: category.archiveCount !== null ? `${category.name} (${category.archiveCount})` : category.name,
+    ...(category.kind === "dynamic" ? { summary: `Dynamic collection: ${category.search}` } : {}),
+    href: `/list${qs({
+      category: category.id,
+      title: category.name,
+      page: 1,
+      pageSize: 30,
+      sortby: "title",
+      order: "asc",
+    })}`,
+  };
+}
+
+function emptyFeed(params: Pick<OpdsFeed, "kind" | "title" | "selfHref"> & Partial<OpdsFeed>): OpdsFeed {
+  return {
+    up: null,
+    previousHref: null,
+    nextHref: null,
+    navigation: [],
+    publications: [],
+    facets: [],
+    pagination: null,
+    ...params,
+  };
+}
+
+export function createOpdsFeedSource(input: {
+  config: AppConfig;
+  lanraragi: LanraragiConnectionManager;
+  cache: ConversionCache;
+  profiles: ProfileManager;
+  rules: ProfileRuleManager;
+}): OpdsFeedSource {
+  const { lanraragi } = input;
+  let tagIndex: { at: number; namespaces: Map<string, FacetItem[]> } | null = null;
+  const titleCacheByDir: Record<TitleBrowseDir, TitleBucketCache | null> = {
+    asc: null,
+    desc: null,
+  };
+
+  const createEmptyTitleBuckets = (): Record<string, ArchiveRecord[]> =>
+    Object.fromEntries(LETTER_BUCKETS.map((bucket) => [bucket, []])) as Record<string, ArchiveRecord[]>;
+
+  const getOrResetTitleCache = (dir: TitleBrowseDir): TitleBucketCache => {
+    const now = Date.now();
+    const existing = titleCacheByDir[dir];
+    if (existing && now - existing.at < TITLE_CACHE_MS) {
+      return existing;
+    }
+    const next: TitleBucketCache = {
+      at: now,
+      nextStart: 0,
+      total: Number.POSITIVE_INFINITY,
+      done: false,
+      buckets: createEmptyTitleBuckets(),
+    };
+    titleCacheByDir[dir] = next;
+    return next;
+  };
+
+  const fillOneTitleChunk = async (dir: TitleBrowseDir): Promise<void> => {
+    const cache = getOrResetTitleCache(dir);
+    if (cache.done) return;
+
+    const result = await lanraragi.getClient().searchArchives({
+      filter: "",
+      start: cache.nextStart,
+      sortby: "title",
+      order: dir,
+    });
+    cache.total = result.recordsFiltered;
+
+    if (!result.data.length) {
+      cache.done = true;
+      cache.at = Date.now();
+      return;
+    }
+
+    for (const arc of result.data) {
+      const name = arc.title || arc.filename || "";
+      const bucket = bucketForFacetName(name);
+      if (!cache.buckets[bucket]) {
+        cache.buckets[bucket] = [];
+      }
+      cache.buckets[bucket].push(arc);
+    }
+
+    cache.nextStart += result.data.length;
+    if (cache.nextStart >= cache.total) {
+      cache.done = true;
+    }
+    cache.at = Date.now();
+  };
+
+  const ensureTitleBucketItems = async (params: {
+    dir: TitleBrowseDir;
+    bucket: string;
+    needed: number;
+  }): Promise<{ items: ArchiveRecord[]; done: boolean }> => {
+    const cache = getOrResetTitleCache(params.dir);
+    while ((cache.buckets[params.bucket]?.length ?? 0) < params.needed && !cache.done) {
+      await fillOneTitleChunk(params.dir);
+    }
+    return {
+      items: cache.buckets[params.bucket] ?? [],
+      done: cache.done,
+    };
+  };
+
+  // One /api/database/stats call feeds every namespace; merged case-insensitively per namespace.
+  const getTagIndex = async (): Promise<Map<string, FacetItem[]>> => {
+    const now = Date.now();
+    if (tagIndex && now - tagIndex.at < FACET_CACHE_MS) {
+      return tagIndex.namespaces;
+    }
+
+    const stats = await lanraragi.getClient().getTagStats(1);
+    const merged = new Map<string, Map<string, { name: string; count: number }>>();
+    for (const row of stats) {
+      const namespace = row.namespace.trim().toLowerCase();
+      const name = row.text.trim();
+      if (!namespace || !name) continue;
+      const byName = merged.get(namespace) ?? new Map<string, { name: string; count: number }>();
+      merged.set(namespace, byName);
+      const key = name.toLowerCase();
+      const count = Number.parseInt(row.weight, 10);
+      const existing = byName.get(key);
+      if (!existing) {
+        byName.set(key, { name, count: Number.isFinite(count) ? count : 0 });
+      } else {
+        existing.count += Number.isFinite(count) ? count : 0;
+      }
+    }
+
+    const namespaces = new Map<string, FacetItem[]>();
+    for (const [namespace, byName] of merged) {
+      namespaces.set(
+        namespace,
+        Array.from(byName.values())
+          .map((item) => ({
+            name: item.name,
+            count: item.count,
+            bucket: bucketForFacetName(item.name),
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base", numeric: true })),
+      );
+    }
+
+    tagIndex = { at: now, namespaces };
+    return namespaces;
+  };
+
+  const getFacetItems = async (namespace: FacetNamespace): Promise<FacetItem[]> =>
+    (await getTagIndex()).get(namespace) ?? [];
+
+  // Size hints follow what a plain OPDS download would produce, profile rules included.
+  const toPublications = async (archives: ArchiveRecord[]): Promise<OpdsPublication[]> => {
+    const base = resolveOpdsDownloadSettings(input.config, input.profiles);
+    return Promise.all(
+      archives.map(async (archive) => {
+        const settings = base ? input.rules.evaluate(archive, base.settings, base.ruleContext).settings : null;
+        const cached = settings ? await input.cache.peek(archive.arcid, settings) : null;
+        return { archive, description: describeArchive(archive), artifactSize: cached?.fileSize ?? null };
+      }),
+    );
+  };
+
+  const listHref = (path: string, query: OpdsListQuery, patch: Partial<OpdsListQuery> = {}): string => {
+    const next = { ...query, ...patch };
+    return `${path}${qs({
+      q: next.q,
+      title: next.title,
+      page: next.page,
+      pageSize: next.pageSize,
+      sortby: next.sortby,
+      order: next.order,
+      language: next.language,
+      category: next.category,
+      source: next.source,
+    })}`;
+  };
+
+  const sortFacets = (path: string, query: OpdsListQuery): OpdsFacet[] => {
+    const options: Array<{ title: string; sortby: OpdsListQuery["sortby"]; order: OpdsListQuery["order"] }> = [
+      { title: "Title A-Z", sortby: "title", order: "asc" },
+      { title: "Title Z-A", sortby: "title", order: "desc" },
+      { title: "Recently Added", sortby: "date_added", order: "desc" },
+      { title: "Recently Read", sortby: "lastreadtime", order: "desc" },
+    ];
+    return options.map((option) => ({
+      group: "Sort",
+      title: option.title,
+      href: listHref(path, query, { page: 1, sortby: option.sortby, order: option.order }),
+      active: query.sortby === option.sortby && query.order === option.order,
+    }));
+  };
+
+  // Most common languages in the library; the active one stays listed even when it is not among them.
+  const languageFacets = async (path: string, query: OpdsListQuery): Promise<OpdsFacet[]> => {
+    const languages = (await getFacetItems("language"))
+      .slice()
+      .sort((a, b) => b.count - a.count)
+      .slice(0, LANGUAGE_FACET_LIMIT)
+      .map((item) => item.name);
+    const active = query.language?.toLowerCase();
+    if (query.language && !languages.some((name) => name.toLowerCase() === active)) {
+      languages.push(query.language);
+    }
+    if (languages.length === 0) return [];
+
+    return [
+      {
+        group: "Language",
+        title: "All languages",
+        href: listHref(path, query, { page: 1, language: undefined }),
+        active: !query.language,
+      },
+      ...languages.map((name) => ({
+        group: "Language",
+        title: name,
+        href: listHref(path, query, { page: 1, language: name }),
+        active: name.toLowerCase() === active,
+      })),
+    ];
+  };
+
+  return {
+    root: async () => {
+      // Pinned LANraragi categories become shelves on the home feed; the rest stay under Categories.
+      const pinned = await lanraragi
+        .getClient()
+        .listCategories()
+        .then((categories) => categories.filter((category) => category.pinned))
+        .catch(() => []);
+      // With more than one LANraragi source, each library also gets its own shelf.
+      const sources = lanraragi.listSources();
+      const libraries =
+        sources.length > 1
+          ? sources.map((source) => ({
+              title: source.name,
+              summary: "Library",
+              href: `/list${qs({ source: source.id, title: source.name, page: 1, pageSize: 30, sortby: "title", order: "asc" })}`,
+            }))
+          : [];
+
+      return emptyFeed({
+        kind: "navigation",
+        title: "LANraragi XTC Catalog",
+        subtitle: "Browse with navigation-first feeds optimized for XTEink.",
+        selfHref: "/",
+        navigation: [
+          {
+            title: "Recently Added",
+            summary: "Newest archives first",
+            href: `/list${qs({
+              title: "Recently Added",
+              page: 1,
+              pageSize: 30,
+              sortby: "date_added",
+              order: "desc",
+            })}`,
+          },
+          ...pinned.map(categoryNavigation),
+          ...libraries,
+          { title: "Titles A-Z", href: `/titles${qs({ dir: "asc", page: 1, pageSize: 30 })}` },
+          { title: "Titles Z-A", href: `/titles${qs({ dir: "desc", page: 1, pageSize: 30 })}` },
+          { title: "Browse by Artist", href: "/facets/artist" },
+          { title: "Browse by Group", href: "/facets/group" },
+          { title: "Browse by Tag", summary: "Series, language, characters and other namespaces", href: "/facets" },
+          { title: "Categories", summary: "LANraragi categories and collections", href: "/categories" },
+        ],
+      });
+    },
+
+    list: async (path, query, options) => {
+      const start = (query.page - 1) * query.pageSize;
+      // A trailing `$` makes LANraragi match the language tag exactly instead of as a prefix.
+      const filter = [query.filter ?? query.q ?? "", query.language ? `language:${query.language}$` : ""]
+        .filter((term) => term.trim().length > 0)
+        .join(", ");
+      const result = await lanraragi.getClient().searchArchives({
+        filter,
+        start,
+        sortby: query.sortby,
+        order: query.order,
+        category: query.category,
+        source: query.source,
+      });
+
+      const archives = result.data.slice(0, query.pageSize);
+      const hasNext = start + archives.length < result.recordsFiltered;
+      const pageHref = (page: number) => listHref(path, query, { page });
+      // Facets are a refinement; a failing tag-stats call should not take the listing down with it.
+      const languages = await languageFacets(path, query).catch(() => []);
+      // Category links carry their name as the title; bare `?category=` lists look it up.
+      const category =
+        query.category && !query.title?.trim()
+          ? await lanraragi
+              .getClient()
+              .getCategory(query.category)
+              .catch(() => null)
+          : null;
+
+      return emptyFeed({
+        kind: "acquisition",
+        title: query.title?.trim() || (category ? category.name : query.q ? `Results: ${query.q}` : "Archives"),
+        subtitle: `Total ${result.recordsFiltered} archives. Page ${query.page}. Sorted by ${query.sortby} ${query.order}.`,
+        selfHref: pageHref(query.page),
+        up: options?.includeHomeLink ? HOME_LINK : null,
+        previousHref: query.page > 1 ? pageHref(query.page - 1) : null,
+        nextHref: hasNext ? pageHref(query.page + 1) : null,
+        publications: await toPublications(archives),
+        facets: [...sortFacets(path, query), ...languages],
+        pagination: { page: query.page, pageSize: query.pageSize, total: result.recordsFiltered },
+      });
+    },
+
+    titles: async (query) => {
+      const dir = query.dir;
+      const letter = normalizeBucket(query.letter);
+      const orderLabel = dir === "desc" ? "Z-A" : "A-Z";
+
+      if (!letter) {
+        return emptyFeed({
+          kind: "navigation",
+          title: `Titles ${orderLabel}`,
+          subtitle: "Choose a letter section.",
+          selfHref: `/titles${qs({ dir })}`,
+          up: HOME_LINK,
+          navigation: titleBucketOrder(dir).map((bucket) => ({
+            title: bucket,
+            href: `/titles${qs({ dir, letter: bucket, page: 1, pageSize: query.pageSize })}`,
+          })),
+        });
+      }
+
+      const { page, pageSize } = query;
+      const start = (page - 1) * pageSize;
+      const { items, done } = await ensureTitleBucketItems({
+        dir,
+        bucket: letter,
+        needed: start + pageSize + 1,
+      });
+      const pageItems = items.slice(start, start + pageSize);
+      const hasNext = items.length > start + pageSize || !done;
+
+      return emptyFeed({
+        kind: "acquisition",
+        title: `Titles ${orderLabel}: ${letter}`,
+        subtitle: `${orderLabel} order by title. Section ${letter}. Page ${page}.`,
+        selfHref: `/titles${qs({ dir, letter, page, pageSize })}`,
+        up: { title: `Back to Titles ${orderLabel}`, href: `/titles${qs({ dir, page: 1, pageSize })}` },
+        previousHref: page > 1 ? `/titles${qs({ dir, letter, page: page - 1, pageSize })}` : null,
+        nextHref: hasNext ? `/titles${qs({ dir, letter, page: page + 1, pageSize })}` : null,
+        publications: await toPublications(pageItems),
+        pagination: { page, pageSize, total: done ? items.length : null },
+      });
+    },
+
+    facets: async (namespace, query) => {
+      const letter = normalizeBucket(query.letter);
+      const label = namespaceLabel(namespace);
+      const titleBase = label.many;
+      const items = await getFacetItems(namespace);
+
+      if (!letter) {
+        const counts = new Map<string, number>(LETTER_BUCKETS.map((bucket) => [bucket, 0]));
+        for (const item of items) {
+          counts.set(item.bucket, (counts.get(item.bucket) ?? 0) + 1);
+        }
+        return emptyFeed({
+          kind: "navigation",
+          title: `${titleBase} (A-Z)`,
+          subtitle: `Choose a letter bucket. ${items.length} total ${titleBase.toLowerCase()}.`,
+          selfHref: `/facets/${encodeURIComponent(namespace)}`,
+          up: { title: "Back to Tags", href: "/facets" },
+          navigation: LETTER_BUCKETS.filter((bucket) => (counts.get(bucket) ?? 0) > 0).map((bucket) => ({
+            title: `${bucket} (${counts.get(bucket)})`,
+            href: `/facets/${encodeURIComponent(namespace)}${qs({ letter: bucket, page: 1, pageSize: 40 })}`,
+          })),
+        });
+      }
+
+      const filtered = items.filter((item) => item.bucket === letter);
+      const start = (query.page - 1) * query.pageSize;
+      const pageItems = filtered.slice(start, start + query.pageSize);
+      const hasNext = start + pageItems.length < filtered.length;
+      const pageHref = (page: number) => `/facets/${encodeURIComponent(namespace)}${qs({ letter, page, pageSize: query.pageSize })}`;
+
+      return emptyFeed({
+        kind: "navigation",
+        title: `${titleBase}: ${letter}`,
+        subtitle: `${filtered.length} ${titleBase.toLowerCase()} in bucket ${letter}. Page ${query.page}.`,
+        selfHref: pageHref(query.page),
+        up: { title: `Back to ${titleBase} A-Z`, href: `/facets/${encodeURIComponent(namespace)}` },
+        previousHref: query.page > 1 ? pageHref(query.page - 1) : null,
+        nextHref: hasNext ? pageHref(query.page + 1) : null,
+        navigation: pageItems.map((facet) => ({
+          title: `${facet.name} (${facet.count})`,
+          href: `/list${qs({
+            q: `${namespace}:${facet.name}`,
+            title: `${label.one}: ${facet.name}`,
+            page: 1,
+            pageSize: 30,
+            sortby: "title",
+            order: "asc",
+          })}`,
+        })),
+        pagination: { page: query.page, pageSize: query.pageSize, total: filtered.length },
+      });
+    },
+
+    namespaces: async () => {
+      const index = await getTagIndex();
+      const namespaces = Array.from(index.keys())
+        .filter((namespace) => namespace !== "date_added")
+        .sort((a, b) => a.localeCompare(b));
+      return emptyFeed({
+        kind: "navigation",
+        title: "Browse by Tag",
+        subtitle: `${namespaces.length} tag namespaces.`,
+        selfHref: "/facets",
+        up: HOME_LINK,
+        navigation: [
+          ...namespaces.map((namespace) => ({
+            title: `${namespaceLabel(namespace).many} (${index.get(namespace)?.length ?? 0})`,
+            href: `/facets/${encodeURIComponent(namespace)}`,
+          })),
+          { title: "Categories", href: "/categories" },
+        ],
+      });
+    },
+
+    categories: async () => {
+      const categories = await lanraragi.getClient().listCategories();
+      return emptyFeed({
+        kind: "navigation",
+        title: "Categories",
+        subtitle: `${categories.length} LANraragi categories.`,
+        selfHref: "/categories",
+        up: HOME_LINK,
+        navigation: categories.map(categoryNavigation),
+      });
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import { promisify } from "node:util";
+import { deflate, inflate } from "node:zlib";
+
+const inflateAsync = promisify(inflate);
+const deflateAsync = promisify(deflate);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette index
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+export type GrayscaleImage = {
+  width: number;
+  height: number;
+  // One byte per pixel, row-major, 0 = black.
+  data: Uint8Array;
+};
+
+type PngHeader = {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, body: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + body.length);
+  chunk.writeUInt32BE(body.length, 0);
+  chunk.write(type, 4, "latin1");
+  body.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + body.length)), 8 + body.length);
+  return chunk;
+}
+
+// Same integer weights Pillow uses for convert("L"), so thresholds match png2xtc.py.
+function luma(r: number, g: number, b: number): number {
+  return (r * 19595 + g * 38470 + b * 7471 + 0x8000) >> 16;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+function unfilter(raw: Buffer, height: number, stride: number, bytesPerPixel: number): Uint8Array {
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y += 1) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+    for (let x = 0; x < stride; x += 1) {
+      const value = raw[src + x];
+      const left = x >= bytesPerPixel ? out[dst + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[prev + x - bytesPerPixel] : 0;
+      let decoded: number;
+      if (filter === 0) decoded = value;
+      else if (filter === 1) decoded = value + left;
+      else if (filter === 2) decoded = value + up;
+      else if (filter === 3) decoded = value + ((left + up) >> 1);
+      else if (filter === 4) decoded = value + paeth(left, up, upLeft);
+      else throw new Error(`Unsupported PNG filter type ${filter} on row ${y}`);
+      out[dst + x] = decoded & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decodes a non-interlaced PNG into 8-bit grayscale. cbz2xtc writes mode "L" pages, but the other
+ * color types are handled so hand-made frames still pack.
+ */
+export async function decodePngToGrayscale(buffer: Buffer): Promise<GrayscaleImage> {
+  if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG file");
+  }
+
+  let header: PngHeader | null = null;
+  let palette: Buffer | null = null;
+  const dataChunks: Buffer[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const body = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      header = {
+        width: body.readUInt32BE(0),
+        height: body.readUInt32BE(4),
+        bitDepth: body[8],
+        colorType: body[9],
+        interlace: body[12],
+      };
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "IDAT") {
+      dataChunks.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header) throw new Error("PNG is missing its IHDR chunk");
+  const channels = CHANNELS_BY_COLOR_TYPE[header.colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${header.colorType}`);
+  if (header.interlace !== 0) throw new Error("Interlaced PNGs are not supported");
+  if (header.colorType === 3 && !palette) throw new Error("Palette PNG is missing its PLTE chunk");
+
+  const { width, height, bitDepth } = header;
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = await inflateAsync(Buffer.concat(dataChunks));
+  if (raw.length < (stride + 1) * height) {
+    throw new Error(`PNG image data is truncated (${raw.length} < ${(stride + 1) * height} bytes)`);
+  }
+  const pixels = unfilter(raw, height, stride, bytesPerPixel);
+
+  const sampleMax = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, index: number): number => {
+    if (bitDepth === 8) return pixels[row + index];
+    if (bitDepth === 16) return pixels[row + index * 2];
+    const bit = index * bitDepth;
+    return (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & sampleMax;
+  };
+  const toByte = (value: number): number => (bitDepth >= 8 ? value : Math.round((value * 255) / sampleMax));
+
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    const row = y * stride;
+    for (let x = 0; x < width; x += 1) {
+      let gray: number;
+      if (header.colorType === 0 || header.colorType === 4) {
+        gray = toByte(sample(row, x * channels));
+      } else if (header.colorType === 3) {
+        const entry = sample(row, x) * 3;
+        gray = luma(palette![entry] ?? 0, palette![entry + 1] ?? 0, palette![entry + 2] ?? 0);
+      } else {
+        gray = luma(sample(row, x * channels), sample(row, x * channels + 1), sample(row, x * channels + 2));
+      }
+      data[y * width + x] = gray;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/** Encodes 8-bit grayscale pixels as an unfiltered PNG; used for page previews, not for size. */
+export async function encodeGrayscalePng(image: GrayscaleImage): Promise<Buffer> {
+  const { width, height } = image;
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    raw[y * (width + 1)] = 0;
+    raw.set(image.data.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", await deflateAsync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,378 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { ArchiveRecord, ConversionSettings } from "../types";
+import type { ProfileManager } from "./profiles";
+
+export type ProfileRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Tag expression, e.g. `category:webtoon`, `language:english AND artist:x`, `pagecount>=200`.
+  match: string;
+  // Profile whose settings replace the default profile's; `settings` is then patched on top (see RuleContext).
+  profileId: string | null;
+  settings: Partial<ConversionSettings>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ProfileRuleInput = {
+  name?: string;
+  enabled?: boolean;
+  match?: string;
+  profileId?: string | null;
+  settings?: Partial<ConversionSettings>;
+};
+
+export type AppliedProfileRule = {
+  id: string;
+  name: string;
+  match: string;
+  profileId: string | null;
+  profileName: string | null;
+};
+
+export type RuleSubject = Pick<ArchiveRecord, "tags" | "pagecount" | "size" | "extension" | "title" | "filename">;
+
+/**
+ * What the caller chose for this conversion. Precedence, lowest first: the passed settings (default profile),
+ * the rule's profile, the rule's `settings`, then `overrides`. With `profilePinned` (a profile named in the request
+ * or a device's preferred profile) the rule's profile is skipped and only its `settings` are layered on top.
+ */
+export type RuleContext = {
+  profilePinned?: boolean;
+  overrides?: Partial<ConversionSettings>;
+};
+
+export type RuleEvaluation = { settings: ConversionSettings; rule: AppliedProfileRule | null };
+
+export type ProfileRuleManager = {
+  list: () => ProfileRule[];
+  find: (id: string) => ProfileRule | null;
+  create: (input: ProfileRuleInput & { name: string; match: string }) => ProfileRule;
+  update: (id: string, input: ProfileRuleInput) => ProfileRule | null;
+  remove: (id: string) => boolean;
+  // Rules are checked in list order and the first enabled match wins.
+  evaluate: (archive: RuleSubject & { arcid?: string }, settings: ConversionSettings, context?: RuleContext) => RuleEvaluation;
+  // Applies the rule last matched for this archive without its metadata; null if it was never evaluated, the
+  // rules changed since, or the result is older than `maxAgeMs`.
+  recall: (
+    archiveId: string,
+    settings: ConversionSettings,
+    context: RuleContext | undefined,
+    options: { maxAgeMs: number },
+  ) => RuleEvaluation | null;
+};
+
+type RuleFile = {
+  version: 1;
+  rules: ProfileRule[];
+};
+
+type CompareOp = "=" | "!=" | ">" | ">=" | "<" | "<=";
+type NumericField = "pagecount" | "size";
+type TextField = "extension" | "title" | "filename";
+
+type RuleExpression =
+  | { kind: "and" | "or"; left: RuleExpression; right: RuleExpression }
+  | { kind: "not"; operand: RuleExpression }
+  | { kind: "tag"; pattern: RegExp }
+  | { kind: "number"; field: NumericField; op: CompareOp; value: number }
+  | { kind: "text"; field: TextField; op: "=" | "!="; value: string };
+
+const MAX_REMEMBERED_MATCHES = 5000;
+const NUMERIC_FIELDS = new Set<string>(["pagecount", "size"]);
+const TEXT_FIELDS = new Set<string>(["extension", "title", "filename"]);
+const SIZE_UNITS: Record<string, number> = { "": 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+const PROPERTY_TERM = /^([a-z]+)(>=|<=|!=|>|<|=)(.*)$/i;
+
+// Quoted tokens are always terms, so `"and"` or `"("` can be matched as tags.
+type Token = { text: string; quoted: boolean };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ text: char, quoted: false });
+      i += 1;
+      continue;
+    }
+    let token = "";
+    let quoted = false;
+    while (i < source.length && !/[\s()]/.test(source[i])) {
+      if (source[i] === '"') {
+        const end = source.indexOf('"', i + 1);
+        if (end === -1) throw new Error("Invalid rule expression: unterminated quote");
+        token += source.slice(i + 1, end);
+        quoted = true;
+        i = end + 1;
+        continue;
+      }
+      token += source[i];
+      i += 1;
+    }
+    tokens.push({ text: token, quoted });
+  }
+  return tokens;
+}
+
+function wildcardPattern(input: string): RegExp {
+  const escaped = input
+    .trim()
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function parseTerm(token: string): RuleExpression {
+  const property = token.match(PROPERTY_TERM);
+  if (property && (NUMERIC_FIELDS.has(property[1].toLowerCase()) || TEXT_FIELDS.has(property[1].toLowerCase()))) {
+    const field = property[1].toLowerCase();
+    const op = property[2] as CompareOp;
+    const raw = property[3].trim();
+    if (NUMERIC_FIELDS.has(field)) {
+      const numeric = raw.toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(kb|mb|gb)?$/);
+      if (!numeric) throw new Error(`Invalid rule expression: ${field} needs a number, got "${raw}"`);
+      const unit = field === "size" ? SIZE_UNITS[numeric[2] ?? ""] : 1;
+      return { kind: "number", field: field as NumericField, op, value: Number(numeric[1]) * unit };
+    }
+    if (op !== "=" && op !== "!=") {
+      throw new Error(`Invalid rule expression: ${field} only supports = and !=`);
+    }
+    return { kind: "text", field: field as TextField, op, value: raw };
+  }
+  if (!token.trim()) throw new Error("Invalid rule expression: empty term");
+  return { kind: "tag", pattern: wildcardPattern(token) };
+}
+
+/** Parses `AND` / `OR` / `NOT` expressions with parentheses; AND binds tighter than OR. */
+export function parseRuleExpression(source: string): RuleExpression {
+  const tokens = tokenize(source);
+  let position = 0;
+  const peekKeyword = () => {
+    const token = tokens[position];
+    return token && !token.quoted ? token.text.toUpperCase() : undefined;
+  };
+  const isSymbol = (token: Token | undefined, symbol: string) => token?.quoted === false && token.text === symbol;
+
+  const parseOr = (): RuleExpression => {
+    let left = parseAnd();
+    while (peekKeyword() === "OR") {
+      position += 1;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): RuleExpression => {
+    let left = parseNot();
+    while (peekKeyword() === "AND") {
+      position += 1;
+      left = { kind: "and", left, right: parseNot() };
+    }
+    return left;
+  };
+  const parseNot = (): RuleExpression => {
+    if (peekKeyword() === "NOT") {
+      position += 1;
+      return { kind: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): RuleExpression => {
+    const token = tokens[position];
+    if (token === undefined) throw new Error("Invalid rule expression: unexpected end");
+    position += 1;
+    if (isSymbol(token, "(")) {
+      const inner = parseOr();
+      if (!isSymbol(tokens[position], ")")) throw new Error("Invalid rule expression: missing )");
+      position += 1;
+      return inner;
+    }
+    if (!token.quoted && (token.text === ")" || ["AND", "OR"].includes(token.text.toUpperCase()))) {
+      throw new Error(`Invalid rule expression: unexpected "${token.text}"`);
+    }
+    return parseTerm(token.text);
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Invalid rule expression: unexpected "${tokens[position].text}"`);
+  }
+  return expression;
+}
+
+function compare(actual: number, op: CompareOp, expected: number): boolean {
+  if (op === "=") return actual === expected;
+  if (op === "!=") return actual !== expected;
+  if (op === ">") return actual > expected;
+  if (op === ">=") return actual >= expected;
+  if (op === "<") return actual < expected;
+  return actual <= expected;
+}
+
+export function matchesRuleExpression(expression: RuleExpression, archive: RuleSubject): boolean {
+  switch (expression.kind) {
+    case "and":
+      return matchesRuleExpression(expression.left, archive) && matchesRuleExpression(expression.right, archive);
+    case "or":
+      return matchesRuleExpression(expression.left, archive) || matchesRuleExpression(expression.right, archive);
+    case "not":
+      return !matchesRuleExpression(expression.operand, archive);
+    case "tag":
+      return (archive.tags || "")
+        .split(",")
+        .map((tag) => tag.trim())
+        .some((tag) => expression.pattern.test(tag));
+    case "number":
+      return compare(Number(archive[expression.field]) || 0, expression.op, expression.value);
+    case "text": {
+      const equal = String(archive[expression.field] ?? "").toLowerCase() === expression.value.toLowerCase();
+      return expression.op === "=" ? equal : !equal;
+    }
+  }
+}
+
+function isRule(value: unknown): value is ProfileRule {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as ProfileRule;
+  return typeof rule.id === "string" && typeof rule.match === "string";
+}
+
+function loadRules(filePath: string): ProfileRule[] {
+  if (!existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<RuleFile>;
+    return Array.isArray(parsed?.rules) ? parsed.rules.filter(isRule) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRules(filePath: string, rules: ProfileRule[]): void {
+  const body: RuleFile = { version: 1, rules };
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), "utf8");
+  renameSync(temp, filePath);
+}
+
+export function createProfileRuleManager(input: { filePath: string; profiles: ProfileManager }): ProfileRuleManager {
+  let rules = loadRules(input.filePath);
+  const compiled = new Map<string, RuleExpression | null>();
+  const expressionFor = (rule: ProfileRule): RuleExpression | null => {
+    const key = rule.match;
+    if (!compiled.has(key)) {
+      // Stored rules were validated on write; a rule that no longer parses simply never matches.
+      try {
+        compiled.set(key, parseRuleExpression(key));
+      } catch {
+        compiled.set(key, null);
+      }
+    }
+    return compiled.get(key) ?? null;
+  };
+
+  const copy = (rule: ProfileRule): ProfileRule => ({ ...rule, settings: { ...rule.settings } });
+  // Every change to the rule list invalidates remembered matches.
+  let revision = 0;
+  const persist = () => {
+    revision += 1;
+    saveRules(input.filePath, rules);
+  };
+
+  // Which rule (if any) each archive matched, so cached conversions can be found without asking LANraragi.
+  const matches = new Map<string, { ruleId: string | null; revision: number; at: number }>();
+  const remember = (archiveId: string, ruleId: string | null) => {
+    matches.delete(archiveId);
+    matches.set(archiveId, { ruleId, revision, at: Date.now() });
+    if (matches.size > MAX_REMEMBERED_MATCHES) matches.delete(matches.keys().next().value!);
+  };
+
+  const apply = (rule: ProfileRule | null, settings: ConversionSettings, context?: RuleContext): RuleEvaluation => {
+    const overrides = context?.overrides ?? {};
+    if (!rule) return { settings: { ...settings, ...overrides }, rule: null };
+    const profile = rule.profileId && !context?.profilePinned ? input.profiles.find(rule.profileId) : null;
+    return {
+      settings: { ...(profile?.settings ?? settings), ...rule.settings, ...overrides },
+      rule: {
+        id: rule.id,
+        name: rule.name,
+        match: rule.match,
+        profileId: profile?.id ?? null,
+        profileName: profile?.name ?? null,
+      },
+    };
+  };
+
+  return {
+    list: () => rules.map(copy),
+    find: (id) => {
+      const rule = rules.find((item) => item.id === id);
+      return rule ? copy(rule) : null;
+    },
+    create: (next) => {
+      parseRuleExpression(next.match);
+      const at = Date.now();
+      const rule: ProfileRule = {
+        id: randomUUID(),
+        name: next.name.trim(),
+        enabled: next.enabled ?? true,
+        match: next.match.trim(),
+        profileId: next.profileId ?? null,
+        settings: { ...(next.settings ?? {}) },
+        createdAt: at,
+        updatedAt: at,
+      };
+      rules.push(rule);
+      persist();
+      return copy(rule);
+    },
+    update: (id, next) => {
+      const rule = rules.find((item) => item.id === id);
+      if (!rule) return null;
+      if (next.match !== undefined) {
+        parseRuleExpression(next.match);
+        rule.match = next.match.trim();
+      }
+      if (next.name !== undefined) rule.name = next.name.trim();
+      if (next.enabled !== undefined) rule.enabled = next.enabled;
+      if (next.profileId !== undefined) rule.profileId = next.profileId;
+      if (next.settings !== undefined) rule.settings = { ...next.settings };
+      rule.updatedAt = Date.now();
+      persist();
+      return copy(rule);
+    },
+    remove: (id) => {
+      const before = rules.length;
+      rules = rules.filter((item) => item.id !== id);
+      if (rules.length === before) return false;
+      persist();
+      return true;
+    },
+    evaluate: (archive, settings, context) => {
+      const rule =
+        rules.find((item) => {
+          if (!item.enabled) return false;
+          const expression = expressionFor(item);
+          return expression !== null && matchesRuleExpression(expression, archive);
+        }) ?? null;
+      if (archive.arcid) remember(archive.arcid, rule?.id ?? null);
+      return apply(rule, settings, context);
+    },
+    recall: (archiveId, settings, context, options) => {
+      const match = matches.get(archiveId);
+      if (!match || match.revision !== revision) return null;
+      if (Date.now() - match.at > options.maxAgeMs) return null;
+      const rule = match.ruleId ? (rules.find((item) => item.id === match.ruleId) ?? null) : null;
+      return apply(rule, settings, context);
+    },
+  };
+}
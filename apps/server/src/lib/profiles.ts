@@ -0,0 +1,164 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { ConversionSettings } from "../types";
+import { defaultConversionSettings } from "./settings";
+
+export type ConversionProfile = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  settings: ConversionSettings;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ConversionProfileInput = {
+  name?: string;
+  isDefault?: boolean;
+  settings?: Partial<ConversionSettings>;
+};
+
+export type ProfileManager = {
+  list: () => ConversionProfile[];
+  getDefault: () => ConversionProfile;
+  // Accepts an id or a case-insensitive name, so OPDS URLs can say `?profile=Webtoon vsplit`.
+  find: (idOrName: string) => ConversionProfile | null;
+  create: (input: ConversionProfileInput & { name: string }) => ConversionProfile;
+  update: (id: string, input: ConversionProfileInput) => ConversionProfile | null;
+  remove: (id: string) => boolean;
+  // Adds or replaces profiles by id; nothing is removed. Returns how many were applied.
+  importProfiles: (profiles: Array<ConversionProfileInput & { id: string; name: string }>) => number;
+};
+
+type ProfileFile = {
+  version: 1;
+  profiles: ConversionProfile[];
+};
+
+const DEFAULT_PROFILE_NAME = "Default";
+
+function isProfile(value: unknown): value is ConversionProfile {
+  if (!value || typeof value !== "object") return false;
+  const profile = value as ConversionProfile;
+  return typeof profile.id === "string" && typeof profile.name === "string" && Boolean(profile.settings);
+}
+
+function loadProfiles(filePath: string): ConversionProfile[] {
+  if (!existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<ProfileFile>;
+    return Array.isArray(parsed?.profiles) ? parsed.profiles.filter(isProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveProfiles(filePath: string, profiles: ConversionProfile[]): void {
+  const body: ProfileFile = { version: 1, profiles };
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), "utf8");
+  renameSync(temp, filePath);
+}
+
+export function createProfileManager(input: { filePath: string }): ProfileManager {
+  const now = Date.now();
+  // Settings added after a profile was saved fall back to the built-in defaults.
+  let profiles = loadProfiles(input.filePath).map((profile) => ({
+    ...profile,
+    isDefault: Boolean(profile.isDefault),
+    settings: { ...defaultConversionSettings, ...profile.settings },
+  }));
+  if (profiles.length === 0) {
+    profiles = [
+      {
+        id: randomUUID(),
+        name: DEFAULT_PROFILE_NAME,
+        isDefault: true,
+        settings: { ...defaultConversionSettings },
+        createdAt: now,
+        updatedAt: now,
+      },
+    ];
+    saveProfiles(input.filePath, profiles);
+  }
+  if (!profiles.some((profile) => profile.isDefault)) {
+    profiles[0].isDefault = true;
+  }
+
+  const copy = (profile: ConversionProfile): ConversionProfile => ({ ...profile, settings: { ...profile.settings } });
+  const persist = () => saveProfiles(input.filePath, profiles);
+  const markDefault = (id: string) => {
+    for (const profile of profiles) {
+      profile.isDefault = profile.id === id;
+    }
+  };
+
+  return {
+    list: () => profiles.map(copy),
+    getDefault: () => copy(profiles.find((profile) => profile.isDefault) ?? profiles[0]),
+    find: (idOrName) => {
+      const needle = idOrName.trim().toLowerCase();
+      const match =
+        profiles.find((profile) => profile.id === idOrName) ??
+        profiles.find((profile) => profile.name.toLowerCase() === needle);
+      return match ? copy(match) : null;
+    },
+    create: (next) => {
+      const at = Date.now();
+      const profile: ConversionProfile = {
+        id: randomUUID(),
+        name: next.name.trim(),
+        isDefault: false,
+        settings: { ...defaultConversionSettings, ...(next.settings ?? {}) },
+        createdAt: at,
+        updatedAt: at,
+      };
+      profiles.push(profile);
+      if (next.isDefault) markDefault(profile.id);
+      persist();
+      return copy(profile);
+    },
+    update: (id, next) => {
+      const profile = profiles.find((item) => item.id === id);
+      if (!profile) return null;
+      if (next.name !== undefined) profile.name = next.name.trim();
+      if (next.settings) profile.settings = { ...profile.settings, ...next.settings };
+      // Clearing the flag is ignored: some profile always has to be the default.
+      if (next.isDefault) markDefault(profile.id);
+      profile.updatedAt = Date.now();
+      persist();
+      return copy(profile);
+    },
+    remove: (id) => {
+      const profile = profiles.find((item) => item.id === id);
+      if (!profile || profile.isDefault) return false;
+      profiles = profiles.filter((item) => item.id !== id);
+      persist();
+      return true;
+    },
+    importProfiles: (incoming) => {
+      const at = Date.now();
+      for (const next of incoming) {
+        const existing = profiles.find((item) => item.id === next.id);
+        const profile: ConversionProfile = existing ?? {
+          id: next.id,
+          name: next.name,
+          isDefault: false,
+          settings: { ...defaultConversionSettings },
+          createdAt: at,
+          updatedAt: at,
+        };
+        profile.name = next.name.trim();
+        // Imported settings are complete snapshots, so they replace rather than merge.
+        profile.settings = { ...defaultConversionSettings, ...(next.settings ?? {}) };
+        profile.updatedAt = at;
+        if (!existing) profiles.push(profile);
+        if (next.isDefault) markDefault(profile.id);
+      }
+      persist();
+      return incoming.length;
+    },
+  };
+}
@@ -0,0 +1,341 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { DeviceConnectionManager, SavedDevice } from "./device-connection";
+import type { LanraragiConnectionManager } from "./lanraragi-connection";
+import { logError, logInfo } from "./logger";
+import { XteinkClient, normalizeDevicePath } from "./xteink-client";
+
+// How a device page is reconciled with progress that LANraragi already has:
+// - furthest: only move LANraragi forward.
+// - device: the device wins whenever its page changed since the last sync.
+// - lanraragi: skip archives read elsewhere (web reader) since the last sync.
+export type ReadingSyncPolicy = "furthest" | "device" | "lanraragi";
+
+export type DeliveredFile = {
+  archiveId: string;
+  fileName: string;
+  // Folder on the device for uploads; null for OPDS downloads, which are located through the recent list.
+  devicePath: string | null;
+  via: "upload" | "opds";
+  // Device an upload went to; null for OPDS downloads, which can land on any device. Older uploads without it
+  // belong to the default device.
+  baseUrl: string | null;
+  // XTC pages, used to map the device page back onto the archive's own page count.
+  pageCount: number | null;
+  deliveredAt: number;
+};
+
+type ArchiveSyncState = {
+  archiveId: string;
+  // Missing on states written before several devices were polled; those belong to the default device.
+  baseUrl?: string;
+  devicePage: number;
+  pushedPage: number | null;
+  syncedAt: number;
+};
+
+export type ReadingSyncOutcome = {
+  archiveId: string;
+  device: string;
+  devicePath: string;
+  devicePage: number;
+  xtcPageCount: number | null;
+  targetPage: number;
+  previousPage: number;
+  action: "pushed" | "unchanged" | "conflict" | "failed";
+  reason: string | null;
+};
+
+export type ReadingSyncRun = {
+  trigger: "manual" | "schedule";
+  policy: ReadingSyncPolicy;
+  startedAt: number;
+  finishedAt: number;
+  scanned: number;
+  pushed: number;
+  conflicts: number;
+  failed: number;
+  unmapped: string[];
+  outcomes: ReadingSyncOutcome[];
+  error: string | null;
+};
+
+export type ReadingSyncStatus = {
+  policy: ReadingSyncPolicy;
+  intervalMinutes: number;
+  running: boolean;
+  deliveries: number;
+  lastRun: ReadingSyncRun | null;
+};
+
+export type ReadingSyncManager = {
+  recordDelivery: (delivery: Omit<DeliveredFile, "deliveredAt">) => void;
+  status: () => ReadingSyncStatus;
+  // Concurrent calls share the run already in flight.
+  run: (trigger?: ReadingSyncRun["trigger"]) => Promise<ReadingSyncRun>;
+  start: () => void;
+  stop: () => void;
+};
+
+type SyncFile = {
+  version: 1;
+  deliveries: DeliveredFile[];
+  archives: ArchiveSyncState[];
+  lastRun: ReadingSyncRun | null;
+};
+
+const MAX_DELIVERIES = 2000;
+
+function loadSyncFile(filePath: string): SyncFile {
+  const empty: SyncFile = { version: 1, deliveries: [], archives: [], lastRun: null };
+  if (!existsSync(filePath)) return empty;
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<SyncFile>;
+    return {
+      version: 1,
+      deliveries: Array.isArray(parsed?.deliveries) ? parsed.deliveries : [],
+      archives: Array.isArray(parsed?.archives) ? parsed.archives : [],
+      lastRun: parsed?.lastRun ?? null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function saveSyncFile(filePath: string, body: SyncFile): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(body, null, 2), "utf8");
+  renameSync(temp, filePath);
+}
+
+function baseName(devicePath: string): string {
+  return devicePath.split("/").pop()?.toLowerCase() ?? "";
+}
+
+/** Scales a device page onto the archive's pages; split spreads make XTC files longer than the source. */
+export function mapDevicePage(devicePage: number, xtcPageCount: number | null, archivePageCount: number): number {
+  const pages = Math.max(1, archivePageCount || 1);
+  if (!xtcPageCount || xtcPageCount <= 0) return Math.min(pages, Math.max(1, devicePage));
+  if (devicePage >= xtcPageCount) return pages;
+  return Math.min(pages, Math.max(1, Math.round((devicePage / xtcPageCount) * pages)));
+}
+
+export function createReadingSyncManager(input: {
+  filePath: string;
+  lanraragi: LanraragiConnectionManager;
+  device: DeviceConnectionManager;
+  policy: ReadingSyncPolicy;
+  intervalMinutes: number;
+}): ReadingSyncManager {
+  const state = loadSyncFile(input.filePath);
+  const stateKey = (baseUrl: string, archiveId: string) => `${baseUrl} ${archiveId}`;
+  const defaultBaseUrl = input.device.getSettings().baseUrl;
+  const archiveStates = new Map(
+    state.archives.map((entry) => [stateKey(entry.baseUrl ?? defaultBaseUrl, entry.archiveId), entry]),
+  );
+  let inFlight: Promise<ReadingSyncRun> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const persist = () => {
+    state.archives = Array.from(archiveStates.values());
+    saveSyncFile(input.filePath, state);
+  };
+
+  const deliveredTo = (delivery: DeliveredFile, target: SavedDevice) => {
+    if (delivery.via === "opds") return true;
+    return delivery.baseUrl ? delivery.baseUrl === target.baseUrl : target.isDefault;
+  };
+
+  // Device files worth checking: every upload to this device we know the folder of, plus recently opened files
+  // whose name matches something we delivered (covers OPDS downloads into whatever folder the reader chose).
+  const collectCandidates = (target: SavedDevice, recent: string[]) => {
+    const deliveries = state.deliveries.filter((delivery) => deliveredTo(delivery, target));
+    const candidates = new Map<string, DeliveredFile>();
+    for (const delivery of deliveries) {
+      if (delivery.devicePath === null) continue;
+      candidates.set(normalizeDevicePath(`${delivery.devicePath}/${delivery.fileName}`), delivery);
+    }
+
+    const byName = new Map<string, DeliveredFile>();
+    for (const delivery of deliveries) {
+      byName.set(delivery.fileName.toLowerCase(), delivery);
+    }
+    const unmapped: string[] = [];
+    for (const recentPath of recent) {
+      if (candidates.has(recentPath)) continue;
+      const delivery = byName.get(baseName(recentPath));
+      if (delivery) {
+        candidates.set(recentPath, delivery);
+      } else if (/\.xtch?$/i.test(recentPath)) {
+        unmapped.push(recentPath);
+      }
+    }
+    return { candidates, unmapped };
+  };
+
+  const syncOne = async (
+    target: SavedDevice,
+    client: XteinkClient,
+    devicePath: string,
+    delivery: DeliveredFile,
+  ): Promise<ReadingSyncOutcome | null> => {
+    const progress = await client.getReadingProgress(devicePath);
+    if (!progress) return null;
+
+    const devicePage = progress.pageIndex + 1;
+    const lrr = input.lanraragi.getClient();
+    const metadata = await lrr.getArchiveMetadata(delivery.archiveId);
+    const previousPage = Number(metadata.progress) || 0;
+    const targetPage = mapDevicePage(devicePage, delivery.pageCount, Number(metadata.pagecount) || 0);
+    const outcome: ReadingSyncOutcome = {
+      archiveId: delivery.archiveId,
+      device: target.name,
+      devicePath,
+      devicePage,
+      xtcPageCount: delivery.pageCount,
+      targetPage,
+      previousPage,
+      action: "unchanged",
+      reason: null,
+    };
+
+    const key = stateKey(target.baseUrl, delivery.archiveId);
+    const known = archiveStates.get(key);
+    if (known && known.devicePage === devicePage) {
+      outcome.reason = "device page unchanged since last sync";
+      return outcome;
+    }
+    if (targetPage === previousPage) {
+      outcome.reason = "already in sync";
+    } else if (input.policy === "furthest" && targetPage < previousPage) {
+      outcome.reason = "LANraragi is further ahead";
+    } else if (
+      input.policy === "lanraragi" &&
+      (known ? Number(metadata.lastreadtime) * 1000 > known.syncedAt : previousPage > targetPage)
+    ) {
+      outcome.action = "conflict";
+      outcome.reason = "read in LANraragi since the last sync";
+    } else {
+      await lrr.updateProgress(delivery.archiveId, targetPage);
+      outcome.action = "pushed";
+    }
+
+    archiveStates.set(key, {
+      archiveId: delivery.archiveId,
+      baseUrl: target.baseUrl,
+      devicePage,
+      pushedPage: outcome.action === "pushed" ? targetPage : (known?.pushedPage ?? null),
+      syncedAt: Date.now(),
+    });
+    return outcome;
+  };
+
+  const execute = async (trigger: ReadingSyncRun["trigger"]): Promise<ReadingSyncRun> => {
+    const run: ReadingSyncRun = {
+      trigger,
+      policy: input.policy,
+      startedAt: Date.now(),
+      finishedAt: 0,
+      scanned: 0,
+      pushed: 0,
+      conflicts: 0,
+      failed: 0,
+      unmapped: [],
+      outcomes: [],
+      error: null,
+    };
+
+    // Every saved device is polled; one that is switched off or out of reach does not hold up the others.
+    const errors: string[] = [];
+    for (const target of input.device.list()) {
+      try {
+        const client = new XteinkClient(target.baseUrl);
+        const { candidates, unmapped } = collectCandidates(target, await client.getRecentBooks());
+        run.unmapped.push(...unmapped);
+        for (const [devicePath, delivery] of candidates) {
+          run.scanned += 1;
+          try {
+            const outcome = await syncOne(target, client, devicePath, delivery);
+            if (outcome) run.outcomes.push(outcome);
+          } catch (error) {
+            run.outcomes.push({
+              archiveId: delivery.archiveId,
+              device: target.name,
+              devicePath,
+              devicePage: 0,
+              xtcPageCount: delivery.pageCount,
+              targetPage: 0,
+              previousPage: 0,
+              action: "failed",
+              reason: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${target.name}: ${message}`);
+        logError(`reading sync failed trigger=${trigger} device=${target.baseUrl} error=${message}`);
+      }
+    }
+    run.error = errors.length > 0 ? errors.join("; ") : null;
+
+    run.pushed = run.outcomes.filter((outcome) => outcome.action === "pushed").length;
+    run.conflicts = run.outcomes.filter((outcome) => outcome.action === "conflict").length;
+    run.failed = run.outcomes.filter((outcome) => outcome.action === "failed").length;
+    run.finishedAt = Date.now();
+    state.lastRun = run;
+    persist();
+    logInfo(
+      `reading sync done trigger=${trigger} policy=${input.policy} scanned=${run.scanned} pushed=${run.pushed} conflicts=${run.conflicts} failed=${run.failed} unmapped=${run.unmapped.length}`,
+    );
+    return run;
+  };
+
+  const run = (trigger: ReadingSyncRun["trigger"] = "manual") => {
+    if (!inFlight) {
+      inFlight = execute(trigger).finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
+
+  return {
+    recordDelivery: (delivery) => {
+      const devicePath = delivery.devicePath === null ? null : normalizeDevicePath(delivery.devicePath);
+      state.deliveries = state.deliveries.filter(
+        (item) =>
+          !(
+            item.archiveId === delivery.archiveId &&
+            item.fileName === delivery.fileName &&
+            item.devicePath === devicePath &&
+            (item.baseUrl ?? null) === delivery.baseUrl
+          ),
+      );
+      state.deliveries.push({ ...delivery, devicePath, deliveredAt: Date.now() });
+      state.deliveries = state.deliveries.slice(-MAX_DELIVERIES);
+      persist();
+    },
+    status: () => ({
+      policy: input.policy,
+      intervalMinutes: input.intervalMinutes,
+      running: inFlight !== null,
+      deliveries: state.deliveries.length,
+      lastRun: state.lastRun,
+    }),
+    run,
+    start: () => {
+      if (timer || input.intervalMinutes <= 0) return;
+      timer = setInterval(() => {
+        void run("schedule");
+      }, input.intervalMinutes * 60 * 1000);
+      timer.unref?.();
+      logInfo(`reading sync scheduled every ${input.intervalMinutes} min policy=${input.policy}`);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
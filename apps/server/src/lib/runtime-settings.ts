@@ -0,0 +1,190 @@
+import type { AppConfig } from "./config";
+import type { DeviceConnectionManager, SavedDevice } from "./device-connection";
+import {
+  isValidSourceId,
+  normalizeLanraragiBaseUrl,
+  type LanraragiConnectionManager,
+  type LanraragiSettingsPublic,
+  type SettingsPrecedence,
+  type SettingsSource,
+} from "./lanraragi-connection";
+import { PRIMARY_SOURCE_ID } from "./lanraragi-library";
+import type { ConversionProfile, ProfileManager } from "./profiles";
+import { normalizeDeviceBaseUrl, normalizeDevicePath } from "./xteink-client";
+import type { ConversionSettings } from "../types";
+
+export type RuntimeSettingsOverview = {
+  precedence: SettingsPrecedence;
+  files: { lanraragi: string; devices: string; profiles: string };
+  lanraragi: LanraragiSettingsPublic;
+  device: { baseUrl: string; path: string; source: SettingsSource; savedDevices: number };
+  conversion: { defaultProfileId: string; defaultProfileName: string; profiles: number };
+};
+
+// Backups hold everything the UI can change about connections, devices and conversion defaults.
+export type SettingsSnapshot = {
+  version: 1;
+  exportedAt: string;
+  lanraragi: {
+    name: string;
+    baseUrl: string;
+    apiKey?: string;
+    sources: Array<{ id: string; name: string; baseUrl: string; apiKey?: string }>;
+  };
+  devices: SavedDevice[];
+  profiles: ConversionProfile[];
+};
+
+export type SettingsImport = {
+  lanraragi?: {
+    name?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    sources?: Array<{ id: string; name: string; baseUrl: string; apiKey?: string }>;
+  };
+  devices?: Array<
+    Pick<SavedDevice, "id" | "name" | "baseUrl"> &
+      Partial<Pick<SavedDevice, "path" | "profileId" | "orientation" | "isDefault">>
+  >;
+  profiles?: Array<
+    Pick<ConversionProfile, "id" | "name"> & { isDefault?: boolean; settings?: Partial<ConversionSettings> }
+  >;
+};
+
+export type SettingsImportResult =
+  | { ok: true; lanraragi: boolean; devices: number; profiles: number }
+  | { ok: false; conflicts: string[] };
+
+export type RuntimeSettings = {
+  describe: () => RuntimeSettingsOverview;
+  // LANraragi API keys are only included on request.
+  exportSnapshot: (options: { includeSecrets: boolean }) => SettingsSnapshot;
+  // Merges by id; checks addresses, names and profile references first, so a conflicting import changes nothing.
+  importSnapshot: (snapshot: SettingsImport) => SettingsImportResult;
+};
+
+export function createRuntimeSettings(input: {
+  config: AppConfig;
+  lanraragi: LanraragiConnectionManager;
+  device: DeviceConnectionManager;
+  profiles: ProfileManager;
+}): RuntimeSettings {
+  const { config, lanraragi, device, profiles } = input;
+
+  const findConflicts = (snapshot: SettingsImport): string[] => {
+    const conflicts: string[] = [];
+    const profileIds = new Set(profiles.list().map((profile) => profile.id));
+    type Named = { id: string; name: string };
+    const checkNames = (kind: string, incoming: Named[], existing: Named[]) => {
+      const seen = new Map<string, string>();
+      for (const item of incoming) {
+        const key = item.name.trim().toLowerCase();
+        if (seen.has(key) && seen.get(key) !== item.id) conflicts.push(`${kind} name "${item.name}" appears twice`);
+        seen.set(key, item.id);
+      }
+      const incomingIds = new Set(incoming.map((item) => item.id));
+      for (const item of existing) {
+        if (incomingIds.has(item.id)) continue;
+        const clash = seen.get(item.name.trim().toLowerCase());
+        if (clash) conflicts.push(`${kind} name "${item.name}" is already used by ${kind} ${item.id}`);
+      }
+    };
+
+    checkNames("profile", snapshot.profiles ?? [], profiles.list());
+    checkNames("device", snapshot.devices ?? [], device.list());
+    const incomingSources = snapshot.lanraragi?.sources ?? [];
+    const primarySource = lanraragi.findSource(PRIMARY_SOURCE_ID);
+    checkNames(
+      "source",
+      [
+        ...(primarySource ? [{ id: PRIMARY_SOURCE_ID, name: snapshot.lanraragi?.name ?? primarySource.name }] : []),
+        ...incomingSources,
+      ],
+      lanraragi.listSources(),
+    );
+    for (const profile of snapshot.profiles ?? []) profileIds.add(profile.id);
+    const isValid = (check: () => unknown) => {
+      try {
+        check();
+        return true;
+      } catch {
+        return false;
+      }
+    };
+    if (snapshot.lanraragi?.baseUrl && !isValid(() => normalizeLanraragiBaseUrl(snapshot.lanraragi?.baseUrl ?? ""))) {
+      conflicts.push(`LANraragi address "${snapshot.lanraragi.baseUrl}" is invalid`);
+    }
+    for (const item of incomingSources) {
+      if (!isValidSourceId(item.id) || item.id === PRIMARY_SOURCE_ID) {
+        conflicts.push(`LANraragi source id "${item.id}" is invalid`);
+      }
+      if (!isValid(() => normalizeLanraragiBaseUrl(item.baseUrl))) {
+        conflicts.push(`LANraragi source "${item.name}" has an invalid address`);
+      }
+    }
+    for (const item of snapshot.devices ?? []) {
+      if (!isValid(() => normalizeDeviceBaseUrl(item.baseUrl)) || !isValid(() => normalizeDevicePath(item.path ?? "/"))) {
+        conflicts.push(`device "${item.name}" has an invalid address or path`);
+      }
+      if (item.profileId && !profileIds.has(item.profileId)) {
+        conflicts.push(`device "${item.name}" prefers unknown profile ${item.profileId}`);
+      }
+    }
+    return conflicts;
+  };
+
+  return {
+    describe: () => {
+      const defaults = device.getSettings();
+      const defaultProfile = profiles.getDefault();
+      return {
+        precedence: config.SETTINGS_PRECEDENCE,
+        files: {
+          lanraragi: config.lanraragiSettingsFileAbsolute,
+          devices: config.deviceSettingsFileAbsolute,
+          profiles: config.profilesFileAbsolute,
+        },
+        lanraragi: lanraragi.getSettings(),
+        device: { ...defaults, source: device.getSource(), savedDevices: device.list().length },
+        conversion: {
+          defaultProfileId: defaultProfile.id,
+          defaultProfileName: defaultProfile.name,
+          profiles: profiles.list().length,
+        },
+      };
+    },
+    exportSnapshot: ({ includeSecrets }) => {
+      const connection = lanraragi.getConnection();
+      return {
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        lanraragi: {
+          name: connection.name,
+          baseUrl: connection.baseUrl,
+          ...(includeSecrets ? { apiKey: connection.apiKey } : {}),
+          sources: connection.sources.map(({ apiKey, ...source }) => (includeSecrets ? { ...source, apiKey } : source)),
+        },
+        devices: device.list(),
+        profiles: profiles.list(),
+      };
+    },
+    importSnapshot: (snapshot) => {
+      const conflicts = findConflicts(snapshot);
+      if (conflicts.length > 0) return { ok: false, conflicts };
+
+      // Profiles go first so devices can refer to them.
+      const profileCount = snapshot.profiles?.length ? profiles.importProfiles(snapshot.profiles) : 0;
+      const deviceCount = snapshot.devices?.length ? device.importDevices(snapshot.devices) : 0;
+      const imported = snapshot.lanraragi;
+      const hasLanraragi = Boolean(
+        imported && (imported.name || imported.baseUrl || imported.apiKey !== undefined || imported.sources?.length),
+      );
+      if (imported?.baseUrl || imported?.apiKey !== undefined) {
+        lanraragi.updateSettings({ baseUrl: imported.baseUrl, apiKey: imported.apiKey });
+      }
+      if (imported?.name) lanraragi.updateSource(PRIMARY_SOURCE_ID, { name: imported.name });
+      if (imported?.sources?.length) lanraragi.importSources(imported.sources);
+      return { ok: true, lanraragi: hasLanraragi, devices: deviceCount, profiles: profileCount };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+export type SecretBox = {
+  seal: (plain: string) => string;
+  // Null when the value was sealed with another key or is not a sealed value at all.
+  open: (sealed: string) => string | null;
+};
+
+const SEALED_PREFIX = "enc:v1:";
+
+// SETTINGS_SECRET wins; otherwise a random key is generated once next to the runtime files.
+function loadKey(secret: string, keyFilePath: string): Buffer {
+  if (secret) return createHash("sha256").update(secret).digest();
+  if (existsSync(keyFilePath)) {
+    const stored = Buffer.from(readFileSync(keyFilePath, "utf8").trim(), "base64");
+    if (stored.length === 32) return stored;
+  }
+  const key = randomBytes(32);
+  mkdirSync(path.dirname(keyFilePath), { recursive: true });
+  writeFileSync(keyFilePath, key.toString("base64"), { encoding: "utf8", mode: 0o600 });
+  return key;
+}
+
+/** AES-256-GCM for secrets in runtime files, so backups and copies of them do not leak API keys. */
+export function createSecretBox(input: { secret: string; keyFilePath: string }): SecretBox {
+  let key: Buffer | null = null;
+  const getKey = () => {
+    key ??= loadKey(input.secret, input.keyFilePath);
+    return key;
+  };
+
+  return {
+    seal: (plain) => {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+      const body = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+      return `${SEALED_PREFIX}${[iv, cipher.getAuthTag(), body].map((part) => part.toString("base64")).join(":")}`;
+    },
+    open: (sealed) => {
+      if (!sealed.startsWith(SEALED_PREFIX)) return null;
+      const [iv, tag, body] = sealed
+        .slice(SEALED_PREFIX.length)
+        .split(":")
+        .map((part) => Buffer.from(part, "base64"));
+      if (!iv || !tag || !body) return null;
+      try {
+        const decipher = createDecipheriv("aes-256-gcm", getKey(), iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(body), decipher.final()]).toString("utf8");
+      } catch {
+        return null;
+      }
+    },
+  };
+}
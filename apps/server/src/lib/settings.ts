@@ -1,9 +1,11 @@
+import { createHash } from "node:crypto";
 import type { ConversionSettings } from "../types";
 
 export const defaultConversionSettings: ConversionSettings = {
   orientation: "landscape",
   splitMode: "overlap",
   noDither: false,
+  colorDepth: "1bit",
   overlap: true,
   splitSpreads: "",
   splitAll: false,
@@ -26,6 +28,12 @@ export const defaultConversionSettings: ConversionSettings = {
   sampleSet: "",
 };
 
+export function hashConversionSettings(settings: ConversionSettings): string {
+  const keys = Object.keys(settings).sort() as Array<keyof ConversionSettings>;
+  const canonical = JSON.stringify(keys.map((key) => [key, settings[key] ?? null]));
+  return createHash("sha256").update(canonical).digest("hex").slice(0, 16);
+}
+
 function hasValue(value: string | null | undefined): value is string {
   return typeof value === "string" && value.trim().length > 0;
 }
@@ -37,6 +45,7 @@ export function settingsToCbz2xtcArgs(settings: ConversionSettings): string[] {
 
   if (effectiveOverlap) args.push("--overlap");
   if (settings.noDither) args.push("--no-dither");
+  if (settings.colorDepth === "2bit") args.push("--2bit");
   if (settings.splitAll) args.push("--split-all");
   if (settings.includeOverviews) args.push("--include-overviews");
   if (settings.sidewaysOverviews) args.push("--sideways-overviews");
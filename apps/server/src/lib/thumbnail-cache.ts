@@ -0,0 +1,416 @@
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import pLimit from "p-limit";
+import { z } from "zod";
+import type { AppConfig } from "./config";
+import type { LanraragiApi } from "./lanraragi-client";
+import { logError, logInfo } from "./logger";
+import { UpstreamNotFoundError, UpstreamUnavailableError } from "./upstream";
+
+// `original` is LANraragi's thumbnail as-is; the others are grayscale renditions sized for the X4's OPDS browser.
+export const THUMBNAIL_VARIANTS = ["original", "gray", "dither", "cover"] as const;
+export type ThumbnailVariant = (typeof THUMBNAIL_VARIANTS)[number];
+
+export const thumbnailQuerySchema = z.object({
+  variant: z.enum(THUMBNAIL_VARIANTS).default("original"),
+});
+
+// Bounding box for `gray`/`dither`; `cover` fills it exactly.
+export const THUMBNAIL_VARIANT_WIDTH = 160;
+export const THUMBNAIL_VARIANT_HEIGHT = 240;
+
+export type ThumbnailCacheEntry = {
+  key: string;
+  archiveId: string;
+  contentType: string;
+  // Hash of LANraragi's bytes; a new hash means LANraragi regenerated the thumbnail.
+  hash: string;
+  fileSize: number;
+  variants: Partial<Record<Exclude<ThumbnailVariant, "original">, number>>;
+  changedAt: string;
+  checkedAt: string;
+  lastAccessAt: string;
+};
+
+export type CachedThumbnail = {
+  body: Buffer;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+};
+
+export type ThumbnailCacheStats = {
+  directory: string;
+  maxBytes: number;
+  revalidateMs: number;
+  totalBytes: number;
+  entries: number;
+};
+
+export type ThumbnailCache = {
+  get: (lrr: LanraragiApi, archiveId: string, variant: ThumbnailVariant) => Promise<CachedThumbnail>;
+  stats: () => Promise<ThumbnailCacheStats>;
+  purge: (filter?: { archiveId?: string }) => Promise<number>;
+};
+
+const ENTRY_SUFFIX = ".json";
+// Persisting every access would write a file per thumbnail request; LRU order only needs to be rough.
+const ACCESS_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+const VARIANT_SCRIPT = `
+import sys
+from PIL import Image, ImageOps
+
+src, dst, variant = sys.argv[1], sys.argv[2], sys.argv[3]
+width, height = int(sys.argv[4]), int(sys.argv[5])
+
+with Image.open(src) as im:
+    im = ImageOps.exif_transpose(im)
+    if im.mode in ("RGBA", "LA") or (im.mode == "P" and "transparency" in im.info):
+        rgba = im.convert("RGBA")
+        bg = Image.new("RGB", rgba.size, (255, 255, 255))
+        bg.paste(rgba, mask=rgba.split()[-1])
+        im = bg
+    gray = im.convert("L")
+    if variant == "cover":
+        w, h = gray.size
+        if w * height > h * width:
+            # Wide thumbnails are usually spreads or full jacket scans; the front cover is the right-hand part.
+            crop_w = max(1, round(h * width / height))
+            gray = gray.crop((w - crop_w, 0, w, h))
+        gray = ImageOps.fit(gray, (width, height), Image.LANCZOS, centering=(0.5, 0.0))
+    else:
+        gray.thumbnail((width, height), Image.LANCZOS)
+    gray = ImageOps.autocontrast(gray, cutoff=1)
+    if variant == "dither":
+        gray.convert("1").save(dst, format="PNG", optimize=True)
+    else:
+        gray.save(dst, format="JPEG", quality=85, optimize=True)
+`;
+
+export function thumbnailContentType(variant: ThumbnailVariant): string {
+  return variant === "dither" ? "image/png" : "image/jpeg";
+}
+
+function matchesEtag(header: string, etag: string): boolean {
+  return header
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === "*" || value === etag);
+}
+
+// Conditional GET check; If-None-Match wins over If-Modified-Since as in RFC 9110.
+function isThumbnailNotModified(
+  headers: { ifNoneMatch?: string; ifModifiedSince?: string },
+  thumbnail: CachedThumbnail,
+): boolean {
+  if (headers.ifNoneMatch) return matchesEtag(headers.ifNoneMatch, thumbnail.etag);
+  if (!headers.ifModifiedSince) return false;
+  const since = Date.parse(headers.ifModifiedSince);
+  return Number.isFinite(since) && Math.floor(thumbnail.lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+/** 200 with caching headers, or 304 when the request's validators still match. Private: both routes sit behind auth. */
+export function thumbnailResponse(
+  thumbnail: CachedThumbnail,
+  request: { ifNoneMatch?: string; ifModifiedSince?: string },
+): Response {
+  const headers = {
+    etag: thumbnail.etag,
+    "last-modified": thumbnail.lastModified.toUTCString(),
+    "cache-control": "private, max-age=300",
+  };
+  if (isThumbnailNotModified(request, thumbnail)) return new Response(null, { status: 304, headers });
+  return new Response(new Uint8Array(thumbnail.body), {
+    status: 200,
+    headers: { ...headers, "content-type": thumbnail.contentType },
+  });
+}
+
+function renderVariant(params: {
+  pythonBin: string;
+  source: string;
+  target: string;
+  variant: ThumbnailVariant;
+}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(
+      params.pythonBin,
+      [
+        "-c",
+        VARIANT_SCRIPT,
+        params.source,
+        params.target,
+        params.variant,
+        String(THUMBNAIL_VARIANT_WIDTH),
+        String(THUMBNAIL_VARIANT_HEIGHT),
+      ],
+      { stdio: ["ignore", "ignore", "pipe"] },
+    );
+    let stderr = "";
+    proc.stderr.on("data", (chunk) => {
+      stderr += chunk.toString();
+    });
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      reject(new Error(`Thumbnail ${params.variant} rendering failed with exit code ${code}: ${stderr.slice(-500)}`));
+    });
+  });
+}
+
+export function createThumbnailCache(config: AppConfig): ThumbnailCache {
+  const directory = config.thumbnailCacheDirAbsolute;
+  const maxBytes = config.THUMBNAIL_CACHE_MAX_MB * 1024 * 1024;
+  const revalidateMs = config.THUMBNAIL_CACHE_REVALIDATE_MINUTES * 60 * 1000;
+  // Feeds ask for a page of thumbnails at once; keep PIL from taking over the box.
+  const renderLimit = pLimit(2);
+  const locks = new Map<string, Promise<unknown>>();
+  let index: Promise<Map<string, ThumbnailCacheEntry>> | null = null;
+
+  const buildKey = (archiveId: string) => createHash("sha256").update(archiveId).digest("hex").slice(0, 32);
+  const entryPath = (key: string) => path.join(directory, `${key}${ENTRY_SUFFIX}`);
+  const imagePath = (key: string, variant: ThumbnailVariant) => path.join(directory, `${key}.${variant}`);
+
+  const loadIndex = async (): Promise<Map<string, ThumbnailCacheEntry>> => {
+    const entries = new Map<string, ThumbnailCacheEntry>();
+    let names: string[];
+    try {
+      names = await readdir(directory);
+    } catch {
+      return entries;
+    }
+    for (const name of names) {
+      if (!name.endsWith(ENTRY_SUFFIX)) continue;
+      try {
+        const parsed = JSON.parse(await readFile(path.join(directory, name), "utf8")) as ThumbnailCacheEntry;
+        if (parsed && typeof parsed === "object" && `${parsed.key}${ENTRY_SUFFIX}` === name) {
+          entries.set(parsed.key, parsed);
+        }
+      } catch {
+        // A half-written entry is dropped; its images are overwritten on the next fetch.
+      }
+    }
+    return entries;
+  };
+
+  const getIndex = () => {
+    index ??= loadIndex();
+    return index;
+  };
+
+  // One operation per archive at a time, so a refresh never swaps the original under a running render.
+  const withLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(key) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    locks.set(key, settled);
+    void settled.then(() => {
+      if (locks.get(key) === settled) locks.delete(key);
+    });
+    return run;
+  };
+
+  const writeAtomic = async (target: string, data: string | Buffer) => {
+    const temp = `${target}.tmp`;
+    await writeFile(temp, data);
+    await rename(temp, target);
+  };
+
+  const writeEntry = (entry: ThumbnailCacheEntry) => writeAtomic(entryPath(entry.key), JSON.stringify(entry, null, 2));
+
+  const removeVariants = async (entry: ThumbnailCacheEntry) => {
+    for (const variant of Object.keys(entry.variants) as Array<keyof ThumbnailCacheEntry["variants"]>) {
+      await rm(imagePath(entry.key, variant), { force: true });
+    }
+  };
+
+  const removeEntry = async (entries: Map<string, ThumbnailCacheEntry>, entry: ThumbnailCacheEntry) => {
+    entries.delete(entry.key);
+    await removeVariants(entry);
+    await rm(imagePath(entry.key, "original"), { force: true });
+    await rm(entryPath(entry.key), { force: true });
+  };
+
+  const entrySize = (entry: ThumbnailCacheEntry) =>
+    entry.fileSize + Object.values(entry.variants).reduce((sum, size) => sum + (size ?? 0), 0);
+
+  // Least recently used archives go first. Archives with an operation in flight (including the one just
+  // written) are skipped, so a request never loses the files it is about to serve.
+  const evict = async (entries: Map<string, ThumbnailCacheEntry>) => {
+    let totalBytes = 0;
+    for (const entry of entries.values()) totalBytes += entrySize(entry);
+    if (totalBytes <= maxBytes) return;
+    const candidates = [...entries.values()].sort(
+      (a, b) => new Date(a.lastAccessAt).getTime() - new Date(b.lastAccessAt).getTime(),
+    );
+    for (const candidate of candidates) {
+      if (totalBytes <= maxBytes) break;
+      if (locks.has(candidate.key)) continue;
+      const victim = entries.get(candidate.key);
+      if (!victim) continue;
+      totalBytes -= entrySize(victim);
+      await withLock(victim.key, () => removeEntry(entries, victim));
+      logInfo(`thumbnail cache evict id=${victim.archiveId} reason=size`);
+    }
+  };
+
+  const fetchOriginal = async (lrr: LanraragiApi, archiveId: string) => {
+    const response = await lrr.getArchiveThumbnail(archiveId);
+    const contentType = (response.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+    const body = Buffer.from(await response.arrayBuffer());
+    // Newer LANraragi versions answer with a JSON job while a thumbnail is still being generated.
+    if (!contentType.startsWith("image/") || body.length === 0) {
+      throw new UpstreamUnavailableError(`LANraragi has no thumbnail for ${archiveId} yet (${contentType || "empty"})`);
+    }
+    return { contentType, body, hash: createHash("sha256").update(body).digest("hex").slice(0, 16) };
+  };
+
+  // Returns the entry with an up-to-date original, fetching from LANraragi when missing or due for a check.
+  const refresh = async (
+    lrr: LanraragiApi,
+    entries: Map<string, ThumbnailCacheEntry>,
+    key: string,
+    archiveId: string,
+  ): Promise<ThumbnailCacheEntry> => {
+    const existing = entries.get(key);
+    const now = Date.now();
+    if (existing && now - new Date(existing.checkedAt).getTime() < revalidateMs) return existing;
+
+    let fetched: Awaited<ReturnType<typeof fetchOriginal>>;
+    try {
+      fetched = await fetchOriginal(lrr, archiveId);
+    } catch (error) {
+      if (error instanceof UpstreamNotFoundError && existing) {
+        await removeEntry(entries, existing);
+        logInfo(`thumbnail cache drop id=${archiveId} reason=not-found`);
+      }
+      if (!existing || error instanceof UpstreamNotFoundError) throw error;
+      // Better a thumbnail that may be outdated than none while LANraragi is unreachable.
+      logError(
+        `thumbnail cache revalidate failed id=${archiveId} serving=stale ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return existing;
+    }
+
+    await mkdir(directory, { recursive: true });
+    const stamp = new Date(now).toISOString();
+    if (existing && existing.hash === fetched.hash) {
+      const entry = { ...existing, checkedAt: stamp, lastAccessAt: stamp };
+      entries.set(key, entry);
+      await writeEntry(entry);
+      return entry;
+    }
+
+    if (existing) {
+      await removeVariants(existing);
+      logInfo(`thumbnail cache refresh id=${archiveId} reason=changed`);
+    }
+    await writeAtomic(imagePath(key, "original"), fetched.body);
+    const entry: ThumbnailCacheEntry = {
+      key,
+      archiveId,
+      contentType: fetched.contentType,
+      hash: fetched.hash,
+      fileSize: fetched.body.length,
+      variants: {},
+      changedAt: stamp,
+      checkedAt: stamp,
+      lastAccessAt: stamp,
+    };
+    entries.set(key, entry);
+    await writeEntry(entry);
+    await evict(entries);
+    return entry;
+  };
+
+  const ensureVariant = async (
+    entries: Map<string, ThumbnailCacheEntry>,
+    entry: ThumbnailCacheEntry,
+    variant: Exclude<ThumbnailVariant, "original">,
+  ): Promise<ThumbnailCacheEntry> => {
+    if (entry.variants[variant] !== undefined) return entry;
+    const target = imagePath(entry.key, variant);
+    const temp = `${target}.tmp`;
+    await renderLimit(() =>
+      renderVariant({ pythonBin: config.PYTHON_BIN, source: imagePath(entry.key, "original"), target: temp, variant }),
+    );
+    await rename(temp, target);
+    const size = (await readFile(target)).length;
+    const updated = { ...entry, variants: { ...entry.variants, [variant]: size } };
+    entries.set(entry.key, updated);
+    await writeEntry(updated);
+    await evict(entries);
+    return updated;
+  };
+
+  return {
+    get: async (lrr, archiveId, variant) => {
+      const key = buildKey(archiveId);
+      return withLock(key, async () => {
+        const entries = await getIndex();
+        let entry = await refresh(lrr, entries, key, archiveId);
+        let served: ThumbnailVariant = variant;
+        if (variant !== "original") {
+          try {
+            entry = await ensureVariant(entries, entry, variant);
+          } catch (error) {
+            // Without PIL the feed still gets a thumbnail, just not an e-ink friendly one.
+            logError(
+              `thumbnail variant failed id=${archiveId} variant=${variant} ${error instanceof Error ? error.message : String(error)}`,
+            );
+            served = "original";
+          }
+        }
+
+        const body = await readFile(imagePath(key, served)).catch(() => null);
+        if (!body) {
+          // Files removed behind our back; forget the entry so the next request starts over.
+          await removeEntry(entries, entry);
+          throw new Error(`Cached thumbnail for ${archiveId} is missing`);
+        }
+
+        const now = Date.now();
+        if (now - new Date(entry.lastAccessAt).getTime() > ACCESS_WRITE_INTERVAL_MS) {
+          entry = { ...entry, lastAccessAt: new Date(now).toISOString() };
+          entries.set(key, entry);
+          await writeEntry(entry).catch(() => undefined);
+        }
+
+        return {
+          body,
+          contentType: served === "original" ? entry.contentType : thumbnailContentType(served),
+          etag: `"${entry.hash}-${served}"`,
+          lastModified: new Date(entry.changedAt),
+        };
+      });
+    },
+    stats: async () => {
+      const entries = await getIndex();
+      let totalBytes = 0;
+      for (const entry of entries.values()) totalBytes += entrySize(entry);
+      return { directory, maxBytes, revalidateMs, totalBytes, entries: entries.size };
+    },
+    purge: async (filter) => {
+      const entries = await getIndex();
+      let removed = 0;
+      for (const entry of [...entries.values()]) {
+        if (filter?.archiveId && entry.archiveId !== filter.archiveId) continue;
+        await withLock(entry.key, async () => {
+          const current = entries.get(entry.key);
+          if (current) await removeEntry(entries, current);
+        });
+        removed += 1;
+      }
+      if (removed > 0) {
+        logInfo(`thumbnail cache purge removed=${removed}`);
+      }
+      return removed;
+    },
+  };
+}
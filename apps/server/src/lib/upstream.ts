@@ -0,0 +1,213 @@
+import { logError, logInfo } from "./logger";
+
+// Errors from services the bridge depends on. `status` is what our own routes answer with (see app.onError).
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 404 | 502,
+    readonly upstreamStatus: number | null = null,
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+export class UpstreamNotFoundError extends UpstreamError {
+  constructor(message: string) {
+    super(message, 404, 404);
+    this.name = "UpstreamNotFoundError";
+  }
+}
+
+// LANraragi rejected the API key; not a sign-in problem with the bridge itself.
+export class UpstreamUnauthorizedError extends UpstreamError {
+  constructor(message: string, upstreamStatus: number) {
+    super(message, 401, upstreamStatus);
+    this.name = "UpstreamUnauthorizedError";
+  }
+}
+
+// Network failures, timeouts, 5xx answers and an open circuit.
+export class UpstreamUnavailableError extends UpstreamError {
+  constructor(message: string, upstreamStatus: number | null = null) {
+    super(message, 502, upstreamStatus);
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+export type RetryPolicy = {
+  // Extra attempts after the first one.
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+};
+
+export type UpstreamCallPolicy = RetryPolicy & {
+  // Time allowed until response headers arrive; bodies are streamed without a deadline.
+  timeoutMs: number;
+};
+
+export type CircuitBreaker = {
+  // Throws UpstreamUnavailableError while open.
+  check: () => void;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+  state: () => "closed" | "open" | "half-open";
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function isRetryableUpstreamError(error: unknown): boolean {
+  return error instanceof UpstreamUnavailableError;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs ?? 10_000);
+  // Up to 25% jitter so parallel page fetches do not retry in lockstep.
+  return Math.round(capped * (1 + Math.random() * 0.25));
+}
+
+/** Runs `task` until it succeeds, `shouldRetry` says no, the attempts run out or `signal` aborts. */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryPolicy & {
+    shouldRetry?: (error: unknown) => boolean;
+    onRetry?: (error: unknown, nextAttempt: number, delayMs: number) => void;
+    signal?: AbortSignal;
+  },
+): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isRetryableUpstreamError;
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (options.signal?.aborted || attempt > options.retries || !shouldRetry(error)) throw error;
+      const delayMs = backoffDelay(options, attempt);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+      if (options.signal?.aborted) throw error;
+    }
+  }
+}
+
+/**
+ * Opens after `threshold` consecutive failed attempts and fails fast for `cooldownMs`; then one call is let
+ * through and its outcome closes or re-opens the circuit.
+ */
+export function createCircuitBreaker(input: { name: string; threshold: number; cooldownMs: number }): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  // A trial that never reports back (its caller aborted) expires after another cooldown.
+  let trialAt: number | null = null;
+
+  const state = (): "closed" | "open" | "half-open" => {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt >= input.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    check: () => {
+      const current = state();
+      if (current === "closed") return;
+      if (current === "half-open" && (trialAt === null || Date.now() - trialAt >= input.cooldownMs)) {
+        trialAt = Date.now();
+        return;
+      }
+      const retryInMs = openedAt === null ? input.cooldownMs : Math.max(0, input.cooldownMs - (Date.now() - openedAt));
+      throw new UpstreamUnavailableError(
+        `${input.name} is unavailable; requests paused for ${Math.ceil(retryInMs / 1000)}s after repeated failures`,
+      );
+    },
+    recordSuccess: () => {
+      if (openedAt !== null) logInfo(`circuit closed upstream=${input.name}`);
+      failures = 0;
+      openedAt = null;
+      trialAt = null;
+    },
+    recordFailure: () => {
+      failures += 1;
+      trialAt = null;
+      if (openedAt !== null || failures >= input.threshold) {
+        if (openedAt === null) logError(`circuit open upstream=${input.name} failures=${failures}`);
+        openedAt = Date.now();
+      }
+    },
+    state,
+  };
+}
+
+async function describeFailure(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  return text.slice(0, 200);
+}
+
+/**
+ * fetch with a header timeout, retries with exponential backoff for network errors and 5xx answers, and an
+ * optional circuit breaker. Non-2xx answers become typed UpstreamErrors; the caller's signal aborts immediately.
+ */
+export async function upstreamFetch(
+  url: string | URL,
+  init: RequestInit & { signal?: AbortSignal },
+  options: UpstreamCallPolicy & { label: string; breaker?: CircuitBreaker },
+): Promise<Response> {
+  const attemptOnce = async (): Promise<Response> => {
+    options.breaker?.check();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(init.signal?.reason);
+    init.signal?.addEventListener("abort", onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs);
+
+    // The caller's signal stays linked after success so cancelling still stops a streaming body.
+    const unlink = () => init.signal?.removeEventListener("abort", onAbort);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      unlink();
+      if (init.signal?.aborted) throw error;
+      options.breaker?.recordFailure();
+      const reason = timedOut
+        ? `timed out after ${options.timeoutMs} ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      throw new UpstreamUnavailableError(`${options.label} failed: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) {
+      options.breaker?.recordSuccess();
+      return response;
+    }
+    unlink();
+    const detail = await describeFailure(response);
+    const message = `${options.label} failed (${response.status})${detail ? `: ${detail}` : ""}`;
+    if (response.status >= 500 || response.status === 429) {
+      options.breaker?.recordFailure();
+      throw new UpstreamUnavailableError(message, response.status);
+    }
+    // The service answered, so it is up even if the request was wrong.
+    options.breaker?.recordSuccess();
+    if (response.status === 404) throw new UpstreamNotFoundError(message);
+    if (response.status === 401 || response.status === 403) throw new UpstreamUnauthorizedError(message, response.status);
+    throw new UpstreamError(message, 502, response.status);
+  };
+
+  return withRetry(attemptOnce, {
+    ...options,
+    signal: init.signal,
+    // An open circuit should fail fast rather than sleep through the backoff.
+    shouldRetry: (error) => isRetryableUpstreamError(error) && options.breaker?.state() !== "open",
+    onRetry: (error, nextAttempt, delayMs) =>
+      logInfo(
+        `upstream retry label=${JSON.stringify(options.label)} attempt=${nextAttempt}/${options.retries + 1} delay_ms=${delayMs} reason=${(error instanceof Error ? error.message : String(error)).slice(0, 160)}`,
+      ),
+  });
+}
@@ -0,0 +1,491 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { decodePngToGrayscale, type GrayscaleImage } from "./png";
+
+// Layouts follow png2xtc.py: XTC header <4sHHBBBBIQQQQ>, index entry <QIHH>, XTG header <4sHHBBI8s>.
+// 2-bit files use the same layouts with XTCH/XTH magics.
+export const XTC_PAGE_WIDTH = 480;
+export const XTC_PAGE_HEIGHT = 800;
+export const XTC_HEADER_SIZE = 48;
+export const XTC_INDEX_ENTRY_SIZE = 16;
+export const XTG_HEADER_SIZE = 22;
+export const XTG_DEFAULT_THRESHOLD = 200;
+// Part of the conversion cache key: bump it whenever a change here alters the bytes written.
+export const XTC_PACKER_VERSION = 1;
+
+const XTC_MAGIC = Buffer.from("XTC\0", "latin1");
+const XTCH_MAGIC = Buffer.from("XTCH", "latin1");
+const XTG_MAGIC = Buffer.from("XTG\0", "latin1");
+const XTH_MAGIC = Buffer.from("XTH\0", "latin1");
+const XTC_VERSION = 1;
+const XTG_COLOR_MODE = 0;
+const XTH_COLOR_MODE = 1;
+
+// XTH level codes are not ordered by brightness: 0 = white, 1 = dark gray, 2 = light gray, 3 = black.
+const XTH_CODE_BY_LEVEL = [3, 1, 2, 0];
+const XTH_GRAY_BY_CODE = [255, 85, 170, 0];
+
+export type XtcReadDirection = 0 | 1 | 2;
+export type XtcColorDepth = "1bit" | "2bit";
+
+function assertPageSize(image: GrayscaleImage, kind: string): void {
+  if (image.width !== XTC_PAGE_WIDTH || image.height !== XTC_PAGE_HEIGHT) {
+    throw new Error(`${kind} pages must be ${XTC_PAGE_WIDTH}x${XTC_PAGE_HEIGHT}, got ${image.width}x${image.height}`);
+  }
+}
+
+function writePageHeader(blob: Buffer, magic: Buffer, width: number, height: number, colorMode: number): void {
+  const data = blob.subarray(XTG_HEADER_SIZE);
+  magic.copy(blob, 0);
+  blob.writeUInt16LE(width, 4);
+  blob.writeUInt16LE(height, 6);
+  blob.writeUInt8(colorMode, 8);
+  blob.writeUInt8(0, 9); // compression: none
+  blob.writeUInt32LE(data.length, 10);
+  createHash("md5").update(data).digest().copy(blob, 14, 0, 8);
+}
+
+/**
+ * Reduces 8-bit grayscale to `levels` evenly spaced levels (0 = black), with Floyd-Steinberg error
+ * diffusion when `dither` is set and nearest-level rounding otherwise.
+ */
+function quantizeGray(image: GrayscaleImage, levels: number, dither: boolean): Uint8Array {
+  const { width, height } = image;
+  const step = 255 / (levels - 1);
+  const out = new Uint8Array(width * height);
+  const work = dither ? Float32Array.from(image.data) : null;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const i = y * width + x;
+      const value = work ? work[i] : image.data[i];
+      const level = Math.min(levels - 1, Math.max(0, Math.round(value / step)));
+      out[i] = level;
+      if (!work) continue;
+
+      const error = value - level * step;
+      if (x + 1 < width) work[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) work[i + width - 1] += (error * 3) / 16;
+        work[i + width] += (error * 5) / 16;
+        if (x + 1 < width) work[i + width + 1] += error / 16;
+      }
+    }
+  }
+  return out;
+}
+
+/** Packs a 480x800 grayscale page into a 1-bit XTG blob (MSB first, set bit = white). */
+export function encodeXtgPage(image: GrayscaleImage, options?: { threshold?: number }): Buffer {
+  assertPageSize(image, "XTG");
+
+  const threshold = options?.threshold ?? XTG_DEFAULT_THRESHOLD;
+  const { width, height } = image;
+  const rowBytes = (width + 7) >> 3;
+  const blob = Buffer.alloc(XTG_HEADER_SIZE + rowBytes * height);
+  const data = blob.subarray(XTG_HEADER_SIZE);
+
+  for (let y = 0; y < height; y += 1) {
+    const source = y * width;
+    const target = y * rowBytes;
+    for (let x = 0; x < width; x += 1) {
+      if (image.data[source + x] >= threshold) {
+        data[target + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  writePageHeader(blob, XTG_MAGIC, width, height, XTG_COLOR_MODE);
+  return blob;
+}
+
+/**
+ * Packs a 480x800 grayscale page into a 2-bit XTH blob. Each pixel's level code is split across two
+ * bit planes (high bit first); both planes scan columns right to left, 8 vertical pixels per byte.
+ */
+export function encodeXthPage(image: GrayscaleImage, options?: { dither?: boolean }): Buffer {
+  assertPageSize(image, "XTH");
+
+  const { width, height } = image;
+  const levels = quantizeGray(image, 4, options?.dither ?? true);
+  const columnBytes = (height + 7) >> 3;
+  const planeSize = columnBytes * width;
+  const blob = Buffer.alloc(XTG_HEADER_SIZE + planeSize * 2);
+  const data = blob.subarray(XTG_HEADER_SIZE);
+
+  for (let x = 0; x < width; x += 1) {
+    const column = (width - 1 - x) * columnBytes;
+    for (let y = 0; y < height; y += 1) {
+      const code = XTH_CODE_BY_LEVEL[levels[y * width + x]];
+      const bit = 0x80 >> (y & 7);
+      const target = column + (y >> 3);
+      if (code & 2) data[target] |= bit;
+      if (code & 1) data[planeSize + target] |= bit;
+    }
+  }
+
+  writePageHeader(blob, XTH_MAGIC, width, height, XTH_COLOR_MODE);
+  return blob;
+}
+
+/**
+ * Assembles XTG blobs into an XTC container. `thumbnailPage` is 1-based; when set, a copy of that
+ * page is appended after the page data and referenced from the header, as png2xtc.py does.
+ */
+export function buildXtcContainer(
+  pages: Buffer[],
+  options?: { readDirection?: XtcReadDirection; thumbnailPage?: number },
+): Buffer {
+  if (pages.length === 0) {
+    throw new Error("XTC container needs at least one page");
+  }
+  if (pages.length > 0xffff) {
+    throw new Error(`XTC container supports at most 65535 pages, got ${pages.length}`);
+  }
+  const grayscale = pages[0].subarray(0, 4).equals(XTH_MAGIC);
+  const pageMagic = grayscale ? XTH_MAGIC : XTG_MAGIC;
+  if (pages.some((page) => !page.subarray(0, 4).equals(pageMagic))) {
+    throw new Error("XTC container pages must all be XTG or all be XTH");
+  }
+
+  const thumbnailPage = options?.thumbnailPage ?? 0;
+  if (thumbnailPage < 0 || thumbnailPage > pages.length) {
+    throw new Error(`Thumbnail page ${thumbnailPage} is out of range`);
+  }
+
+  const indexOffset = XTC_HEADER_SIZE;
+  const dataOffset = indexOffset + pages.length * XTC_INDEX_ENTRY_SIZE;
+  const index = Buffer.alloc(pages.length * XTC_INDEX_ENTRY_SIZE);
+  let pageOffset = dataOffset;
+  pages.forEach((page, position) => {
+    const entry = position * XTC_INDEX_ENTRY_SIZE;
+    index.writeBigUInt64LE(BigInt(pageOffset), entry);
+    index.writeUInt32LE(page.length, entry + 8);
+    index.writeUInt16LE(page.readUInt16LE(4), entry + 12);
+    index.writeUInt16LE(page.readUInt16LE(6), entry + 14);
+    pageOffset += page.length;
+  });
+
+  const header = Buffer.alloc(XTC_HEADER_SIZE);
+  (grayscale ? XTCH_MAGIC : XTC_MAGIC).copy(header, 0);
+  header.writeUInt16LE(XTC_VERSION, 4);
+  header.writeUInt16LE(pages.length, 6);
+  header.writeUInt8(options?.readDirection ?? 0, 8);
+  header.writeUInt8(0, 9); // hasMetadata
+  header.writeUInt8(thumbnailPage > 0 ? 1 : 0, 10);
+  header.writeUInt8(0, 11); // hasChapters
+  header.writeUInt32LE(0, 12); // currentPage
+  header.writeBigUInt64LE(0n, 16); // metadataOffset
+  header.writeBigUInt64LE(BigInt(indexOffset), 24);
+  header.writeBigUInt64LE(BigInt(dataOffset), 32);
+  header.writeBigUInt64LE(BigInt(thumbnailPage > 0 ? pageOffset : 0), 40);
+
+  const parts = [header, index, ...pages];
+  if (thumbnailPage > 0) {
+    parts.push(pages[thumbnailPage - 1]);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Packs every PNG in `pngDir` (sorted by name, like png2xtc.py) into a single XTC file. `2bit` writes
+ * XTH pages into an XTCH container; `dither` only applies there, since 1-bit pages arrive dithered.
+ * Pages must already be 480x800; any other size fails with the page's file name.
+ */
+export async function packPngFolderToXtc(params: {
+  pngDir: string;
+  outputPath: string;
+  colorDepth?: XtcColorDepth;
+  dither?: boolean;
+  signal?: AbortSignal;
+}): Promise<{ pageCount: number; fileSize: number }> {
+  const names = (await readdir(params.pngDir)).filter((name) => name.toLowerCase().endsWith(".png")).sort();
+  if (names.length === 0) {
+    throw new Error(`No PNG pages found in ${params.pngDir}`);
+  }
+
+  const pages: Buffer[] = [];
+  for (const name of names) {
+    if (params.signal?.aborted) {
+      throw new Error("Conversion cancelled");
+    }
+    const image = await decodePngToGrayscale(await readFile(path.join(params.pngDir, name))).catch((error) => {
+      throw new Error(`Page ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    // png2xtc.py Lanczos-resizes odd sizes; that is not reproduced here, so name the page instead of packing a distorted one.
+    if (image.width !== XTC_PAGE_WIDTH || image.height !== XTC_PAGE_HEIGHT) {
+      throw new Error(
+        `Page ${name} is ${image.width}x${image.height}; the native packer needs ${XTC_PAGE_WIDTH}x${XTC_PAGE_HEIGHT} pages (XTC_PACKER=python resizes them)`,
+      );
+    }
+    pages.push(params.colorDepth === "2bit" ? encodeXthPage(image, { dither: params.dither }) : encodeXtgPage(image));
+  }
+
+  const container = buildXtcContainer(pages);
+  await mkdir(path.dirname(params.outputPath), { recursive: true });
+  await writeFile(params.outputPath, container);
+  return { pageCount: pages.length, fileSize: container.length };
+}
+
+export type XtcHeader = {
+  magic: "XTC" | "XTCH";
+  version: number;
+  pageCount: number;
+  readDirection: number;
+  hasMetadata: boolean;
+  hasThumbnails: boolean;
+  hasChapters: boolean;
+  currentPage: number;
+  metadataOffset: number;
+  indexOffset: number;
+  dataOffset: number;
+  thumbOffset: number;
+};
+
+export type XtcPageInspection = {
+  page: number;
+  offset: number;
+  size: number;
+  width: number;
+  height: number;
+  colorMode: number | null;
+  compression: number | null;
+  dataSize: number | null;
+  md5: string | null;
+  md5Valid: boolean;
+  errors: string[];
+};
+
+export type XtcInspection = {
+  valid: boolean;
+  fileSize: number;
+  header: XtcHeader | null;
+  pages: XtcPageInspection[];
+  errors: string[];
+};
+
+function expectedXtgDataSize(width: number, height: number, colorMode: number): number | null {
+  if (colorMode === XTG_COLOR_MODE) return ((width + 7) >> 3) * height;
+  if (colorMode === XTH_COLOR_MODE) return ((height + 7) >> 3) * width * 2;
+  return null;
+}
+
+function readContainerMagic(buffer: Buffer): XtcHeader["magic"] | null {
+  if (buffer.length < XTC_HEADER_SIZE) return null;
+  const magic = buffer.subarray(0, 4);
+  if (magic.equals(XTC_MAGIC)) return "XTC";
+  if (magic.equals(XTCH_MAGIC)) return "XTCH";
+  return null;
+}
+
+function pageMagicFor(header: XtcHeader): { magic: Buffer; label: string; colorMode: number } {
+  return header.magic === "XTCH"
+    ? { magic: XTH_MAGIC, label: "XTH", colorMode: XTH_COLOR_MODE }
+    : { magic: XTG_MAGIC, label: "XTG", colorMode: XTG_COLOR_MODE };
+}
+
+function readXtcHeader(buffer: Buffer, magic: XtcHeader["magic"]): XtcHeader {
+  return {
+    magic,
+    version: buffer.readUInt16LE(4),
+    pageCount: buffer.readUInt16LE(6),
+    readDirection: buffer.readUInt8(8),
+    hasMetadata: buffer.readUInt8(9) !== 0,
+    hasThumbnails: buffer.readUInt8(10) !== 0,
+    hasChapters: buffer.readUInt8(11) !== 0,
+    currentPage: buffer.readUInt32LE(12),
+    metadataOffset: Number(buffer.readBigUInt64LE(16)),
+    indexOffset: Number(buffer.readBigUInt64LE(24)),
+    dataOffset: Number(buffer.readBigUInt64LE(32)),
+    thumbOffset: Number(buffer.readBigUInt64LE(40)),
+  };
+}
+
+function inspectXtgPage(buffer: Buffer, header: XtcHeader, page: number): XtcPageInspection {
+  const entry = header.indexOffset + (page - 1) * XTC_INDEX_ENTRY_SIZE;
+  const expected = pageMagicFor(header);
+  const offset = Number(buffer.readBigUInt64LE(entry));
+  const result: XtcPageInspection = {
+    page,
+    offset,
+    size: buffer.readUInt32LE(entry + 8),
+    width: buffer.readUInt16LE(entry + 12),
+    height: buffer.readUInt16LE(entry + 14),
+    colorMode: null,
+    compression: null,
+    dataSize: null,
+    md5: null,
+    md5Valid: false,
+    errors: [],
+  };
+
+  if (offset + XTG_HEADER_SIZE > buffer.length || offset + result.size > buffer.length) {
+    result.errors.push(`page data (${offset}+${result.size}) runs past end of file`);
+    return result;
+  }
+  if (!buffer.subarray(offset, offset + 4).equals(expected.magic)) {
+    result.errors.push(`missing ${expected.label} magic`);
+    return result;
+  }
+
+  const width = buffer.readUInt16LE(offset + 4);
+  const height = buffer.readUInt16LE(offset + 6);
+  result.colorMode = buffer.readUInt8(offset + 8);
+  result.compression = buffer.readUInt8(offset + 9);
+  result.dataSize = buffer.readUInt32LE(offset + 10);
+  result.md5 = buffer.subarray(offset + 14, offset + 22).toString("hex");
+
+  if (width !== result.width || height !== result.height) {
+    result.errors.push(`${expected.label} size ${width}x${height} does not match index entry ${result.width}x${result.height}`);
+  }
+  if (result.compression !== 0) {
+    result.errors.push(`unsupported compression ${result.compression}`);
+  }
+  const expectedSize = expectedXtgDataSize(width, height, result.colorMode);
+  if (result.colorMode !== expected.colorMode) {
+    result.errors.push(`colorMode ${result.colorMode} does not match ${expected.label} page (${expected.colorMode})`);
+  } else if (expectedSize === null) {
+    result.errors.push(`unsupported colorMode ${result.colorMode}`);
+  } else if (result.compression === 0 && result.dataSize !== expectedSize) {
+    result.errors.push(`dataSize ${result.dataSize} does not match ${expectedSize} for ${width}x${height}`);
+  }
+  if (XTG_HEADER_SIZE + result.dataSize !== result.size) {
+    result.errors.push(`index size ${result.size} does not match header + dataSize ${XTG_HEADER_SIZE + result.dataSize}`);
+  }
+
+  const dataStart = offset + XTG_HEADER_SIZE;
+  const dataEnd = dataStart + result.dataSize;
+  if (dataEnd > buffer.length) {
+    result.errors.push("page bitmap runs past end of file");
+    return result;
+  }
+  const digest = createHash("md5").update(buffer.subarray(dataStart, dataEnd)).digest().subarray(0, 8).toString("hex");
+  result.md5Valid = digest === result.md5;
+  if (!result.md5Valid) {
+    result.errors.push(`md5 mismatch (header ${result.md5}, data ${digest})`);
+  }
+  return result;
+}
+
+/** Parses an XTC container and checks every page against its index entry and md5 digest. */
+export function inspectXtc(buffer: Buffer): XtcInspection {
+  const inspection: XtcInspection = {
+    valid: false,
+    fileSize: buffer.length,
+    header: null,
+    pages: [],
+    errors: [],
+  };
+
+  if (buffer.length < XTC_HEADER_SIZE) {
+    inspection.errors.push(`file is ${buffer.length} bytes, smaller than the ${XTC_HEADER_SIZE}-byte header`);
+    return inspection;
+  }
+  const magic = readContainerMagic(buffer);
+  if (!magic) {
+    inspection.errors.push("missing XTC/XTCH magic");
+    return inspection;
+  }
+
+  const header = readXtcHeader(buffer, magic);
+  const expected = pageMagicFor(header);
+  inspection.header = header;
+  if (header.version !== XTC_VERSION) {
+    inspection.errors.push(`unsupported version ${header.version}`);
+  }
+  if (header.pageCount === 0) {
+    inspection.errors.push("container has no pages");
+  }
+  if (header.readDirection > 2) {
+    inspection.errors.push(`invalid readDirection ${header.readDirection}`);
+  }
+  if (header.hasMetadata && header.metadataOffset >= buffer.length) {
+    inspection.errors.push(`metadataOffset ${header.metadataOffset} is past end of file`);
+  }
+  if (header.hasThumbnails) {
+    const thumb = header.thumbOffset;
+    if (thumb + 4 > buffer.length || !buffer.subarray(thumb, thumb + 4).equals(expected.magic)) {
+      inspection.errors.push(`thumbOffset ${thumb} does not point at an ${expected.label} page`);
+    }
+  }
+
+  const indexEnd = header.indexOffset + header.pageCount * XTC_INDEX_ENTRY_SIZE;
+  if (indexEnd > buffer.length) {
+    inspection.errors.push(`page index (${header.indexOffset}..${indexEnd}) runs past end of file`);
+  } else {
+    for (let page = 0; page < header.pageCount; page += 1) {
+      const result = inspectXtgPage(buffer, header, page + 1);
+      if (page === 0 && result.offset !== header.dataOffset) {
+        result.errors.push(`first page offset ${result.offset} does not match dataOffset ${header.dataOffset}`);
+      }
+      inspection.pages.push(result);
+    }
+  }
+
+  inspection.valid = inspection.errors.length === 0 && inspection.pages.every((page) => page.errors.length === 0);
+  return inspection;
+}
+
+/** Throws with the first few problems when `buffer` is not a well-formed XTC container. */
+export function assertValidXtc(buffer: Buffer): XtcInspection {
+  const inspection = inspectXtc(buffer);
+  if (inspection.valid) return inspection;
+  const problems = [
+    ...inspection.errors,
+    ...inspection.pages.flatMap((page) => page.errors.map((error) => `page ${page.page}: ${error}`)),
+  ];
+  const more = problems.length > 3 ? ` (+${problems.length - 3} more)` : "";
+  throw new Error(`Invalid XTC output: ${problems.slice(0, 3).join("; ")}${more}`);
+}
+
+/** Decodes one page (1-based) of an XTC container back to 8-bit grayscale for previews. */
+export function decodeXtcPage(buffer: Buffer, page: number): GrayscaleImage {
+  const magic = readContainerMagic(buffer);
+  if (!magic) {
+    throw new Error("Not an XTC file");
+  }
+  const header = readXtcHeader(buffer, magic);
+  const expected = pageMagicFor(header);
+  if (page < 1 || page > header.pageCount) {
+    throw new Error(`Page ${page} is out of range (1-${header.pageCount})`);
+  }
+
+  // A digest mismatch still leaves a drawable bitmap, so only structural problems block the preview.
+  const result = inspectXtgPage(buffer, header, page);
+  const { width, height } = result;
+  const decodable =
+    result.colorMode === expected.colorMode &&
+    result.compression === 0 &&
+    result.dataSize !== null &&
+    result.dataSize === expectedXtgDataSize(width, height, expected.colorMode) &&
+    result.offset + XTG_HEADER_SIZE + result.dataSize <= buffer.length;
+  if (!decodable || result.dataSize === null) {
+    throw new Error(`Page ${page} is not decodable: ${result.errors.join("; ") || "unknown error"}`);
+  }
+
+  const bits = buffer.subarray(result.offset + XTG_HEADER_SIZE, result.offset + XTG_HEADER_SIZE + result.dataSize);
+  const data = new Uint8Array(width * height);
+  if (expected.colorMode === XTH_COLOR_MODE) {
+    const columnBytes = (height + 7) >> 3;
+    const planeSize = columnBytes * width;
+    for (let x = 0; x < width; x += 1) {
+      const column = (width - 1 - x) * columnBytes;
+      for (let y = 0; y < height; y += 1) {
+        const bit = 0x80 >> (y & 7);
+        const source = column + (y >> 3);
+        const code = (bits[source] & bit ? 2 : 0) | (bits[planeSize + source] & bit ? 1 : 0);
+        data[y * width + x] = XTH_GRAY_BY_CODE[code];
+      }
+    }
+    return { width, height, data };
+  }
+
+  const rowBytes = (width + 7) >> 3;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      data[y * width + x] = bits[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7)) ? 255 : 0;
+    }
+  }
+  return { width, height, data };
+}
@@ -6,6 +6,10 @@ import { URL } from "node:url";
 type QueryValue = string | number | boolean | undefined | null;
 const DEVICE_REQUEST_TIMEOUT_MS = 20_000;
 const DEVICE_UPLOAD_TIMEOUT_MS = 600_000;
+// CrossPoint firmware keeps reader state under this folder: `xtc_<hash>/progress.bin` per book, where the hash is
+// the firmware's std::hash of the book path, and a recently-opened list.
+const CROSSPOINT_STATE_DIR = "/.crosspoint";
+const CROSSPOINT_RECENT_FILES = ["recent.json"];
 
 export type XteinkFileEntry = {
   name: string;
@@ -14,6 +18,48 @@ export type XteinkFileEntry = {
   isEpub: boolean;
 };
 
+export type XteinkStorageInfo = {
+  totalBytes: number | null;
+  usedBytes: number | null;
+  freeBytes: number | null;
+};
+
+export type XteinkReadingProgress = {
+  path: string;
+  // Zero-based page index as saved by the firmware.
+  pageIndex: number;
+};
+
+/**
+ * 32-bit libstdc++ std::hash<std::string> (MurmurHash2, seed 0xc70f6907), which is what the ESP32 firmware
+ * uses to name per-book state folders.
+ */
+export function crosspointPathHash(devicePath: string): string {
+  const bytes = Buffer.from(devicePath, "utf8");
+  const m = 0x5bd1e995;
+  let hash = (0xc70f6907 ^ bytes.length) >>> 0;
+  let offset = 0;
+  while (bytes.length - offset >= 4) {
+    let k = bytes.readUInt32LE(offset);
+    k = Math.imul(k, m);
+    k ^= k >>> 24;
+    k = Math.imul(k, m);
+    hash = Math.imul(hash, m) ^ k;
+    offset += 4;
+  }
+  const rest = bytes.length - offset;
+  if (rest > 0) {
+    if (rest === 3) hash ^= bytes[offset + 2] << 16;
+    if (rest >= 2) hash ^= bytes[offset + 1] << 8;
+    hash ^= bytes[offset];
+    hash = Math.imul(hash, m);
+  }
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, m);
+  hash ^= hash >>> 15;
+  return String(hash >>> 0);
+}
+
 export function normalizeDeviceBaseUrl(input: string): string {
   const trimmed = input.trim();
   if (!trimmed) {
@@ -31,7 +77,7 @@ export function normalizeDevicePath(input: string): string {
   return withRoot.replace(/\/+/g, "/");
 }
 
-function joinDevicePath(basePath: string, leaf: string): string {
+export function joinDevicePath(basePath: string, leaf: string): string {
   const cleanLeaf = leaf.replace(/^\/+/, "");
   return normalizeDevicePath(`${normalizeDevicePath(basePath)}/${cleanLeaf}`);
 }
@@ -61,7 +107,7 @@ export class XteinkClient {
     headers?: Record<string, string>;
     body?: Buffer;
     timeoutMs?: number;
-  }): Promise<{ status: number; body: string }> {
+  }): Promise<{ status: number; body: string; bytes: Buffer }> {
     const url = new URL(this.buildUrl(params.pathname, params.query));
     const isHttps = url.protocol === "https:";
     const transport = isHttps ? https : http;
@@ -85,9 +131,11 @@ export class XteinkClient {
             chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
           });
           res.on("end", () => {
+            const bytes = Buffer.concat(chunks);
             resolve({
               status: res.statusCode || 0,
-              body: Buffer.concat(chunks).toString("utf8"),
+              body: bytes.toString("utf8"),
+              bytes,
             });
           });
         },
@@ -178,14 +226,55 @@ export class XteinkClient {
     }
   }
 
-  private async uploadFileOnce(params: { filePath: string; fileName: string; targetPath: string }): Promise<{
+  /** Returns null when the file does not exist on the device. */
+  async downloadFile(rawPath: string): Promise<Buffer | null> {
+    const response = await this.request({
+      method: "GET",
+      pathname: "/download",
+      query: { path: normalizeDevicePath(rawPath) },
+    });
+    if (response.status === 404) return null;
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Device download failed (${response.status}): ${response.body.slice(0, 200)}`);
+    }
+    return response.bytes;
+  }
+
+  /** Paths the reader opened recently, newest first; empty when the firmware keeps no readable list. */
+  async getRecentBooks(): Promise<string[]> {
+    for (const name of CROSSPOINT_RECENT_FILES) {
+      const bytes = await this.downloadFile(`${CROSSPOINT_STATE_DIR}/${name}`);
+      if (!bytes) continue;
+      try {
+        const parsed = JSON.parse(bytes.toString("utf8")) as unknown;
+        const entries = Array.isArray(parsed) ? parsed : (parsed as { books?: unknown[] })?.books;
+        if (!Array.isArray(entries)) continue;
+        return entries
+          .map((entry) => (typeof entry === "string" ? entry : (entry as { path?: unknown })?.path))
+          .filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+          .map((entry) => normalizeDevicePath(entry));
+      } catch {
+        continue;
+      }
+    }
+    return [];
+  }
+
+  /** Saved page for an XTC book, or null if it has never been opened on the device. */
+  async getReadingProgress(rawPath: string): Promise<XteinkReadingProgress | null> {
+    const devicePath = normalizeDevicePath(rawPath);
+    const bytes = await this.downloadFile(`${CROSSPOINT_STATE_DIR}/xtc_${crosspointPathHash(devicePath)}/progress.bin`);
+    if (!bytes || bytes.length < 4) return null;
+    return { path: devicePath, pageIndex: bytes.readUInt32LE(0) };
+  }
+
+  private async uploadBytesOnce(params: { bytes: Buffer; fileName: string; targetPath: string }): Promise<{
     status: number;
     body: string;
   }> {
-    const bytes = await readFile(params.filePath);
     const multipart = this.buildMultipart([], {
       fileName: params.fileName,
-      bytes,
+      bytes: params.bytes,
     });
 
     return this.request({
@@ -220,8 +309,73 @@ export class XteinkClient {
     }
   }
 
+  /**
+   * Moves or renames a file or folder in one request. Returns false when the firmware has no move endpoint
+   * (older CrossPoint builds), so callers can fall back to copy + delete.
+   */
+  async movePath(rawFrom: string, rawTo: string): Promise<boolean> {
+    const multipart = this.buildMultipart([
+      { name: "path", value: normalizeDevicePath(rawFrom) },
+      { name: "newPath", value: normalizeDevicePath(rawTo) },
+    ]);
+
+    const response = await this.request({
+      method: "POST",
+      pathname: "/move",
+      headers: {
+        "content-type": `multipart/form-data; boundary=${multipart.boundary}`,
+      },
+      body: multipart.body,
+    });
+
+    if (response.status === 404 || response.status === 405 || response.status === 501) return false;
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Device move failed (${response.status}): ${response.body.slice(0, 200)}`);
+    }
+    return true;
+  }
+
+  /** SD card usage from the status endpoint, or null when the firmware does not report it. */
+  async getStorageInfo(): Promise<XteinkStorageInfo | null> {
+    const response = await this.request({ method: "GET", pathname: "/api/status" });
+    if (response.status < 200 || response.status >= 300) return null;
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(response.body) as Record<string, unknown>;
+    } catch {
+      return null;
+    }
+    // Field names differ between firmware builds.
+    const pick = (...keys: string[]): number | null => {
+      for (const key of keys) {
+        const value = Number(data?.[key]);
+        if (data?.[key] !== undefined && Number.isFinite(value)) return value;
+      }
+      return null;
+    };
+    const totalBytes = pick("sdTotalBytes", "sdTotal", "totalBytes", "storageTotal");
+    const usedBytes = pick("sdUsedBytes", "sdUsed", "usedBytes", "storageUsed");
+    let freeBytes = pick("sdFreeBytes", "sdFree", "freeBytes", "storageFree");
+    if (freeBytes === null && totalBytes !== null && usedBytes !== null) freeBytes = totalBytes - usedBytes;
+    if (totalBytes === null && freeBytes === null) return null;
+    return {
+      totalBytes,
+      usedBytes: usedBytes ?? (totalBytes !== null && freeBytes !== null ? totalBytes - freeBytes : null),
+      freeBytes,
+    };
+  }
+
   async uploadFile(params: { filePath: string; fileName: string; targetPath: string }): Promise<void> {
-    const firstAttempt = await this.uploadFileOnce(params);
+    await this.uploadBytes({
+      bytes: await readFile(params.filePath),
+      fileName: params.fileName,
+      targetPath: params.targetPath,
+    });
+  }
+
+  async uploadBytes(params: { bytes: Buffer; fileName: string; targetPath: string }): Promise<void> {
+    const firstAttempt = await this.uploadBytesOnce(params);
     if (firstAttempt.status >= 200 && firstAttempt.status < 300) {
       return;
     }
@@ -245,7 +399,7 @@ export class XteinkClient {
       );
     }
 
-    const retry = await this.uploadFileOnce(params);
+    const retry = await this.uploadBytesOnce(params);
     if (retry.status < 200 || retry.status >= 300) {
       throw new Error(`Device upload retry failed (${retry.status}): ${retry.body.slice(0, 200)}`);
     }
@@ -1,21 +1,56 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { streamSSE } from "hono/streaming";
 import { readFile } from "node:fs/promises";
+import pLimit from "p-limit";
 import { z } from "zod";
 import { convertArchiveToXtc } from "../lib/conversion";
-import { getConversionJob, getConversionJobFrame, startConversionJob, takeJobArtifact } from "../lib/conversion-jobs";
+import {
+  cancelConversionJob,
+  getConversionBatch,
+  getConversionJob,
+  getConversionJobFrame,
+  listConversionBatches,
+  listConversionJobs,
+  peekJobArtifact,
+  retryConversionBatch,
+  startConversionBatch,
+  startConversionJob,
+  subscribeConversionJobs,
+  takeJobArtifact,
+  type ConversionJobEvent,
+  type ConversionJobSnapshot,
+} from "../lib/conversion-jobs";
+import { uploadArtifactToDevice } from "../lib/device-upload";
 import { streamFileAsResponse } from "../lib/http";
-import { defaultConversionSettings } from "../lib/settings";
+import { encodeGrayscalePng } from "../lib/png";
+import { hashConversionSettings } from "../lib/settings";
+import type { ProfileRuleManager, RuleContext } from "../lib/profile-rules";
+import type { ProfileManager } from "../lib/profiles";
+import type { ReadingSyncManager } from "../lib/reading-sync";
+import type { RuntimeSettings } from "../lib/runtime-settings";
 import type { AppConfig } from "../lib/config";
-import type { DeviceConnectionManager } from "../lib/device-connection";
-import type { LanraragiConnectionManager } from "../lib/lanraragi-connection";
+import type { ConversionCache } from "../lib/conversion-cache";
+import type { DeviceConnectionManager, SavedDevice } from "../lib/device-connection";
+import { manifestFilePath, type DeviceManifest } from "../lib/device-manifest";
+import { deleteDevicePath, listDeviceTree, moveDevicePath, statDevicePath } from "../lib/device-storage";
+import type { DeviceSyncManager } from "../lib/device-sync";
+import type { LanraragiConnectionManager, LanraragiSourcePublic } from "../lib/lanraragi-connection";
+import { ALL_SOURCES, PRIMARY_SOURCE_ID } from "../lib/lanraragi-library";
 import { logError, logInfo } from "../lib/logger";
+import { thumbnailQuerySchema, thumbnailResponse, type ThumbnailCache } from "../lib/thumbnail-cache";
+import { UpstreamError } from "../lib/upstream";
 import { XteinkClient, normalizeDeviceBaseUrl, normalizeDevicePath } from "../lib/xteink-client";
+import { decodeXtcPage, inspectXtc } from "../lib/xtc";
+import type { ConversionSettings } from "../types";
 
 const archiveQuerySchema = z.object({
   q: z.string().optional(),
   start: z.coerce.number().int().min(0).default(0),
   sortby: z.enum(["title", "progress", "lastreadtime", "size", "time_read", "date_added"]).default("title"),
   order: z.enum(["asc", "desc"]).default("asc"),
+  category: z.string().trim().min(1).optional(),
+  // A source id, or "all" (the default) for every library merged.
+  source: z.string().trim().min(1).optional(),
 });
 
 const facetsQuerySchema = z.object({
@@ -32,6 +67,7 @@ const conversionSettingsSchema = z.object({
   orientation: z.enum(["landscape", "portrait"]).optional(),
   splitMode: z.enum(["overlap", "split", "nosplit"]).optional(),
   noDither: z.boolean().optional(),
+  colorDepth: z.enum(["1bit", "2bit"]).optional(),
   overlap: z.boolean().optional(),
   splitSpreads: z.string().optional(),
   splitAll: z.boolean().optional(),
@@ -55,7 +91,62 @@ const conversionSettingsSchema = z.object({
 });
 
 const convertBodySchema = z.object({
+  profile: z.string().min(1).optional(),
   settings: conversionSettingsSchema.optional(),
+  // Saved device id or name; its preferred profile and orientation apply when the request sets neither.
+  device: z.string().min(1).optional(),
+});
+
+const profileBodySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  isDefault: z.boolean().optional(),
+  settings: conversionSettingsSchema.optional(),
+});
+
+const profileUpdateBodySchema = profileBodySchema.partial();
+
+const profileRuleBodySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  match: z.string().trim().min(1).max(500),
+  enabled: z.boolean().optional(),
+  // Profile id or name; null clears it so the rule only patches settings.
+  profile: z.string().min(1).nullable().optional(),
+  settings: conversionSettingsSchema.optional(),
+});
+
+const profileRuleUpdateBodySchema = profileRuleBodySchema.partial();
+
+const wishlistItemBodySchema = z.object({
+  kind: z.enum(["archive", "tag", "category"]),
+  value: z.string().trim().min(1).max(200),
+  label: z.string().trim().max(120).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const wishlistItemUpdateBodySchema = wishlistItemBodySchema.pick({ label: true, enabled: true });
+
+const profileRulePreviewBodySchema = z.object({
+  archiveId: z.string().min(1),
+  profile: z.string().min(1).optional(),
+  settings: conversionSettingsSchema.optional(),
+});
+
+const batchBodySchema = z.object({
+  items: z
+    .array(
+      z.object({
+        archiveId: z.string().min(1),
+        title: z.string().optional(),
+      }),
+    )
+    .min(1)
+    .max(500),
+  profile: z.string().min(1).optional(),
+  settings: conversionSettingsSchema.optional(),
+  mode: z.enum(["download", "upload"]).default("download"),
+  device: z.string().min(1).optional(),
+  baseUrl: z.string().optional(),
+  path: z.string().optional(),
 });
 
 const deviceFilesQuerySchema = z.object({
@@ -63,13 +154,60 @@ const deviceFilesQuerySchema = z.object({
   path: z.string().optional(),
 });
 
+const deviceTreeQuerySchema = z.object({
+  baseUrl: z.string().optional(),
+  path: z.string().optional(),
+  depth: z.coerce.number().int().min(1).max(10).default(6),
+});
+
+const devicePathSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .transform((value) => normalizeDevicePath(value))
+  .refine((value) => value !== "/", "The device root cannot be changed");
+
+const deviceDeleteBodySchema = z.object({
+  baseUrl: z.string().optional(),
+  paths: z.array(devicePathSchema).min(1).max(200),
+});
+
+const deviceMoveBodySchema = z.object({
+  baseUrl: z.string().optional(),
+  moves: z
+    .array(z.object({ from: devicePathSchema, to: devicePathSchema }))
+    .min(1)
+    .max(200),
+});
+
 const deviceMkdirBodySchema = z.object({
   baseUrl: z.string().optional(),
   path: z.string().optional(),
   name: z.string().min(1).max(120),
 });
 
+const deviceManifestQuerySchema = z.object({
+  archiveIds: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ? value
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean)
+        : undefined,
+    ),
+  baseUrl: z.string().optional(),
+});
+
+const deviceManifestDeleteQuerySchema = z.object({
+  baseUrl: z.string().optional(),
+  path: z.string().min(1),
+});
+
 const uploadJobBodySchema = z.object({
+  device: z.string().min(1).optional(),
   baseUrl: z.string().optional(),
   path: z.string().optional(),
 });
@@ -79,11 +217,96 @@ const lanraragiSettingsBodySchema = z.object({
   apiKey: z.string().optional(),
 });
 
+const lanraragiSourceBodySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  baseUrl: z.string().min(1),
+  apiKey: z.string().optional(),
+});
+
+const lanraragiSourceUpdateBodySchema = lanraragiSourceBodySchema.partial();
+
 const deviceSettingsBodySchema = z.object({
   baseUrl: z.string().optional(),
   path: z.string().optional(),
 });
 
+const savedDeviceBodySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  baseUrl: z.string().min(1),
+  path: z.string().optional(),
+  profileId: z.string().min(1).nullable().optional(),
+  orientation: z.enum(["landscape", "portrait"]).nullable().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const savedDeviceUpdateBodySchema = savedDeviceBodySchema.partial();
+
+const settingsExportQuerySchema = z.object({
+  secrets: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+const settingsImportBodySchema = z.object({
+  version: z.literal(1),
+  lanraragi: z
+    .object({
+      name: z.string().trim().min(1).max(80).optional(),
+      baseUrl: z.string().min(1).optional(),
+      apiKey: z.string().optional(),
+      sources: z
+        .array(
+          z.object({
+            id: z.string().min(1),
+            name: z.string().trim().min(1).max(80),
+            baseUrl: z.string().min(1),
+            apiKey: z.string().optional(),
+          }),
+        )
+        .optional(),
+    })
+    .optional(),
+  devices: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().trim().min(1).max(80),
+        baseUrl: z.string().min(1),
+        path: z.string().optional(),
+        profileId: z.string().min(1).nullable().optional(),
+        orientation: z.enum(["landscape", "portrait"]).nullable().optional(),
+        isDefault: z.boolean().optional(),
+      }),
+    )
+    .optional(),
+  profiles: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().trim().min(1).max(80),
+        isDefault: z.boolean().optional(),
+        settings: conversionSettingsSchema.optional(),
+      }),
+    )
+    .optional(),
+});
+
+const cacheQuerySchema = z.object({
+  key: z.string().optional(),
+  archiveId: z.string().optional(),
+});
+
+const thumbnailCacheQuerySchema = z.object({
+  archiveId: z.string().optional(),
+});
+
+const xtcSourceBodySchema = z.object({
+  jobId: z.string().min(1),
+});
+
+const xtcPageParamSchema = z.coerce.number().int().min(1);
+
 const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
 const PNG_IEND_CHUNK = Buffer.from([0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]);
 
@@ -96,9 +319,88 @@ function isCompletePngBuffer(buffer: Buffer): boolean {
   return signature.equals(PNG_SIGNATURE) && tail.equals(PNG_IEND_CHUNK);
 }
 
-function resolveSettings(input?: z.infer<typeof conversionSettingsSchema>) {
+// Bun closes idle connections after 10s, so SSE streams ping well inside that window.
+const SSE_HEARTBEAT_MS = 5_000;
+
+function isTerminalJob(job: ConversionJobSnapshot): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+function streamJobEvents(c: Context, params: { jobId: string | null; initial: ConversionJobSnapshot[] }) {
+  return streamSSE(c, async (stream) => {
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    // writeSSE yields before queueing, so writes are chained and drained before the stream closes.
+    let writes = Promise.resolve();
+    const write = (event: string, data: string) => {
+      writes = writes.then(() => stream.writeSSE({ event, data })).catch(() => finish());
+    };
+
+    const send = (payload: ConversionJobEvent) => {
+      write("job", JSON.stringify(payload));
+      // A single-job stream ends on the lifecycle event, which arrives once the artifact is attached.
+      if (params.jobId && payload.event === null && isTerminalJob(payload.job)) {
+        finish();
+      }
+    };
+
+    const unsubscribe = subscribeConversionJobs((payload) => {
+      if (params.jobId && payload.jobId !== params.jobId) return;
+      send(payload);
+    });
+    const heartbeat = setInterval(() => write("ping", ""), SSE_HEARTBEAT_MS);
+    stream.onAbort(finish);
+
+    for (const job of params.initial) {
+      send({ jobId: job.jobId, event: null, job });
+    }
+
+    await finished;
+    clearInterval(heartbeat);
+    unsubscribe();
+    await writes;
+  });
+}
+
+function pngResponse(buffer: Buffer): Response {
+  return new Response(new Uint8Array(buffer), {
+    headers: {
+      "content-type": "image/png",
+      "content-length": String(buffer.length),
+      "cache-control": "no-store",
+    },
+  });
+}
+
+// XTC input is either a multipart upload (`file` field) or JSON naming a completed job.
+async function readXtcSource(c: Context): Promise<{ bytes: Buffer; source: string } | { error: unknown; status: 400 | 404 }> {
+  const contentType = c.req.header("content-type") || "";
+  if (contentType.includes("multipart/form-data")) {
+    const body = await c.req.parseBody();
+    const file = body.file;
+    if (!(file instanceof File)) {
+      return { error: "Expected an .xtc upload in the file field", status: 400 };
+    }
+    return { bytes: Buffer.from(await file.arrayBuffer()), source: file.name };
+  }
+
+  const parsed = xtcSourceBodySchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return { error: parsed.error.flatten(), status: 400 };
+  }
+  const artifact = peekJobArtifact(parsed.data.jobId);
+  const bytes = artifact ? await readFile(artifact.filePath).catch(() => null) : null;
+  if (!artifact || !bytes) {
+    return { error: "Job output not found", status: 404 };
+  }
+  return { bytes, source: artifact.downloadName };
+}
+
+function resolveSettings(base: ConversionSettings, input?: z.infer<typeof conversionSettingsSchema>): ConversionSettings {
   return {
-    ...defaultConversionSettings,
+    ...base,
     ...(input ?? {}),
   };
 }
@@ -107,6 +409,14 @@ export function createApiRouter(
   config: AppConfig,
   lanraragi: LanraragiConnectionManager,
   device: DeviceConnectionManager,
+  cache: ConversionCache,
+  profiles: ProfileManager,
+  profileRules: ProfileRuleManager,
+  manifest: DeviceManifest,
+  readingSync: ReadingSyncManager,
+  deviceSync: DeviceSyncManager,
+  runtimeSettings: RuntimeSettings,
+  thumbnails: ThumbnailCache,
 ): Hono {
   const app = new Hono();
   const facetCache = new Map<"artist" | "group", { at: number; items: Array<{ name: string; count: number }> }>();
@@ -123,23 +433,152 @@ export function createApiRouter(
     cacheVersion = currentVersion;
   };
 
+  // `ok` follows the primary source; `sources` reports every library so one unreachable box is visible.
   app.get("/health", async (c) => {
+    const sources = await lanraragi.checkSources();
     try {
       const info = await lanraragi.getClient().ping();
-      return c.json({ ok: true, lanraragi: info });
+      return c.json({ ok: true, lanraragi: info, sources });
     } catch (error) {
       return c.json(
         {
           ok: false,
           error: error instanceof Error ? error.message : "Unknown error",
+          sources,
         },
-        500,
+        error instanceof UpstreamError ? error.status : 500,
       );
     }
   });
 
+  // Request settings are layered over the named profile, or else the target device's preferred profile, or the
+  // default profile. The device's orientation sits between the profile and the request. `ruleContext` keeps those
+  // choices ahead of profile rules: a chosen profile is not replaced by a rule's, and the device orientation and
+  // request settings are applied after the rule.
+  const resolveProfileSettings = (
+    profileRef: string | undefined,
+    input?: z.infer<typeof conversionSettingsSchema>,
+    target?: SavedDevice | null,
+  ) => {
+    const preferred = target?.profileId ? profiles.find(target.profileId) : null;
+    const profile = profileRef ? profiles.find(profileRef) : (preferred ?? profiles.getDefault());
+    if (!profile) return null;
+    const base = target?.orientation ? { ...profile.settings, orientation: target.orientation } : profile.settings;
+    const overrides = { ...(target?.orientation ? { orientation: target.orientation } : {}), ...(input ?? {}) };
+    const ruleContext: RuleContext = { profilePinned: Boolean(profileRef || preferred), overrides };
+    return { profile, settings: resolveSettings(base, input), ruleContext };
+  };
+
+  // Devices store the profile id, even when the client referred to the profile by name.
+  const resolveProfileId = (profileRef: string | null | undefined) =>
+    profileRef ? (profiles.find(profileRef)?.id ?? null) : profileRef;
+
+  // No reference means the default device; an unknown one is reported as null.
+  const resolveSavedDevice = (deviceRef: string | undefined) =>
+    deviceRef ? device.find(deviceRef) : device.getDefault();
+
+  const isProfileNameTaken = (name: string, exceptId?: string) => {
+    const existing = profiles.find(name);
+    return Boolean(existing && existing.id !== exceptId && existing.name.toLowerCase() === name.trim().toLowerCase());
+  };
+
   app.get("/settings/defaults", (c) => {
-    return c.json({ settings: defaultConversionSettings });
+    return c.json({ settings: profiles.getDefault().settings });
+  });
+
+  // Current values and where each came from (env or a runtime file).
+  app.get("/settings", (c) => {
+    return c.json(runtimeSettings.describe());
+  });
+
+  app.get("/settings/export", (c) => {
+    const parsed = settingsExportQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    if (parsed.data.secrets && c.get("principal")?.role === "reader") {
+      return c.json({ error: "Admin access required" }, 403);
+    }
+    const snapshot = runtimeSettings.exportSnapshot({ includeSecrets: parsed.data.secrets });
+    c.header("content-disposition", `attachment; filename="xtc-bridge-settings-${snapshot.exportedAt.slice(0, 10)}.json"`);
+    return c.json(snapshot);
+  });
+
+  app.post("/settings/import", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = settingsImportBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const result = runtimeSettings.importSnapshot(parsed.data);
+    if (!result.ok) {
+      return c.json({ error: "Settings import conflicts with the current settings", conflicts: result.conflicts }, 409);
+    }
+    ensureCachesFresh();
+    logInfo(
+      `settings imported lanraragi=${result.lanraragi} devices=${result.devices} profiles=${result.profiles}`,
+    );
+    return c.json(result);
+  });
+
+  app.get("/profiles", (c) => {
+    return c.json({ profiles: profiles.list() });
+  });
+
+  app.get("/profiles/:id", (c) => {
+    const profile = profiles.find(c.req.param("id"));
+    if (!profile) return c.json({ error: "Profile not found" }, 404);
+    return c.json({ profile });
+  });
+
+  app.post("/profiles", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = profileBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    if (isProfileNameTaken(parsed.data.name)) {
+      return c.json({ error: "Profile name already exists" }, 409);
+    }
+    const profile = profiles.create(parsed.data);
+    logInfo(`profile created id=${profile.id} name=${JSON.stringify(profile.name)} default=${profile.isDefault}`);
+    return c.json({ profile }, 201);
+  });
+
+  app.patch("/profiles/:id", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = profileUpdateBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const existing = profiles.find(c.req.param("id"));
+    if (!existing) return c.json({ error: "Profile not found" }, 404);
+    if (parsed.data.name !== undefined && isProfileNameTaken(parsed.data.name, existing.id)) {
+      return c.json({ error: "Profile name already exists" }, 409);
+    }
+    const profile = profiles.update(existing.id, parsed.data);
+    if (!profile) return c.json({ error: "Profile not found" }, 404);
+    logInfo(`profile updated id=${profile.id} name=${JSON.stringify(profile.name)} default=${profile.isDefault}`);
+    return c.json({ profile });
+  });
+
+  app.delete("/profiles/:id", (c) => {
+    const profile = profiles.find(c.req.param("id"));
+    if (!profile) return c.json({ error: "Profile not found" }, 404);
+    if (profile.isDefault) {
+      return c.json({ error: "Mark another profile as default before deleting this one" }, 409);
+    }
+    const usedBy = profileRules.list().filter((rule) => rule.profileId === profile.id);
+    if (usedBy.length > 0) {
+      return c.json({ error: `Profile is used by ${usedBy.length} profile rule(s)` }, 409);
+    }
+    const usedByDevices = device.list().filter((saved) => saved.profileId === profile.id);
+    if (usedByDevices.length > 0) {
+      return c.json({ error: `Profile is preferred by ${usedByDevices.length} saved device(s)` }, 409);
+    }
+    profiles.remove(profile.id);
+    logInfo(`profile deleted id=${profile.id} name=${JSON.stringify(profile.name)}`);
+    return c.json({ ok: true });
   });
 
   app.get("/lanraragi/settings", (c) => {
@@ -177,6 +616,102 @@ export function createApiRouter(
     });
   });
 
+  const isSourceNameTaken = (name: string, exceptId?: string) => {
+    const existing = lanraragi.findSource(name);
+    return Boolean(existing && existing.id !== exceptId && existing.name.toLowerCase() === name.trim().toLowerCase());
+  };
+
+  app.get("/lanraragi/sources", (c) => {
+    return c.json({ sources: lanraragi.listSources() });
+  });
+
+  app.post("/lanraragi/sources", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = lanraragiSourceBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    if (isSourceNameTaken(parsed.data.name)) {
+      return c.json({ error: "Source name already exists" }, 409);
+    }
+
+    let source: LanraragiSourcePublic;
+    try {
+      source = lanraragi.addSource(parsed.data);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid LANraragi source." }, 400);
+    }
+    ensureCachesFresh();
+    logInfo(`lanraragi source created id=${source.id} name=${JSON.stringify(source.name)} baseUrl=${source.baseUrl}`);
+    return c.json({ source }, 201);
+  });
+
+  app.patch("/lanraragi/sources/:id", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = lanraragiSourceUpdateBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const id = c.req.param("id");
+    if (parsed.data.name !== undefined && isSourceNameTaken(parsed.data.name, id)) {
+      return c.json({ error: "Source name already exists" }, 409);
+    }
+
+    let source: LanraragiSourcePublic | null;
+    try {
+      source = lanraragi.updateSource(id, parsed.data);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid LANraragi source." }, 400);
+    }
+    if (!source) return c.json({ error: "Source not found" }, 404);
+    ensureCachesFresh();
+    logInfo(`lanraragi source updated id=${source.id} name=${JSON.stringify(source.name)} baseUrl=${source.baseUrl}`);
+    return c.json({ source });
+  });
+
+  app.delete("/lanraragi/sources/:id", (c) => {
+    const id = c.req.param("id");
+    if (id === PRIMARY_SOURCE_ID) {
+      return c.json({ error: "The primary LANraragi source cannot be removed" }, 409);
+    }
+    if (!lanraragi.removeSource(id)) return c.json({ error: "Source not found" }, 404);
+    ensureCachesFresh();
+    logInfo(`lanraragi source deleted id=${id}`);
+    return c.json({ ok: true });
+  });
+
+  app.get("/cache", async (c) => {
+    const stats = await cache.list();
+    return c.json(stats);
+  });
+
+  app.delete("/cache", async (c) => {
+    const parsed = cacheQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    const removed = await cache.purge({
+      key: parsed.data.key,
+      archiveId: parsed.data.archiveId,
+    });
+    return c.json({ ok: true, removed });
+  });
+
+  app.get("/thumbnails", async (c) => {
+    return c.json(await thumbnails.stats());
+  });
+
+  app.delete("/thumbnails", async (c) => {
+    const parsed = thumbnailCacheQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    const removed = await thumbnails.purge({ archiveId: parsed.data.archiveId });
+    return c.json({ ok: true, removed });
+  });
+
   app.get("/device/defaults", (c) => {
     const settings = device.getSettings();
     return c.json(settings);
@@ -216,6 +751,105 @@ export function createApiRouter(
     });
   });
 
+  const isDeviceNameTaken = (name: string, exceptId?: string) => {
+    const existing = device.find(name);
+    return Boolean(existing && existing.id !== exceptId && existing.name.toLowerCase() === name.trim().toLowerCase());
+  };
+
+  app.get("/devices", (c) => {
+    return c.json({ devices: device.list() });
+  });
+
+  app.get("/devices/:id", (c) => {
+    const saved = device.find(c.req.param("id"));
+    if (!saved) return c.json({ error: "Device not found" }, 404);
+    return c.json({ device: saved });
+  });
+
+  app.post("/devices", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = savedDeviceBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    if (isDeviceNameTaken(parsed.data.name)) {
+      return c.json({ error: "Device name already exists" }, 409);
+    }
+    if (parsed.data.profileId && !profiles.find(parsed.data.profileId)) {
+      return c.json({ error: "Profile not found" }, 404);
+    }
+
+    let saved: SavedDevice;
+    try {
+      saved = device.create({ ...parsed.data, profileId: resolveProfileId(parsed.data.profileId) });
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device settings." }, 400);
+    }
+    logInfo(`device created id=${saved.id} name=${JSON.stringify(saved.name)} baseUrl=${saved.baseUrl} default=${saved.isDefault}`);
+    return c.json({ device: saved }, 201);
+  });
+
+  app.patch("/devices/:id", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = savedDeviceUpdateBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const existing = device.find(c.req.param("id"));
+    if (!existing) return c.json({ error: "Device not found" }, 404);
+    if (parsed.data.name !== undefined && isDeviceNameTaken(parsed.data.name, existing.id)) {
+      return c.json({ error: "Device name already exists" }, 409);
+    }
+    if (parsed.data.profileId && !profiles.find(parsed.data.profileId)) {
+      return c.json({ error: "Profile not found" }, 404);
+    }
+
+    let saved: SavedDevice | null;
+    try {
+      saved = device.update(existing.id, { ...parsed.data, profileId: resolveProfileId(parsed.data.profileId) });
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device settings." }, 400);
+    }
+    if (!saved) return c.json({ error: "Device not found" }, 404);
+    logInfo(`device updated id=${saved.id} name=${JSON.stringify(saved.name)} baseUrl=${saved.baseUrl} default=${saved.isDefault}`);
+    return c.json({ device: saved });
+  });
+
+  app.delete("/devices/:id", (c) => {
+    const saved = device.find(c.req.param("id"));
+    if (!saved) return c.json({ error: "Device not found" }, 404);
+    if (saved.isDefault) {
+      return c.json({ error: "Mark another device as default before deleting this one" }, 409);
+    }
+    device.remove(saved.id);
+    logInfo(`device deleted id=${saved.id} name=${JSON.stringify(saved.name)}`);
+    return c.json({ ok: true });
+  });
+
+  // Lists the root folder to prove the device answers, then reads storage when the firmware reports it.
+  app.get("/devices/:id/health", async (c) => {
+    const saved = device.find(c.req.param("id"));
+    if (!saved) return c.json({ error: "Device not found" }, 404);
+
+    const client = new XteinkClient(saved.baseUrl);
+    const startedAt = Date.now();
+    try {
+      await client.listFiles("/");
+    } catch (error) {
+      return c.json({
+        id: saved.id,
+        baseUrl: saved.baseUrl,
+        online: false,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+        storage: null,
+      });
+    }
+    const latencyMs = Date.now() - startedAt;
+    const storage = await client.getStorageInfo().catch(() => null);
+    return c.json({ id: saved.id, baseUrl: saved.baseUrl, online: true, latencyMs, error: null, storage });
+  });
+
   app.get("/device/files", async (c) => {
     const parsed = deviceFilesQuerySchema.safeParse(c.req.query());
     if (!parsed.success) {
@@ -239,6 +873,105 @@ export function createApiRouter(
     });
   });
 
+  app.get("/device/tree", async (c) => {
+    const parsed = deviceTreeQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    const defaults = device.getSettings();
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeDeviceBaseUrl(parsed.data.baseUrl || defaults.baseUrl);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
+    }
+    const client = new XteinkClient(baseUrl);
+    const tree = await listDeviceTree(client, parsed.data.path || "/", parsed.data.depth);
+    return c.json({ baseUrl, ...tree });
+  });
+
+  app.get("/device/storage", async (c) => {
+    const parsed = deviceFilesQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeDeviceBaseUrl(parsed.data.baseUrl || device.getSettings().baseUrl);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
+    }
+    const storage = await new XteinkClient(baseUrl).getStorageInfo();
+    return c.json({ baseUrl, available: storage !== null, ...(storage ?? {}) });
+  });
+
+  // Paths are handled one after another; each gets its own result so one failure does not hide the rest.
+  app.post("/device/delete", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = deviceDeleteBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeDeviceBaseUrl(parsed.data.baseUrl || device.getSettings().baseUrl);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
+    }
+    const client = new XteinkClient(baseUrl);
+    const results: Array<{ path: string; ok: boolean; error: string | null }> = [];
+    for (const devicePath of parsed.data.paths) {
+      try {
+        const entry = await statDevicePath(client, devicePath);
+        if (!entry) throw new Error("Not found on device");
+        await deleteDevicePath(client, devicePath, entry.isDirectory);
+        manifest.remove(baseUrl, devicePath);
+        logInfo(`device delete path=${JSON.stringify(devicePath)} folder=${entry.isDirectory}`);
+        results.push({ path: devicePath, ok: true, error: null });
+      } catch (error) {
+        results.push({ path: devicePath, ok: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return c.json({ baseUrl, results });
+  });
+
+  app.post("/device/move", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = deviceMoveBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeDeviceBaseUrl(parsed.data.baseUrl || device.getSettings().baseUrl);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
+    }
+    const client = new XteinkClient(baseUrl);
+    const results: Array<{ from: string; to: string; ok: boolean; method: "move" | "copy" | null; error: string | null }> =
+      [];
+    for (const { from, to } of parsed.data.moves) {
+      try {
+        if (from === to) throw new Error("Source and destination are the same");
+        if (to.startsWith(`${from}/`)) throw new Error("A folder cannot be moved into itself");
+        const entry = await statDevicePath(client, from);
+        if (!entry) throw new Error("Not found on device");
+        if (await statDevicePath(client, to)) throw new Error("Destination already exists");
+        const method = await moveDevicePath(client, from, to, entry.isDirectory);
+        manifest.relocate(baseUrl, from, to);
+        logInfo(`device move from=${JSON.stringify(from)} to=${JSON.stringify(to)} method=${method}`);
+        results.push({ from, to, ok: true, method, error: null });
+      } catch (error) {
+        results.push({ from, to, ok: false, method: null, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return c.json({ baseUrl, results });
+  });
+
   app.post("/device/mkdir", async (c) => {
     const bodyJson = await c.req.json().catch(() => ({}));
     const parsed = deviceMkdirBodySchema.safeParse(bodyJson);
@@ -265,6 +998,115 @@ export function createApiRouter(
     });
   });
 
+  // A copy is stale when the default profile (after rules) would now convert the archive differently.
+  app.get("/device/manifest", async (c) => {
+    const parsed = deviceManifestQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    const entries = manifest.list(parsed.data);
+    const defaults = profiles.getDefault().settings;
+    const lookup = pLimit(4);
+    const currentHashes = new Map<string, string | null>();
+    await Promise.all(
+      Array.from(new Set(entries.map((entry) => entry.archiveId))).map((archiveId) =>
+        lookup(async () => {
+          try {
+            const metadata = await lanraragi.getClient().getArchiveMetadata(archiveId);
+            currentHashes.set(archiveId, hashConversionSettings(profileRules.evaluate(metadata, defaults).settings));
+          } catch {
+            currentHashes.set(archiveId, null);
+          }
+        }),
+      ),
+    );
+
+    const data = entries.map((entry) => {
+      const currentHash = currentHashes.get(entry.archiveId) ?? null;
+      return {
+        ...entry,
+        filePath: manifestFilePath(entry),
+        stale: currentHash === null ? null : currentHash !== entry.settingsHash,
+      };
+    });
+    return c.json({ total: data.length, data });
+  });
+
+  app.delete("/device/manifest", (c) => {
+    const parsed = deviceManifestDeleteQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeDeviceBaseUrl(parsed.data.baseUrl || device.getSettings().baseUrl);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
+    }
+    if (!manifest.remove(baseUrl, parsed.data.path)) {
+      return c.json({ error: "Manifest entry not found" }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  app.get("/wishlist", (c) => {
+    return c.json({ items: deviceSync.listItems() });
+  });
+
+  app.post("/wishlist", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = wishlistItemBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const item = deviceSync.addItem(parsed.data);
+    logInfo(`wishlist item added id=${item.id} kind=${item.kind} value=${JSON.stringify(item.value)}`);
+    return c.json({ item }, 201);
+  });
+
+  app.patch("/wishlist/:id", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = wishlistItemUpdateBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const item = deviceSync.updateItem(c.req.param("id"), parsed.data);
+    if (!item) return c.json({ error: "Wishlist item not found" }, 404);
+    return c.json({ item });
+  });
+
+  app.delete("/wishlist/:id", (c) => {
+    if (!deviceSync.removeItem(c.req.param("id"))) {
+      return c.json({ error: "Wishlist item not found" }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  app.get("/device-sync", (c) => {
+    return c.json(deviceSync.status());
+  });
+
+  app.post("/device-sync/preview", async (c) => {
+    const report = await deviceSync.preview();
+    return c.json({ report });
+  });
+
+  app.post("/device-sync/run", async (c) => {
+    const report = await deviceSync.run("manual");
+    return c.json({ report });
+  });
+
+  app.get("/reading-sync", (c) => {
+    return c.json(readingSync.status());
+  });
+
+  app.post("/reading-sync/run", async (c) => {
+    const run = await readingSync.run("manual");
+    return c.json({ run });
+  });
+
   app.get("/archives", async (c) => {
     ensureCachesFresh();
     const parsed = archiveQuerySchema.safeParse(c.req.query());
@@ -272,16 +1114,31 @@ export function createApiRouter(
       return c.json({ error: parsed.error.flatten() }, 400);
     }
 
+    const source = parsed.data.source;
+    if (source && source !== ALL_SOURCES && !lanraragi.getClient().hasSource(source)) {
+      return c.json({ error: "Source not found" }, 404);
+    }
+
     const data = await lanraragi.getClient().searchArchives({
       filter: parsed.data.q ?? "",
       start: parsed.data.start,
       sortby: parsed.data.sortby,
       order: parsed.data.order,
+      category: parsed.data.category,
+      source,
     });
 
     return c.json(data);
   });
 
+  app.get("/categories", async (c) => {
+    const data = await lanraragi.getClient().listCategories();
+    return c.json({
+      total: data.length,
+      data,
+    });
+  });
+
   app.get("/facets", async (c) => {
     ensureCachesFresh();
     const parsed = facetsQuerySchema.safeParse(c.req.query());
@@ -352,18 +1209,20 @@ export function createApiRouter(
     });
   });
 
+  // Served from the local cache; LANraragi is asked again once the entry is older than the revalidate window.
   app.get("/archives/:id/thumbnail", async (c) => {
     ensureCachesFresh();
     const id = c.req.param("id");
     if (!id) return c.json({ error: "Missing archive id" }, 400);
+    const parsed = thumbnailQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
 
-    const response = await lanraragi.getClient().getArchiveThumbnail(id);
-    return new Response(response.body, {
-      status: 200,
-      headers: {
-        "content-type": response.headers.get("content-type") || "image/jpeg",
-        "cache-control": "public, max-age=300",
-      },
+    const thumbnail = await thumbnails.get(lanraragi.getClient(), id, parsed.data.variant);
+    return thumbnailResponse(thumbnail, {
+      ifNoneMatch: c.req.header("if-none-match"),
+      ifModifiedSince: c.req.header("if-modified-since"),
     });
   });
 
@@ -391,6 +1250,72 @@ export function createApiRouter(
     return c.json(metadata);
   });
 
+  const resolveRuleProfile = (ref: string | null | undefined): { profileId: string | null | undefined } | null => {
+    if (ref === undefined) return { profileId: undefined };
+    if (ref === null) return { profileId: null };
+    const profile = profiles.find(ref);
+    return profile ? { profileId: profile.id } : null;
+  };
+
+  app.get("/profile-rules", (c) => {
+    return c.json({ rules: profileRules.list() });
+  });
+
+  app.post("/profile-rules", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = profileRuleBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const target = resolveRuleProfile(parsed.data.profile);
+    if (!target) return c.json({ error: "Profile not found" }, 404);
+    try {
+      const rule = profileRules.create({ ...parsed.data, profileId: target.profileId });
+      logInfo(`profile rule created id=${rule.id} match=${JSON.stringify(rule.match)}`);
+      return c.json({ rule }, 201);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid rule" }, 400);
+    }
+  });
+
+  app.patch("/profile-rules/:id", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = profileRuleUpdateBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const target = resolveRuleProfile(parsed.data.profile);
+    if (!target) return c.json({ error: "Profile not found" }, 404);
+    try {
+      const rule = profileRules.update(c.req.param("id"), { ...parsed.data, profileId: target.profileId });
+      if (!rule) return c.json({ error: "Profile rule not found" }, 404);
+      logInfo(`profile rule updated id=${rule.id} match=${JSON.stringify(rule.match)} enabled=${rule.enabled}`);
+      return c.json({ rule });
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Invalid rule" }, 400);
+    }
+  });
+
+  app.delete("/profile-rules/:id", (c) => {
+    if (!profileRules.remove(c.req.param("id"))) {
+      return c.json({ error: "Profile rule not found" }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
+  // Shows which rule an archive would hit and the settings it would convert with.
+  app.post("/profile-rules/preview", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = profileRulePreviewBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const resolved = resolveProfileSettings(parsed.data.profile, parsed.data.settings);
+    if (!resolved) return c.json({ error: "Profile not found" }, 404);
+    const metadata = await lanraragi.getClient().getArchiveMetadata(parsed.data.archiveId);
+    return c.json(profileRules.evaluate(metadata, resolved.settings, resolved.ruleContext));
+  });
+
   app.post("/convert/:id", async (c) => {
     const id = c.req.param("id");
     if (!id) return c.json({ error: "Missing archive id" }, 400);
@@ -401,14 +1326,23 @@ export function createApiRouter(
       return c.json({ error: parsedBody.error.flatten() }, 400);
     }
 
-    const settings = resolveSettings(parsedBody.data.settings);
-    logInfo(`convert request id=${id} splitMode=${settings.splitMode} orientation=${settings.orientation}`);
+    const target = resolveSavedDevice(parsedBody.data.device);
+    if (parsedBody.data.device && !target) return c.json({ error: "Device not found" }, 404);
+    const resolved = resolveProfileSettings(parsedBody.data.profile, parsedBody.data.settings, target);
+    if (!resolved) return c.json({ error: "Profile not found" }, 404);
+    const { settings } = resolved;
+    logInfo(
+      `convert request id=${id} profile=${JSON.stringify(resolved.profile.name)} splitMode=${settings.splitMode} orientation=${settings.orientation}`,
+    );
 
     const artifact = await convertArchiveToXtc({
       config,
       lrr: lanraragi.getClient(),
       archiveId: id,
       settings,
+      cache,
+      rules: profileRules,
+      ruleContext: resolved.ruleContext,
     });
     return streamFileAsResponse({
       filePath: artifact.filePath,
@@ -430,17 +1364,98 @@ export function createApiRouter(
       return c.json({ error: parsedBody.error.flatten() }, 400);
     }
 
-    const settings = resolveSettings(parsedBody.data.settings);
+    const target = resolveSavedDevice(parsedBody.data.device);
+    if (parsedBody.data.device && !target) return c.json({ error: "Device not found" }, 404);
+    const resolved = resolveProfileSettings(parsedBody.data.profile, parsedBody.data.settings, target);
+    if (!resolved) return c.json({ error: "Profile not found" }, 404);
     const job = startConversionJob({
       config,
       lrr: lanraragi.getClient(),
       archiveId: id,
-      settings,
+      settings: resolved.settings,
+      cache,
+      rules: profileRules,
+      ruleContext: resolved.ruleContext,
     });
 
     return c.json({ job });
   });
 
+  app.post("/batches", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsedBody = batchBodySchema.safeParse(bodyJson);
+    if (!parsedBody.success) {
+      return c.json({ error: parsedBody.error.flatten() }, 400);
+    }
+
+    const target = resolveSavedDevice(parsedBody.data.device);
+    if (parsedBody.data.device && !target) return c.json({ error: "Device not found" }, 404);
+    const resolved = resolveProfileSettings(parsedBody.data.profile, parsedBody.data.settings, target);
+    if (!resolved) return c.json({ error: "Profile not found" }, 404);
+
+    let uploadTarget: { baseUrl: string; path: string } | null = null;
+    if (parsedBody.data.mode === "upload") {
+      if (c.get("principal")?.role === "reader") return c.json({ error: "Read-only access" }, 403);
+      const defaults = target ?? device.getSettings();
+      try {
+        uploadTarget = {
+          baseUrl: normalizeDeviceBaseUrl(parsedBody.data.baseUrl || defaults.baseUrl),
+          path: normalizeDevicePath(parsedBody.data.path || defaults.path),
+        };
+      } catch (error) {
+        return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
+      }
+    }
+
+    const batch = startConversionBatch({
+      config,
+      lrr: lanraragi.getClient(),
+      settings: resolved.settings,
+      cache,
+      rules: profileRules,
+      ruleContext: resolved.ruleContext,
+      items: parsedBody.data.items,
+      target: uploadTarget,
+      manifest,
+      readingSync,
+    });
+    return c.json({ batch });
+  });
+
+  app.get("/batches", (c) => {
+    return c.json({ batches: listConversionBatches() });
+  });
+
+  app.get("/batches/:id", (c) => {
+    const batch = getConversionBatch(c.req.param("id"));
+    if (!batch) return c.json({ error: "Batch not found" }, 404);
+    return c.json({ batch });
+  });
+
+  app.post("/batches/:id/retry", (c) => {
+    if (c.get("principal")?.role === "reader" && getConversionBatch(c.req.param("id"))?.target) {
+      return c.json({ error: "Read-only access" }, 403);
+    }
+    const batch = retryConversionBatch(c.req.param("id"));
+    if (!batch) return c.json({ error: "Batch not found" }, 404);
+    return c.json({ batch });
+  });
+
+  app.get("/convert/jobs", (c) => {
+    return c.json({ jobs: listConversionJobs() });
+  });
+
+  app.get("/events", (c) => {
+    const active = listConversionJobs().filter((job) => !isTerminalJob(job));
+    return streamJobEvents(c, { jobId: null, initial: active });
+  });
+
+  app.get("/convert/jobs/:jobId/events", (c) => {
+    const job = getConversionJob(c.req.param("jobId"));
+    if (!job) return c.json({ error: "Job not found" }, 404);
+    return streamJobEvents(c, { jobId: job.jobId, initial: [job] });
+  });
+
   app.get("/convert/jobs/:jobId", (c) => {
     const jobId = c.req.param("jobId");
     if (!jobId) return c.json({ error: "Missing job id" }, 400);
@@ -460,6 +1475,15 @@ export function createApiRouter(
     }
   });
 
+  app.delete("/convert/jobs/:jobId", (c) => {
+    const jobId = c.req.param("jobId");
+    if (!getConversionJob(jobId)) return c.json({ error: "Job not found" }, 404);
+
+    const job = cancelConversionJob(jobId);
+    if (!job) return c.json({ error: "Job already finished" }, 409);
+    return c.json({ job });
+  });
+
   app.get("/convert/jobs/:jobId/frame", async (c) => {
     const jobId = c.req.param("jobId");
     if (!jobId) return c.json({ error: "Missing job id" }, 400);
@@ -512,53 +1536,68 @@ export function createApiRouter(
       return c.json({ error: parsedBody.error.flatten() }, 400);
     }
 
+    const target = resolveSavedDevice(parsedBody.data.device);
+    if (parsedBody.data.device && !target) return c.json({ error: "Device not found" }, 404);
+
     const artifact = takeJobArtifact(jobId);
     if (!artifact) {
       return c.json({ error: "Job is not ready for upload" }, 409);
     }
 
     let baseUrl: string;
-    const defaults = device.getSettings();
+    const defaults = target ?? device.getSettings();
     try {
       baseUrl = normalizeDeviceBaseUrl(parsedBody.data.baseUrl || defaults.baseUrl);
     } catch (error) {
       return c.json({ error: error instanceof Error ? error.message : "Invalid device URL" }, 400);
     }
     const devicePath = normalizeDevicePath(parsedBody.data.path || defaults.path);
-    const deviceClient = new XteinkClient(baseUrl);
-    const uploadStartAt = Date.now();
-    const artifactName = artifact.downloadName || `${jobId}.xtc`;
-    logInfo(
-      `upload start job=${jobId} file=${artifactName} size=${artifact.fileSize} target=${baseUrl}${devicePath}`,
-    );
+    const upload = await uploadArtifactToDevice({
+      artifact,
+      baseUrl,
+      path: devicePath,
+      label: `job=${jobId}`,
+      jobId,
+      manifest,
+      sidecar: config.DEVICE_MANIFEST_SIDECAR,
+      readingSync,
+    });
+    return c.json({
+      ok: true,
+      ...upload,
+    });
+  });
+
+  app.post("/xtc/inspect", async (c) => {
+    const input = await readXtcSource(c);
+    if ("error" in input) return c.json({ error: input.error }, input.status);
+    return c.json({ source: input.source, inspection: inspectXtc(input.bytes) });
+  });
+
+  app.post("/xtc/pages/:page", async (c) => {
+    const page = xtcPageParamSchema.safeParse(c.req.param("page"));
+    if (!page.success) return c.json({ error: page.error.flatten() }, 400);
+    const input = await readXtcSource(c);
+    if ("error" in input) return c.json({ error: input.error }, input.status);
 
     try {
-      await deviceClient.uploadFile({
-        filePath: artifact.filePath,
-        fileName: artifactName,
-        targetPath: devicePath,
-      });
-      const elapsedMs = Date.now() - uploadStartAt;
-      logInfo(
-        `upload done job=${jobId} file=${artifactName} size=${artifact.fileSize} target=${baseUrl}${devicePath} elapsed_ms=${elapsedMs}`,
-      );
-      return c.json({
-        ok: true,
-        baseUrl,
-        path: devicePath,
-        fileName: artifactName,
-        fileSize: artifact.fileSize,
-      });
+      return pngResponse(await encodeGrayscalePng(decodeXtcPage(input.bytes, page.data)));
     } catch (error) {
-      const elapsedMs = Date.now() - uploadStartAt;
-      logError(
-        `upload failed job=${jobId} file=${artifactName} size=${artifact.fileSize} target=${baseUrl}${devicePath} elapsed_ms=${elapsedMs} error=${
-          error instanceof Error ? error.message : "Unknown upload error"
-        }`,
-      );
-      throw error;
-    } finally {
-      await artifact.dispose();
+      return c.json({ error: error instanceof Error ? error.message : "Page could not be decoded" }, 422);
+    }
+  });
+
+  app.get("/convert/jobs/:jobId/pages/:page", async (c) => {
+    const page = xtcPageParamSchema.safeParse(c.req.param("page"));
+    if (!page.success) return c.json({ error: page.error.flatten() }, 400);
+    const artifact = peekJobArtifact(c.req.param("jobId"));
+    const bytes = artifact ? await readFile(artifact.filePath).catch(() => null) : null;
+    if (!bytes) return c.json({ error: "Job output not found" }, 404);
+
+    try {
+      return pngResponse(await encodeGrayscalePng(decodeXtcPage(bytes, page.data)));
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Page could not be decoded" }, 422);
     }
   });
 
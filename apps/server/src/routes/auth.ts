@@ -0,0 +1,153 @@
+import { Hono } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { z } from "zod";
+import { ADMIN_USERNAME, SESSION_COOKIE, remoteAddress, requireAdmin, type AuthManager } from "../lib/auth";
+import type { AppConfig } from "../lib/config";
+import { logInfo } from "../lib/logger";
+
+const loginBodySchema = z.object({
+  username: z.string().optional().default(""),
+  password: z.string().min(1),
+});
+
+const roleSchema = z.enum(["admin", "reader"]);
+
+const userBodySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(80)
+    // Basic auth splits on the first colon, so names cannot contain one.
+    .refine((name) => !name.includes(":"), "Name cannot contain ':'"),
+  password: z.string().min(8).max(200),
+  role: roleSchema.default("reader"),
+});
+
+const userUpdateBodySchema = z.object({
+  name: userBodySchema.shape.name.optional(),
+  password: userBodySchema.shape.password.optional(),
+  role: roleSchema.optional(),
+});
+
+const tokenBodySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  role: roleSchema.default("reader"),
+});
+
+export function createAuthRouter(config: AppConfig, auth: AuthManager): Hono {
+  const app = new Hono();
+  const secureCookie = config.SERVER_PUBLIC_URL.startsWith("https:");
+
+  const isUserNameTaken = (name: string, exceptId?: string) => {
+    if (name.trim().toLowerCase() === ADMIN_USERNAME) return true;
+    const existing = auth.findUserByName(name);
+    return Boolean(existing && existing.id !== exceptId);
+  };
+
+  app.get("/session", (c) => {
+    return c.json({ enabled: auth.enabled, principal: c.get("principal") ?? null });
+  });
+
+  app.post("/login", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = loginBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    if (!auth.enabled) return c.json({ error: "Authentication is not enabled" }, 409);
+
+    const session = await auth.login(parsed.data.username, parsed.data.password, remoteAddress(c));
+    if (session.retryAfterMs !== null) {
+      c.header("Retry-After", String(Math.ceil(session.retryAfterMs / 1000)));
+      return c.json({ error: "Too many failed sign-in attempts" }, 429);
+    }
+    if (!session.principal || !session.sessionId) return c.json({ error: "Invalid username or password" }, 401);
+    setCookie(c, SESSION_COOKIE, session.sessionId, {
+      httpOnly: true,
+      sameSite: "Lax",
+      secure: secureCookie,
+      path: "/",
+      maxAge: auth.sessionHours * 60 * 60,
+    });
+    return c.json({ principal: session.principal });
+  });
+
+  app.post("/logout", (c) => {
+    const sessionId = getCookie(c, SESSION_COOKIE);
+    if (sessionId) auth.logout(sessionId);
+    deleteCookie(c, SESSION_COOKIE, { path: "/" });
+    return c.json({ ok: true });
+  });
+
+  app.use("/users/*", requireAdmin());
+  app.use("/users", requireAdmin());
+  app.use("/tokens/*", requireAdmin());
+  app.use("/tokens", requireAdmin());
+
+  app.get("/users", (c) => {
+    return c.json({ users: auth.listUsers() });
+  });
+
+  app.post("/users", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = userBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    if (isUserNameTaken(parsed.data.name)) {
+      return c.json({ error: "User name already exists" }, 409);
+    }
+    const user = await auth.createUser(parsed.data);
+    logInfo(`auth user created id=${user.id} name=${JSON.stringify(user.name)} role=${user.role}`);
+    return c.json({ user }, 201);
+  });
+
+  app.patch("/users/:id", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = userUpdateBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const id = c.req.param("id");
+    if (parsed.data.name !== undefined && isUserNameTaken(parsed.data.name, id)) {
+      return c.json({ error: "User name already exists" }, 409);
+    }
+    const user = await auth.updateUser(id, parsed.data);
+    if (!user) return c.json({ error: "User not found" }, 404);
+    logInfo(`auth user updated id=${user.id} name=${JSON.stringify(user.name)} role=${user.role}`);
+    return c.json({ user });
+  });
+
+  app.delete("/users/:id", (c) => {
+    const id = c.req.param("id");
+    if (!auth.removeUser(id)) return c.json({ error: "User not found" }, 404);
+    logInfo(`auth user deleted id=${id}`);
+    return c.json({ ok: true });
+  });
+
+  app.get("/tokens", (c) => {
+    return c.json({ tokens: auth.listTokens() });
+  });
+
+  // The secret is only returned here; afterwards the token is listed by its prefix.
+  app.post("/tokens", async (c) => {
+    const bodyJson = await c.req.json().catch(() => ({}));
+    const parsed = tokenBodySchema.safeParse(bodyJson);
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    const { token, secret } = auth.createToken(parsed.data);
+    logInfo(`auth token created id=${token.id} name=${JSON.stringify(token.name)} role=${token.role}`);
+    return c.json({ token, secret }, 201);
+  });
+
+  app.delete("/tokens/:id", (c) => {
+    const id = c.req.param("id");
+    if (!auth.removeToken(id)) return c.json({ error: "Token not found" }, 404);
+    logInfo(`auth token deleted id=${id}`);
+    return c.json({ ok: true });
+  });
+
+  return app;
+}
@@ -1,86 +1,51 @@
 import { Hono } from "hono";
-import { z } from "zod";
 import { convertArchiveToXtc } from "../lib/conversion";
 import type { AppConfig } from "../lib/config";
-import { defaultConversionSettings } from "../lib/settings";
+import type { ConversionCache } from "../lib/conversion-cache";
 import { streamFileAsResponse } from "../lib/http";
 import type { LanraragiConnectionManager } from "../lib/lanraragi-connection";
+import {
+  catalogHref,
+  facetNamespaceSchema,
+  facetQuerySchema,
+  listQuerySchema,
+  opdsBaseUrl,
+  opdsThumbnailLink,
+  searchQuerySchema,
+  titleBrowseQuerySchema,
+  resolveOpdsDownloadSettings,
+  tagScheme,
+  toLanraragiFilter,
+  XTC_MEDIA_TYPE,
+} from "../lib/opds-feeds";
+import type { OpdsFacet, OpdsFeed, OpdsFeedSource, OpdsNavigationItem, OpdsPublication } from "../lib/opds-feeds";
+import type { ProfileRuleManager } from "../lib/profile-rules";
+import type { ProfileManager } from "../lib/profiles";
+import type { ReadingSyncManager } from "../lib/reading-sync";
+import { thumbnailQuerySchema, thumbnailResponse, type ThumbnailCache } from "../lib/thumbnail-cache";
 import { opdsDateFromUnix, xmlEscape } from "../lib/xml";
-import type { ArchiveRecord } from "../types";
 
-const listQuerySchema = z.object({
-  q: z.string().optional(),
-  title: z.string().optional(),
-  page: z.coerce.number().int().min(1).default(1),
-  pageSize: z.coerce.number().int().min(10).max(100).default(30),
-  sortby: z.enum(["title", "progress", "lastreadtime", "size", "time_read", "date_added"]).default("title"),
-  order: z.enum(["asc", "desc"]).default("asc"),
-});
-
-const facetQuerySchema = z.object({
-  letter: z.string().optional(),
-  page: z.coerce.number().int().min(1).default(1),
-  pageSize: z.coerce.number().int().min(10).max(100).default(40),
-});
-
-const titleBrowseQuerySchema = z.object({
-  dir: z.enum(["asc", "desc"]).default("asc"),
-  letter: z.string().optional(),
-  page: z.coerce.number().int().min(1).default(1),
-  pageSize: z.coerce.number().int().min(10).max(100).default(30),
-});
-
-const facetNamespaceSchema = z.enum(["artist", "group"]);
-
-const FACET_CACHE_MS = 5 * 60 * 1000;
-const TITLE_CACHE_MS = 15 * 60 * 1000;
-const LETTER_BUCKETS = ["0-9", ...Array.from("ABCDEFGHIJKLMNOPQRSTUVWXYZ"), "#"];
-
-type FacetNamespace = z.infer<typeof facetNamespaceSchema>;
-type FacetItem = {
-  name: string;
-  count: number;
-  bucket: string;
-};
-
-type TitleBrowseDir = "asc" | "desc";
-type TitleBucketCache = {
-  at: number;
-  nextStart: number;
-  total: number;
-  done: boolean;
-  buckets: Record<string, ArchiveRecord[]>;
-};
-
-function qs(input: Record<string, string | number | undefined>): string {
-  const u = new URLSearchParams();
-  for (const [k, v] of Object.entries(input)) {
-    if (v === undefined || v === "") continue;
-    u.set(k, String(v));
-  }
-  const rendered = u.toString();
-  return rendered ? `?${rendered}` : "";
-}
-
-function baseUrl(config: AppConfig): string {
-  return config.SERVER_PUBLIC_URL.replace(/\/+$/g, "");
-}
+const CATALOG_ROOT = "/opds";
 
 function renderFeed(params: {
   id: string;
   title: string;
   selfHref: string;
   subtitle?: string;
+  links?: string[];
   entries: string[];
 }): string {
   const updated = new Date().toISOString();
   return `<?xml version="1.0" encoding="utf-8"?>
-<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opds="http://opds-spec.org/2010/catalog">
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opds="http://opds-spec.org/2010/catalog" xmlns:dc="http://purl.org/dc/terms/" xmlns:schema="http://schema.org/">
   <id>${xmlEscape(params.id)}</id>
   <title>${xmlEscape(params.title)}</title>
   <updated>${updated}</updated>
   <author><name>lanraragi-xtc-bridge</name></author>
   <link rel="self" type="application/atom+xml;profile=opds-catalog" href="${xmlEscape(params.selfHref)}"/>
+  <link rel="search" type="application/opensearchdescription+xml" href="/opds/opensearch.xml"/>
+  <link rel="search" type="application/atom+xml;profile=opds-catalog;kind=acquisition" href="/opds/search?q={searchTerms}"/>
+  ${(params.links ?? []).join("\n  ")}
   ${params.subtitle ? `<subtitle>${xmlEscape(params.subtitle)}</subtitle>` : ""}
   ${params.entries.join("\n")}
 </feed>`;
@@ -101,254 +66,115 @@ function renderNavigationEntry(params: {
   </entry>`;
 }
 
-function renderArchiveEntry(config: AppConfig, arc: ArchiveRecord): string {
+function renderArchiveEntry(config: AppConfig, publication: OpdsPublication): string {
+  const { archive: arc, description } = publication;
   const id = encodeURIComponent(arc.arcid);
-  const title = xmlEscape(arc.title || arc.filename || arc.arcid);
-  const summary = xmlEscape(arc.summary || "");
-  const tags = xmlEscape(arc.tags || "");
-  const thumb = `/api/archives/${id}/thumbnail`;
-  const download = `/opds/download/${id}`;
-  const updatedAt = opdsDateFromUnix(arc.lastreadtime);
+  const thumb = opdsThumbnailLink(config, arc.arcid);
+  const download = `/opds/download/${id}.xtc`;
+  const length = publication.artifactSize !== null ? ` length="${publication.artifactSize}"` : "";
+  const lines = [
+    `<id>${xmlEscape(opdsBaseUrl(config))}/opds/item/${id}</id>`,
+    `<title>${xmlEscape(description.title)}</title>`,
+    `<updated>${opdsDateFromUnix(arc.lastreadtime)}</updated>`,
+    ...description.authors.map((name) => `<author><name>${xmlEscape(name)}</name></author>`),
+    ...description.publishers.map((name) => `<dc:publisher>${xmlEscape(name)}</dc:publisher>`),
+    description.language ? `<dc:language>${xmlEscape(description.language)}</dc:language>` : "",
+    description.issued ? `<dc:issued>${description.issued}</dc:issued>` : "",
+    description.series ? `<schema:isPartOf>${xmlEscape(description.series)}</schema:isPartOf>` : "",
+    arc.pagecount > 0 ? `<schema:numberOfPages>${arc.pagecount}</schema:numberOfPages>` : "",
+    `<summary>${xmlEscape(arc.summary || "")}</summary>`,
+    ...description.tags.map(
+      (tag) =>
+        `<category scheme="${xmlEscape(tagScheme(tag.namespace))}" term="${xmlEscape(tag.value)}" label="${xmlEscape(
+          tag.namespace ? `${tag.namespace}: ${tag.value}` : tag.value,
+        )}"/>`,
+    ),
+    `<link rel="http://opds-spec.org/image/thumbnail" type="${thumb.type}" href="${xmlEscape(thumb.href)}"/>`,
+    `<link rel="http://opds-spec.org/acquisition" type="${XTC_MEDIA_TYPE}" href="${xmlEscape(download)}"${length}/>`,
+    `<link rel="http://opds-spec.org/acquisition" type="application/octet-stream" href="${xmlEscape(download)}"${length}/>`,
+  ];
 
   return `<entry>
-    <id>${xmlEscape(baseUrl(config))}/opds/item/${id}</id>
-    <title>${title}</title>
-    <updated>${updatedAt}</updated>
-    <summary>${summary}</summary>
-    <category term="tags" label="${tags}"/>
-    <link rel="http://opds-spec.org/image/thumbnail" type="image/jpeg" href="${xmlEscape(thumb)}"/>
-    <link rel="http://opds-spec.org/acquisition" type="application/epub+zip" href="${xmlEscape(download)}"/>
-    <link rel="http://opds-spec.org/acquisition" type="application/octet-stream" href="${xmlEscape(download)}"/>
+    ${lines.filter(Boolean).join("\n    ")}
   </entry>`;
 }
 
-function resolveDownloadArchiveId(path: string, rawParamId?: string): string | null {
-  const direct = (rawParamId ?? "").trim().replace(/\.xtc$/i, "");
-  if (direct) return decodeURIComponent(direct);
-
-  const m = path.match(/\/download\/([^/]+?)(?:\.xtc)?$/i);
-  if (!m || !m[1]) return null;
-  return decodeURIComponent(m[1]);
-}
-
-function bucketForFacetName(name: string): string {
-  const first = name.trim().charAt(0).toUpperCase();
-  if (!first) return "#";
-  if (first >= "A" && first <= "Z") return first;
-  if (first >= "0" && first <= "9") return "0-9";
-  return "#";
-}
-
-function normalizeBucket(input?: string): string | undefined {
-  if (!input) return undefined;
-  const value = input.trim().toUpperCase();
-  if (value === "0-9" || value === "#") return value;
-  if (value.length === 1 && value >= "A" && value <= "Z") return value;
-  if (value.length === 1 && value >= "0" && value <= "9") return "0-9";
-  return undefined;
-}
-
-function titleBucketOrder(dir: TitleBrowseDir): string[] {
-  const letters = Array.from("ABCDEFGHIJKLMNOPQRSTUVWXYZ");
-  return dir === "desc" ? ["0-9", ...letters.reverse(), "#"] : ["0-9", ...letters, "#"];
+function renderFacetLink(facet: OpdsFacet): string {
+  return `<link rel="http://opds-spec.org/facet" type="application/atom+xml;profile=opds-catalog;kind=acquisition" href="${xmlEscape(
+    catalogHref(CATALOG_ROOT, facet.href),
+  )}" title="${xmlEscape(facet.title)}" opds:facetGroup="${xmlEscape(facet.group)}"${facet.active ? ' opds:activeFacet="true"' : ""}/>`;
 }
 
-async function renderArchiveListFeed(params: {
-  config: AppConfig;
-  lanraragi: LanraragiConnectionManager;
-  feedPath: string;
-  q?: string;
-  title?: string;
-  page: number;
-  pageSize: number;
-  sortby: "title" | "progress" | "lastreadtime" | "size" | "time_read" | "date_added";
-  order: "asc" | "desc";
-  includeHomeLink?: boolean;
-}): Promise<string> {
-  const start = (params.page - 1) * params.pageSize;
-  const result = await params.lanraragi.getClient().searchArchives({
-    filter: params.q ?? "",
-    start,
-    sortby: params.sortby,
-    order: params.order,
-  });
-
-  const archives = result.data.slice(0, params.pageSize);
-  const hasNext = start + archives.length < result.recordsFiltered;
-  const listingTitle = params.title?.trim() || (params.q ? `Results: ${params.q}` : "Archives");
-
+/** Renders a shared feed model as Atom: up entry, paging entries, navigation, then publications. */
+function renderAtomFeed(config: AppConfig, feed: OpdsFeed): string {
+  const base = opdsBaseUrl(config);
+  const self = catalogHref(CATALOG_ROOT, feed.selfHref);
   const entries: string[] = [];
-  if (params.includeHomeLink) {
+  const pushNavigation = (fragment: string, item: OpdsNavigationItem) =>
     entries.push(
       renderNavigationEntry({
-        id: `${baseUrl(params.config)}${params.feedPath}#home`,
-        title: "Back to OPDS Home",
-        href: "/opds",
+        id: `${base}${self}#${fragment}`,
+        title: item.title,
+        summary: item.summary,
+        href: catalogHref(CATALOG_ROOT, item.href),
       }),
     );
-  }
-  if (params.page > 1) {
-    entries.push(
-      renderNavigationEntry({
-        id: `${baseUrl(params.config)}${params.feedPath}#prev-${params.page - 1}`,
-        title: "Previous Page",
-        href: `${params.feedPath}${qs({
-          q: params.q,
-          title: params.title,
-          page: params.page - 1,
-          pageSize: params.pageSize,
-          sortby: params.sortby,
-          order: params.order,
-        })}`,
-      }),
-    );
-  }
-  if (hasNext) {
+
+  if (feed.up) pushNavigation("up", feed.up);
+  if (feed.previousHref) pushNavigation("prev", { title: "Previous Page", href: feed.previousHref });
+  if (feed.nextHref) pushNavigation("next", { title: "Next Page", href: feed.nextHref });
+  for (const item of feed.navigation) {
     entries.push(
       renderNavigationEntry({
-        id: `${baseUrl(params.config)}${params.feedPath}#next-${params.page + 1}`,
-        title: "Next Page",
-        href: `${params.feedPath}${qs({
-          q: params.q,
-          title: params.title,
-          page: params.page + 1,
-          pageSize: params.pageSize,
-          sortby: params.sortby,
-          order: params.order,
-        })}`,
+        id: `${base}${catalogHref(CATALOG_ROOT, item.href)}`,
+        title: item.title,
+        summary: item.summary,
+        href: catalogHref(CATALOG_ROOT, item.href),
       }),
     );
   }
-  entries.push(...archives.map((arc) => renderArchiveEntry(params.config, arc)));
+  entries.push(...feed.publications.map((arc) => renderArchiveEntry(config, arc)));
 
   return renderFeed({
-    id: `${baseUrl(params.config)}${params.feedPath}`,
-    title: listingTitle,
-    selfHref: `${baseUrl(params.config)}${params.feedPath}${qs({
-      q: params.q,
-      title: params.title,
-      page: params.page,
-      pageSize: params.pageSize,
-      sortby: params.sortby,
-      order: params.order,
-    })}`,
-    subtitle: `Total ${result.recordsFiltered} archives. Page ${params.page}. Sorted by ${params.sortby} ${params.order}.`,
+    id: `${base}${self}`,
+    title: feed.title,
+    selfHref: `${base}${self}`,
+    subtitle: feed.subtitle,
+    links: feed.facets.map(renderFacetLink),
     entries,
   });
 }
 
-export function createOpdsRouter(config: AppConfig, lanraragi: LanraragiConnectionManager): Hono {
-  const app = new Hono();
-  const facetCache = new Map<FacetNamespace, { at: number; items: FacetItem[] }>();
-  const titleCacheByDir: Record<TitleBrowseDir, TitleBucketCache | null> = {
-    asc: null,
-    desc: null,
-  };
-
-  const createEmptyTitleBuckets = (): Record<string, ArchiveRecord[]> =>
-    Object.fromEntries(LETTER_BUCKETS.map((bucket) => [bucket, []])) as Record<string, ArchiveRecord[]>;
-
-  const getOrResetTitleCache = (dir: TitleBrowseDir): TitleBucketCache => {
-    const now = Date.now();
-    const existing = titleCacheByDir[dir];
-    if (existing && now - existing.at < TITLE_CACHE_MS) {
-      return existing;
-    }
-    const next: TitleBucketCache = {
-      at: now,
-      nextStart: 0,
-      total: Number.POSITIVE_INFINITY,
-      done: false,
-      buckets: createEmptyTitleBuckets(),
-    };
-    titleCacheByDir[dir] = next;
-    return next;
-  };
-
-  const fillOneTitleChunk = async (dir: TitleBrowseDir): Promise<void> => {
-    const cache = getOrResetTitleCache(dir);
-    if (cache.done) return;
-
-    const result = await lanraragi.getClient().searchArchives({
-      filter: "",
-      start: cache.nextStart,
-      sortby: "title",
-      order: dir,
-    });
-    cache.total = result.recordsFiltered;
-
-    if (!result.data.length) {
-      cache.done = true;
-      cache.at = Date.now();
-      return;
-    }
-
-    for (const arc of result.data) {
-      const name = arc.title || arc.filename || "";
-      const bucket = bucketForFacetName(name);
-      if (!cache.buckets[bucket]) {
-        cache.buckets[bucket] = [];
-      }
-      cache.buckets[bucket].push(arc);
-    }
-
-    cache.nextStart += result.data.length;
-    if (cache.nextStart >= cache.total) {
-      cache.done = true;
-    }
-    cache.at = Date.now();
-  };
-
-  const ensureTitleBucketItems = async (params: {
-    dir: TitleBrowseDir;
-    bucket: string;
-    needed: number;
-  }): Promise<{ items: ArchiveRecord[]; done: boolean }> => {
-    const cache = getOrResetTitleCache(params.dir);
-    while ((cache.buckets[params.bucket]?.length ?? 0) < params.needed && !cache.done) {
-      await fillOneTitleChunk(params.dir);
-    }
-    return {
-      items: cache.buckets[params.bucket] ?? [],
-      done: cache.done,
-    };
-  };
-
-  const getFacetItems = async (namespace: FacetNamespace): Promise<FacetItem[]> => {
-    const now = Date.now();
-    const cached = facetCache.get(namespace);
-    if (cached && now - cached.at < FACET_CACHE_MS) {
-      return cached.items;
-    }
-
-    const stats = await lanraragi.getClient().getTagStats(1);
-    const merged = new Map<string, { name: string; count: number }>();
-    for (const row of stats) {
-      if (row.namespace.toLowerCase() !== namespace) continue;
-      const name = row.text.trim();
-      if (!name) continue;
-      const key = name.toLowerCase();
-      const count = Number.parseInt(row.weight, 10);
-      const existing = merged.get(key);
-      if (!existing) {
-        merged.set(key, { name, count: Number.isFinite(count) ? count : 0 });
-      } else {
-        existing.count += Number.isFinite(count) ? count : 0;
-      }
-    }
+function atomResponse(body: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "content-type": "application/atom+xml; charset=utf-8",
+      "cache-control": "no-store",
+    },
+  });
+}
 
-    const items: FacetItem[] = Array.from(merged.values())
-      .map((item) => ({
-        name: item.name,
-        count: item.count,
-        bucket: bucketForFacetName(item.name),
-      }))
-      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base", numeric: true }));
+function resolveDownloadArchiveId(path: string, rawParamId?: string): string | null {
+  const direct = (rawParamId ?? "").trim().replace(/\.xtc$/i, "");
+  if (direct) return decodeURIComponent(direct);
 
-    facetCache.set(namespace, { at: now, items });
-    return items;
-  };
+  const m = path.match(/\/download\/([^/]+?)(?:\.xtc)?$/i);
+  if (!m || !m[1]) return null;
+  return decodeURIComponent(m[1]);
+}
 
+export function createOpdsRouter(
+  config: AppConfig,
+  lanraragi: LanraragiConnectionManager,
+  conversionCache: ConversionCache,
+  profiles: ProfileManager,
+  profileRules: ProfileRuleManager,
+  feeds: OpdsFeedSource,
+  readingSync: ReadingSyncManager,
+  thumbnails: ThumbnailCache,
+): Hono {
+  const app = new Hono();
   app.get("/", async (c) => {
     const raw = c.req.query();
     const shouldRenderLegacyListing =
@@ -357,110 +183,61 @@ export function createOpdsRouter(config: AppConfig, lanraragi: LanraragiConnecti
       raw.pageSize !== undefined ||
       raw.sortby !== undefined ||
       raw.order !== undefined ||
-      raw.title !== undefined;
+      raw.title !== undefined ||
+      raw.language !== undefined ||
+      raw.category !== undefined ||
+      raw.source !== undefined;
 
     if (shouldRenderLegacyListing) {
       const parsedList = listQuerySchema.safeParse(raw);
       if (!parsedList.success) {
         return c.text("Invalid query", 400);
       }
-
-      const body = await renderArchiveListFeed({
-        config,
-        lanraragi,
-        feedPath: "/opds",
-        q: parsedList.data.q,
-        title: parsedList.data.title,
-        page: parsedList.data.page,
-        pageSize: parsedList.data.pageSize,
-        sortby: parsedList.data.sortby,
-        order: parsedList.data.order,
-      });
-
-      return c.body(body, 200, {
-        "content-type": "application/atom+xml; charset=utf-8",
-        "cache-control": "no-store",
-      });
+      return atomResponse(renderAtomFeed(config, await feeds.list("/", parsedList.data)));
     }
 
-    const body = renderFeed({
-      id: `${baseUrl(config)}/opds`,
-      title: "LANraragi XTC Catalog",
-      selfHref: `${baseUrl(config)}/opds`,
-      subtitle: "Browse with navigation-first feeds optimized for XTEink.",
-      entries: [
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/nav/recent`,
-          title: "Recently Added",
-          summary: "Newest archives first",
-          href: `/opds/list${qs({
-            title: "Recently Added",
-            page: 1,
-            pageSize: 30,
-            sortby: "date_added",
-            order: "desc",
-          })}`,
-        }),
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/nav/title-asc`,
-          title: "Titles A-Z",
-          href: `/opds/titles${qs({
-            dir: "asc",
-            page: 1,
-            pageSize: 30,
-          })}`,
-        }),
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/nav/title-desc`,
-          title: "Titles Z-A",
-          href: `/opds/titles${qs({
-            dir: "desc",
-            page: 1,
-            pageSize: 30,
-          })}`,
-        }),
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/nav/artists`,
-          title: "Browse by Artist",
-          href: "/opds/facets/artist",
-        }),
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/nav/groups`,
-          title: "Browse by Group",
-          href: "/opds/facets/group",
-        }),
-      ],
-    });
+    return atomResponse(renderAtomFeed(config, await feeds.root()));
+  });
 
+  app.get("/opensearch.xml", (c) => {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
+  <ShortName>LANraragi XTC</ShortName>
+  <Description>Search the LANraragi library by title or tag</Description>
+  <InputEncoding>UTF-8</InputEncoding>
+  <OutputEncoding>UTF-8</OutputEncoding>
+  <Url type="application/atom+xml;profile=opds-catalog;kind=acquisition" template="${xmlEscape(opdsBaseUrl(config))}/opds/search?q={searchTerms}"/>
+</OpenSearchDescription>`;
     return c.body(body, 200, {
-      "content-type": "application/atom+xml; charset=utf-8",
+      "content-type": "application/opensearchdescription+xml; charset=utf-8",
       "cache-control": "no-store",
     });
   });
 
+  app.get("/search", async (c) => {
+    const parsed = searchQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.text("Missing or invalid search query", 400);
+    }
+
+    const feed = await feeds.list(
+      "/search",
+      {
+        ...parsed.data,
+        filter: toLanraragiFilter(parsed.data.q),
+        title: parsed.data.title || `Search: ${parsed.data.q}`,
+      },
+      { includeHomeLink: true },
+    );
+    return atomResponse(renderAtomFeed(config, feed));
+  });
+
   app.get("/list", async (c) => {
     const parsed = listQuerySchema.safeParse(c.req.query());
     if (!parsed.success) {
       return c.text("Invalid query", 400);
     }
-
-    const body = await renderArchiveListFeed({
-      config,
-      lanraragi,
-      feedPath: "/opds/list",
-      q: parsed.data.q,
-      title: parsed.data.title,
-      page: parsed.data.page,
-      pageSize: parsed.data.pageSize,
-      sortby: parsed.data.sortby,
-      order: parsed.data.order,
-      includeHomeLink: true,
-    });
-
-    return c.body(body, 200, {
-      "content-type": "application/atom+xml; charset=utf-8",
-      "cache-control": "no-store",
-    });
+    return atomResponse(renderAtomFeed(config, await feeds.list("/list", parsed.data, { includeHomeLink: true })));
   });
 
   app.get("/titles", async (c) => {
@@ -468,252 +245,55 @@ export function createOpdsRouter(config: AppConfig, lanraragi: LanraragiConnecti
     if (!parsed.success) {
       return c.text("Invalid query", 400);
     }
+    return atomResponse(renderAtomFeed(config, await feeds.titles(parsed.data)));
+  });
 
-    const dir = parsed.data.dir;
-    const letter = normalizeBucket(parsed.data.letter);
-    const orderLabel = dir === "desc" ? "Z-A" : "A-Z";
-
-    if (!letter) {
-      const entries: string[] = [
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/titles#home`,
-          title: "Back to OPDS Home",
-          href: "/opds",
-        }),
-      ];
-
-      for (const bucket of titleBucketOrder(dir)) {
-        entries.push(
-          renderNavigationEntry({
-            id: `${baseUrl(config)}/opds/titles#${dir}-${bucket}`,
-            title: bucket,
-            href: `/opds/titles${qs({
-              dir,
-              letter: bucket,
-              page: 1,
-              pageSize: parsed.data.pageSize,
-            })}`,
-          }),
-        );
-      }
-
-      const body = renderFeed({
-        id: `${baseUrl(config)}/opds/titles${qs({ dir })}`,
-        title: `Titles ${orderLabel}`,
-        selfHref: `${baseUrl(config)}/opds/titles${qs({ dir })}`,
-        subtitle: "Choose a letter section.",
-        entries,
-      });
-      return c.body(body, 200, {
-        "content-type": "application/atom+xml; charset=utf-8",
-        "cache-control": "no-store",
-      });
-    }
-
-    const page = parsed.data.page;
-    const pageSize = parsed.data.pageSize;
-    const start = (page - 1) * pageSize;
-    const needed = start + pageSize + 1;
-    const { items, done } = await ensureTitleBucketItems({
-      dir,
-      bucket: letter,
-      needed,
-    });
-    const pageItems = items.slice(start, start + pageSize);
-    const hasNext = items.length > start + pageSize || !done;
-
-    const entries: string[] = [
-      renderNavigationEntry({
-        id: `${baseUrl(config)}/opds/titles#letters-${dir}`,
-        title: `Back to Titles ${orderLabel}`,
-        href: `/opds/titles${qs({ dir, page: 1, pageSize })}`,
-      }),
-    ];
-
-    if (page > 1) {
-      entries.push(
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/titles#prev-${dir}-${letter}-${page - 1}`,
-          title: "Previous Page",
-          href: `/opds/titles${qs({ dir, letter, page: page - 1, pageSize })}`,
-        }),
-      );
-    }
-    if (hasNext) {
-      entries.push(
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/titles#next-${dir}-${letter}-${page + 1}`,
-          title: "Next Page",
-          href: `/opds/titles${qs({ dir, letter, page: page + 1, pageSize })}`,
-        }),
-      );
-    }
-
-    entries.push(...pageItems.map((arc) => renderArchiveEntry(config, arc)));
+  app.get("/facets", async () => atomResponse(renderAtomFeed(config, await feeds.namespaces())));
 
-    const body = renderFeed({
-      id: `${baseUrl(config)}/opds/titles${qs({ dir, letter, page, pageSize })}`,
-      title: `Titles ${orderLabel}: ${letter}`,
-      selfHref: `${baseUrl(config)}/opds/titles${qs({ dir, letter, page, pageSize })}`,
-      subtitle: `${orderLabel} order by title. Section ${letter}. Page ${page}.`,
-      entries,
-    });
-
-    return c.body(body, 200, {
-      "content-type": "application/atom+xml; charset=utf-8",
-      "cache-control": "no-store",
-    });
-  });
+  app.get("/categories", async () => atomResponse(renderAtomFeed(config, await feeds.categories())));
 
   app.get("/facets/:namespace", async (c) => {
     const parsedNamespace = facetNamespaceSchema.safeParse(c.req.param("namespace"));
     if (!parsedNamespace.success) {
       return c.text("Invalid namespace", 400);
     }
-    const namespace = parsedNamespace.data;
 
     const parsed = facetQuerySchema.safeParse(c.req.query());
     if (!parsed.success) {
       return c.text("Invalid query", 400);
     }
-
-    const letter = normalizeBucket(parsed.data.letter);
-    const titleBase = namespace === "artist" ? "Artists" : "Groups";
-    const items = await getFacetItems(namespace);
-
-    if (!letter) {
-      const counts = new Map<string, number>(LETTER_BUCKETS.map((bucket) => [bucket, 0]));
-      for (const item of items) {
-        counts.set(item.bucket, (counts.get(item.bucket) ?? 0) + 1);
-      }
-
-      const entries: string[] = [
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/facets/${namespace}#home`,
-          title: "Back to OPDS Home",
-          href: "/opds",
-        }),
-      ];
-
-      for (const bucket of LETTER_BUCKETS) {
-        const count = counts.get(bucket) ?? 0;
-        if (count === 0) continue;
-        entries.push(
-          renderNavigationEntry({
-            id: `${baseUrl(config)}/opds/facets/${namespace}#${bucket}`,
-            title: `${bucket} (${count})`,
-            href: `/opds/facets/${namespace}${qs({ letter: bucket, page: 1, pageSize: 40 })}`,
-          }),
-        );
-      }
-
-      const body = renderFeed({
-        id: `${baseUrl(config)}/opds/facets/${namespace}`,
-        title: `${titleBase} (A-Z)`,
-        selfHref: `${baseUrl(config)}/opds/facets/${namespace}`,
-        subtitle: `Choose a letter bucket. ${items.length} total ${titleBase.toLowerCase()}.`,
-        entries,
-      });
-
-      return c.body(body, 200, {
-        "content-type": "application/atom+xml; charset=utf-8",
-        "cache-control": "no-store",
-      });
-    }
-
-    const filtered = items.filter((item) => item.bucket === letter);
-    const start = (parsed.data.page - 1) * parsed.data.pageSize;
-    const pageItems = filtered.slice(start, start + parsed.data.pageSize);
-    const hasNext = start + pageItems.length < filtered.length;
-
-    const entries: string[] = [
-      renderNavigationEntry({
-        id: `${baseUrl(config)}/opds/facets/${namespace}#letters`,
-        title: `Back to ${titleBase} A-Z`,
-        href: `/opds/facets/${namespace}`,
-      }),
-    ];
-
-    if (parsed.data.page > 1) {
-      entries.push(
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/facets/${namespace}#prev-${letter}-${parsed.data.page - 1}`,
-          title: "Previous Page",
-          href: `/opds/facets/${namespace}${qs({
-            letter,
-            page: parsed.data.page - 1,
-            pageSize: parsed.data.pageSize,
-          })}`,
-        }),
-      );
-    }
-    if (hasNext) {
-      entries.push(
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/facets/${namespace}#next-${letter}-${parsed.data.page + 1}`,
-          title: "Next Page",
-          href: `/opds/facets/${namespace}${qs({
-            letter,
-            page: parsed.data.page + 1,
-            pageSize: parsed.data.pageSize,
-          })}`,
-        }),
-      );
-    }
-
-    for (const facet of pageItems) {
-      entries.push(
-        renderNavigationEntry({
-          id: `${baseUrl(config)}/opds/facets/${namespace}/${encodeURIComponent(facet.name)}`,
-          title: `${facet.name} (${facet.count})`,
-          href: `/opds/list${qs({
-            q: `${namespace}:${facet.name}`,
-            title: `${titleBase.slice(0, -1)}: ${facet.name}`,
-            page: 1,
-            pageSize: 30,
-            sortby: "title",
-            order: "asc",
-          })}`,
-        }),
-      );
-    }
-
-    const body = renderFeed({
-      id: `${baseUrl(config)}/opds/facets/${namespace}${qs({
-        letter,
-        page: parsed.data.page,
-        pageSize: parsed.data.pageSize,
-      })}`,
-      title: `${titleBase}: ${letter}`,
-      selfHref: `${baseUrl(config)}/opds/facets/${namespace}${qs({
-        letter,
-        page: parsed.data.page,
-        pageSize: parsed.data.pageSize,
-      })}`,
-      subtitle: `${filtered.length} ${titleBase.toLowerCase()} in bucket ${letter}. Page ${parsed.data.page}.`,
-      entries,
-    });
-
-    return c.body(body, 200, {
-      "content-type": "application/atom+xml; charset=utf-8",
-      "cache-control": "no-store",
-    });
+    return atomResponse(renderAtomFeed(config, await feeds.facets(parsedNamespace.data, parsed.data)));
   });
 
   const handleDownload = async (c: any) => {
     const id = resolveDownloadArchiveId(c.req.path, c.req.param("id"));
     if (!id) return c.text("Missing archive id", 400);
 
+    const resolved = resolveOpdsDownloadSettings(config, profiles, c.req.query("profile"));
+    if (!resolved) return c.text("Profile not found", 404);
+
     const artifact = await convertArchiveToXtc({
       config,
       lrr: lanraragi.getClient(),
       archiveId: id,
-      settings: defaultConversionSettings,
+      settings: resolved.settings,
+      cache: conversionCache,
+      rules: profileRules,
+      ruleContext: resolved.ruleContext,
+    });
+    // The reader decides where the file lands; reading sync finds it again by name in the recent list.
+    readingSync.recordDelivery({
+      archiveId: id,
+      fileName: artifact.downloadName,
+      devicePath: null,
+      via: "opds",
+      baseUrl: null,
+      pageCount: artifact.pageCount,
     });
     return streamFileAsResponse({
       filePath: artifact.filePath,
       downloadName: artifact.downloadName,
-      contentType: "application/octet-stream",
+      contentType: XTC_MEDIA_TYPE,
       onDone: () => {
         void artifact.dispose();
       },
@@ -723,5 +303,21 @@ export function createOpdsRouter(config: AppConfig, lanraragi: LanraragiConnecti
   app.get("/download/:id", handleDownload);
   app.get("/download/:id.xtc", handleDownload);
 
+  // Covers live under /opds so readers get the same Basic challenge as the feeds that link them.
+  app.get("/thumbnail/:id", async (c) => {
+    const id = c.req.param("id");
+    if (!id) return c.text("Missing archive id", 400);
+    const parsed = thumbnailQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.text("Invalid query", 400);
+    }
+
+    const thumbnail = await thumbnails.get(lanraragi.getClient(), id, parsed.data.variant);
+    return thumbnailResponse(thumbnail, {
+      ifNoneMatch: c.req.header("if-none-match"),
+      ifModifiedSince: c.req.header("if-modified-since"),
+    });
+  });
+
   return app;
 }
@@ -0,0 +1,224 @@
+import { Hono } from "hono";
+import type { AppConfig } from "../lib/config";
+import {
+  catalogHref,
+  facetNamespaceSchema,
+  facetQuerySchema,
+  listQuerySchema,
+  opdsBaseUrl,
+  opdsThumbnailLink,
+  searchQuerySchema,
+  titleBrowseQuerySchema,
+  tagScheme,
+  toLanraragiFilter,
+  XTC_MEDIA_TYPE,
+} from "../lib/opds-feeds";
+import type { OpdsFeed, OpdsFeedSource, OpdsNavigationItem, OpdsPublication } from "../lib/opds-feeds";
+import { opdsDateFromUnix } from "../lib/xml";
+
+const CATALOG_ROOT = "/opds2";
+const OPDS2_TYPE = "application/opds+json";
+
+type Opds2Link = {
+  rel?: string;
+  href: string;
+  type?: string;
+  title?: string;
+  templated?: boolean;
+  properties?: Record<string, unknown>;
+};
+
+function link(config: AppConfig, href: string, extra: Omit<Opds2Link, "href"> = {}): Opds2Link {
+  return { href: `${opdsBaseUrl(config)}${catalogHref(CATALOG_ROOT, href)}`, type: OPDS2_TYPE, ...extra };
+}
+
+function renderNavigation(config: AppConfig, item: OpdsNavigationItem): Opds2Link {
+  return link(config, item.href, { title: item.title, ...(item.summary ? { properties: { description: item.summary } } : {}) });
+}
+
+function renderPublication(config: AppConfig, publication: OpdsPublication) {
+  const { archive: arc, description } = publication;
+  const base = opdsBaseUrl(config);
+  const id = encodeURIComponent(arc.arcid);
+  const thumbnail = opdsThumbnailLink(config, arc.arcid);
+
+  return {
+    metadata: {
+      "@type": "http://schema.org/Book",
+      identifier: `${base}/opds/item/${id}`,
+      title: description.title,
+      modified: opdsDateFromUnix(arc.lastreadtime),
+      ...(description.authors.length ? { author: description.authors.map((name) => ({ name })) } : {}),
+      ...(description.publishers.length ? { publisher: description.publishers.map((name) => ({ name })) } : {}),
+      ...(description.language ? { language: description.language } : {}),
+      ...(description.issued ? { published: description.issued } : {}),
+      ...(description.series ? { belongsTo: { series: [{ name: description.series }] } } : {}),
+      ...(arc.pagecount > 0 ? { numberOfPages: arc.pagecount } : {}),
+      ...(arc.summary ? { description: arc.summary } : {}),
+      ...(description.tags.length
+        ? {
+            subject: description.tags.map((tag) => ({
+              name: tag.value,
+              scheme: tagScheme(tag.namespace),
+            })),
+          }
+        : {}),
+    },
+    links: [
+      {
+        rel: "http://opds-spec.org/acquisition",
+        href: `${base}/opds/download/${id}.xtc`,
+        type: XTC_MEDIA_TYPE,
+        ...(publication.artifactSize !== null ? { properties: { size: publication.artifactSize } } : {}),
+      },
+    ],
+    images: [{ href: `${base}${thumbnail.href}`, type: thumbnail.type }],
+  };
+}
+
+function renderFeed(config: AppConfig, feed: OpdsFeed, groups: unknown[] = []) {
+  const links: Opds2Link[] = [
+    link(config, feed.selfHref, { rel: "self" }),
+    link(config, "/", { rel: "start" }),
+    {
+      rel: "search",
+      href: `${opdsBaseUrl(config)}${CATALOG_ROOT}/search{?q}`,
+      type: OPDS2_TYPE,
+      templated: true,
+    },
+  ];
+  if (feed.up) links.push(link(config, feed.up.href, { rel: "up", title: feed.up.title }));
+  if (feed.previousHref) links.push(link(config, feed.previousHref, { rel: "previous" }));
+  if (feed.nextHref) links.push(link(config, feed.nextHref, { rel: "next" }));
+
+  // Facets are grouped the way OPDS 2.0 expects: one entry per group, each with its own links.
+  const facetGroups = new Map<string, Opds2Link[]>();
+  for (const facet of feed.facets) {
+    const list = facetGroups.get(facet.group) ?? [];
+    list.push(link(config, facet.href, { title: facet.title, ...(facet.active ? { rel: "self" } : {}) }));
+    facetGroups.set(facet.group, list);
+  }
+
+  return {
+    metadata: {
+      title: feed.title,
+      ...(feed.subtitle ? { subtitle: feed.subtitle } : {}),
+      ...(feed.pagination
+        ? {
+            ...(feed.pagination.total !== null ? { numberOfItems: feed.pagination.total } : {}),
+            itemsPerPage: feed.pagination.pageSize,
+            currentPage: feed.pagination.page,
+          }
+        : {}),
+    },
+    links,
+    ...(feed.navigation.length ? { navigation: feed.navigation.map((item) => renderNavigation(config, item)) } : {}),
+    ...(feed.kind === "acquisition"
+      ? { publications: feed.publications.map((publication) => renderPublication(config, publication)) }
+      : {}),
+    ...(facetGroups.size
+      ? {
+          facets: Array.from(facetGroups, ([title, facetLinks]) => ({ metadata: { title }, links: facetLinks })),
+        }
+      : {}),
+    ...(groups.length ? { groups } : {}),
+  };
+}
+
+function opds2Response(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {
+      "content-type": `${OPDS2_TYPE}; charset=utf-8`,
+      "cache-control": "no-store",
+    },
+  });
+}
+
+/** OPDS 2.0 JSON view of the same catalog served as Atom under /opds; downloads stay on /opds. */
+export function createOpds2Router(config: AppConfig, feeds: OpdsFeedSource): Hono {
+  const app = new Hono();
+
+  app.get("/", async (c) => {
+    const raw = c.req.query();
+    if (Object.keys(raw).length > 0) {
+      const parsedList = listQuerySchema.safeParse(raw);
+      if (!parsedList.success) {
+        return c.json({ error: parsedList.error.flatten() }, 400);
+      }
+      return opds2Response(renderFeed(config, await feeds.list("/", parsedList.data)));
+    }
+
+    // The root shows the newest archives inline as a group; LANraragi being down only drops the group.
+    const groups: unknown[] = [];
+    try {
+      const recent = await feeds.list("/list", {
+        ...listQuerySchema.parse({}),
+        title: "Recently Added",
+        pageSize: 10,
+        sortby: "date_added",
+        order: "desc",
+      });
+      groups.push({
+        metadata: { title: recent.title, numberOfItems: recent.pagination?.total ?? undefined },
+        links: [link(config, recent.selfHref, { rel: "self", title: recent.title })],
+        publications: recent.publications.map((publication) => renderPublication(config, publication)),
+      });
+    } catch {
+      // Navigation still works without the group.
+    }
+    return opds2Response(renderFeed(config, await feeds.root(), groups));
+  });
+
+  app.get("/search", async (c) => {
+    const parsed = searchQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+
+    const feed = await feeds.list(
+      "/search",
+      {
+        ...parsed.data,
+        filter: toLanraragiFilter(parsed.data.q),
+        title: parsed.data.title || `Search: ${parsed.data.q}`,
+      },
+      { includeHomeLink: true },
+    );
+    return opds2Response(renderFeed(config, feed));
+  });
+
+  app.get("/list", async (c) => {
+    const parsed = listQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    return opds2Response(renderFeed(config, await feeds.list("/list", parsed.data, { includeHomeLink: true })));
+  });
+
+  app.get("/titles", async (c) => {
+    const parsed = titleBrowseQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    return opds2Response(renderFeed(config, await feeds.titles(parsed.data)));
+  });
+
+  app.get("/facets", async () => opds2Response(renderFeed(config, await feeds.namespaces())));
+
+  app.get("/categories", async () => opds2Response(renderFeed(config, await feeds.categories())));
+
+  app.get("/facets/:namespace", async (c) => {
+    const parsedNamespace = facetNamespaceSchema.safeParse(c.req.param("namespace"));
+    if (!parsedNamespace.success) {
+      return c.json({ error: "Invalid namespace" }, 400);
+    }
+    const parsed = facetQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: parsed.error.flatten() }, 400);
+    }
+    return opds2Response(renderFeed(config, await feeds.facets(parsedNamespace.data, parsed.data)));
+  });
+
+  return app;
+}
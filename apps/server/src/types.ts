@@ -18,6 +18,27 @@ export type SearchResponse = {
   data: ArchiveRecord[];
 };
 
+// `archives` is only meaningful for static categories; dynamic ones carry a `search` filter instead.
+export type LanraragiCategory = {
+  id: string;
+  name: string;
+  archives: string[];
+  search: string;
+  pinned: string;
+  last_used?: string;
+};
+
+export type CategorySummary = {
+  id: string;
+  name: string;
+  // Static categories hold a fixed archive list; dynamic ones are saved searches.
+  kind: "static" | "dynamic";
+  pinned: boolean;
+  // Only known for static categories.
+  archiveCount: number | null;
+  search: string;
+};
+
 export type ArchivePagesResponse = {
   pages: string[];
 };
@@ -26,6 +47,7 @@ export type ConversionSettings = {
   orientation: "landscape" | "portrait";
   splitMode: "overlap" | "split" | "nosplit";
   noDither: boolean;
+  colorDepth: "1bit" | "2bit";
   overlap: boolean;
   splitSpreads: string;
   splitAll: boolean;
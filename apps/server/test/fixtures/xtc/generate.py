@@ -0,0 +1,60 @@
+#!/usr/bin/env python3
+"""
+Regenerates the packer fixtures: 480x800 pages in pages/, the reference files png2xtc.py writes
+for them (pages.xtc from the folder, page-1.xtg from the first page), and odd-size.png, a page the
+native packer must reject.
+
+Usage: python3 generate.py [path/to/png2xtc.py]
+"""
+
+import math
+import os
+import subprocess
+import sys
+
+from PIL import Image
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+PNG2XTC = sys.argv[1] if len(sys.argv) > 1 else os.path.join(HERE, "../../../../../tools/epub2xtc/png2xtc.py")
+WIDTH, HEIGHT = 480, 800
+
+
+def gradient_page():
+    # Horizontal ramp with a vertical band, so both thresholds (128 for .xtg, 200 for .xtc) cut through it.
+    img = Image.new("L", (WIDTH, HEIGHT))
+    img.putdata([(x * 255 // (WIDTH - 1)) if not 200 <= y < 260 else 255 - (y - 200) * 4 for y in range(HEIGHT) for x in range(WIDTH)])
+    return img
+
+
+def rings_page():
+    # Curved edges in 16 gray steps; coarse enough to keep the PNG small.
+    img = Image.new("L", (WIDTH, HEIGHT))
+    img.putdata([int(8 + 7.5 * math.cos(math.hypot(x - 240, y - 400) / 24)) * 17 for y in range(HEIGHT) for x in range(WIDTH)])
+    return img
+
+
+def color_page():
+    # RGB, to check the packer's luma conversion against Pillow's convert("L").
+    img = Image.new("RGB", (WIDTH, HEIGHT))
+    img.putdata([((x * 7) % 256, (y * 3) % 256, ((x + y) * 5) % 256) for y in range(HEIGHT) for x in range(WIDTH)])
+    return img
+
+
+def main():
+    pages = os.path.join(HERE, "pages")
+    os.makedirs(pages, exist_ok=True)
+    gradient_page().save(os.path.join(pages, "page-1.png"), optimize=True)
+    rings_page().save(os.path.join(pages, "page-2.png"), optimize=True)
+    color_page().save(os.path.join(pages, "page-3.png"), optimize=True)
+    Image.new("L", (100, 160), 255).save(os.path.join(HERE, "odd-size.png"), optimize=True)
+
+    subprocess.run([sys.executable, PNG2XTC, pages, os.path.join(HERE, "pages.xtc")], check=True, stdout=subprocess.DEVNULL)
+    subprocess.run(
+        [sys.executable, PNG2XTC, os.path.join(pages, "page-1.png"), os.path.join(HERE, "page-1.xtg")],
+        check=True,
+        stdout=subprocess.DEVNULL,
+    )
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { createProfileRuleManager, matchesRuleExpression, parseRuleExpression } from "../src/lib/profile-rules";
+import type { ProfileManager } from "../src/lib/profiles";
+import type { ConversionSettings } from "../src/types";
+
+const archive = {
+  tags: "category:webtoon, artist:John Doe, language:english, oneshot",
+  pagecount: 240,
+  size: 40 * 1024 * 1024,
+  extension: "cbz",
+  title: "Example Title",
+  filename: "example.cbz",
+};
+
+const matches = (source: string, subject: Partial<typeof archive> = {}) =>
+  matchesRuleExpression(parseRuleExpression(source), { ...archive, ...subject });
+
+describe("parseRuleExpression / matchesRuleExpression", () => {
+  test("matches tags case-insensitively, quoted and with wildcards", () => {
+    expect(matches("category:webtoon")).toBe(true);
+    expect(matches("CATEGORY:WEBTOON")).toBe(true);
+    expect(matches('artist:"john doe"')).toBe(true);
+    expect(matches("artist:jo*")).toBe(true);
+    expect(matches("oneshot")).toBe(true);
+    expect(matches("category:manga")).toBe(false);
+    // A tag has to match whole, not as a prefix.
+    expect(matches("category:web")).toBe(false);
+  });
+
+  test("treats regex characters in tags literally", () => {
+    expect(matches("series:a.b", { tags: "series:a.b" })).toBe(true);
+    expect(matches("series:a.b", { tags: "series:axb" })).toBe(false);
+    // Unquoted parentheses always group.
+    expect(() => parseRuleExpression("series:(c)")).toThrow("Invalid rule expression");
+    expect(matches('"series:(c)"', { tags: "series:(c)" })).toBe(true);
+  });
+
+  test("compares numeric properties, with size units", () => {
+    expect(matches("pagecount>=240")).toBe(true);
+    expect(matches("pagecount>240")).toBe(false);
+    expect(matches("pagecount!=100")).toBe(true);
+    expect(matches("size<50MB")).toBe(true);
+    expect(matches("size<=40mb")).toBe(true);
+    expect(matches("size>1GB")).toBe(false);
+    expect(matches("size>1KB")).toBe(true);
+  });
+
+  test("compares text properties without regard to case", () => {
+    expect(matches("extension=CBZ")).toBe(true);
+    expect(matches("extension!=cbr")).toBe(true);
+    expect(matches('title="example title"')).toBe(true);
+    expect(matches("filename=other.cbz")).toBe(false);
+  });
+
+  test("binds AND tighter than OR, and NOT tightest", () => {
+    // category:manga OR (oneshot AND pagecount<10)
+    expect(matches("category:manga OR oneshot AND pagecount<10")).toBe(false);
+    expect(matches("(category:manga OR oneshot) AND pagecount<10")).toBe(false);
+    expect(matches("(category:manga OR oneshot) AND pagecount>10")).toBe(true);
+    expect(matches("NOT category:manga AND oneshot")).toBe(true);
+    expect(matches("NOT (category:webtoon OR category:manga)")).toBe(false);
+    expect(matches("NOT NOT oneshot")).toBe(true);
+    expect(matches("category:webtoon and not language:japanese")).toBe(true);
+  });
+
+  test("rejects malformed expressions", () => {
+    const invalid = [
+      "",
+      "AND oneshot",
+      "oneshot OR",
+      "(oneshot",
+      "oneshot)",
+      "a:b c:d",
+      'artist:"open',
+      "pagecount>many",
+      "title>b",
+    ];
+    for (const source of invalid) {
+      expect(() => parseRuleExpression(source)).toThrow("Invalid rule expression");
+    }
+  });
+
+  test("treats keywords and parentheses inside quotes as tags", () => {
+    expect(matches('"and"', { tags: "and" })).toBe(true);
+    expect(matches('oneshot AND "NOT"', { tags: "oneshot, not" })).toBe(true);
+    expect(matches('"("', { tags: "(" })).toBe(true);
+  });
+});
+
+describe("createProfileRuleManager", () => {
+  const settings = { orientation: "landscape", colorDepth: "1bit" } as ConversionSettings;
+  const profiles = {
+    find: (id: string) =>
+      id === "portrait-profile"
+        ? { id, name: "Portrait", settings: { ...settings, orientation: "portrait" } }
+        : null,
+  } as unknown as ProfileManager;
+
+  const withManager = async (run: (rules: ReturnType<typeof createProfileRuleManager>) => Promise<void> | void) => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "profile-rules-test-"));
+    try {
+      await run(createProfileRuleManager({ filePath: path.join(dir, "rules.json"), profiles }));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  };
+
+  test("applies the first enabled match, with request overrides last", async () => {
+    await withManager((rules) => {
+      rules.create({ name: "off", match: "oneshot", enabled: false, settings: { colorDepth: "2bit" } });
+      rules.create({ name: "webtoon", match: "category:webtoon", profileId: "portrait-profile" });
+      rules.create({ name: "later", match: "oneshot", settings: { colorDepth: "2bit" } });
+
+      const result = rules.evaluate(archive, settings, { overrides: { colorDepth: "2bit" } });
+      expect(result.rule?.name).toBe("webtoon");
+      expect(result.settings).toEqual({ orientation: "portrait", colorDepth: "2bit" });
+      expect(rules.evaluate(archive, settings, { profilePinned: true }).settings.orientation).toBe("landscape");
+    });
+  });
+
+  test("recalls a match only while it is recent and the rules are unchanged", async () => {
+    await withManager((rules) => {
+      const rule = rules.create({ name: "webtoon", match: "category:webtoon", profileId: "portrait-profile" });
+      expect(rules.recall("a1", settings, undefined, { maxAgeMs: 60_000 })).toBeNull();
+
+      rules.evaluate({ ...archive, arcid: "a1" }, settings);
+      expect(rules.recall("a1", settings, undefined, { maxAgeMs: 60_000 })?.rule?.name).toBe("webtoon");
+      expect(rules.recall("a1", settings, undefined, { maxAgeMs: -1 })).toBeNull();
+
+      rules.update(rule.id, { enabled: false });
+      expect(rules.recall("a1", settings, undefined, { maxAgeMs: 60_000 })).toBeNull();
+    });
+  });
+});
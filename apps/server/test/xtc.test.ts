@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { decodePngToGrayscale } from "../src/lib/png";
+import { buildXtcContainer, decodeXtcPage, encodeXthPage, encodeXtgPage, inspectXtc, packPngFolderToXtc } from "../src/lib/xtc";
+
+// Reference files come from tools/epub2xtc/png2xtc.py; fixtures/xtc/generate.py rebuilds them.
+const fixtures = path.join(import.meta.dir, "fixtures/xtc");
+const pagesDir = path.join(fixtures, "pages");
+
+async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "xtc-test-"));
+  try {
+    return await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe("native packer matches png2xtc.py", () => {
+  test("packs the page folder into the same .xtc", async () => {
+    await withTempDir(async (dir) => {
+      const outputPath = path.join(dir, "pages.xtc");
+      const packed = await packPngFolderToXtc({ pngDir: pagesDir, outputPath });
+      const expected = await readFile(path.join(fixtures, "pages.xtc"));
+      const actual = await readFile(outputPath);
+
+      expect(packed).toEqual({ pageCount: 3, fileSize: expected.length });
+      expect(actual.equals(expected)).toBe(true);
+    });
+  });
+
+  test("encodes a single page into the same .xtg", async () => {
+    // png2xtc.py thresholds standalone .xtg pages at 128 instead of 200.
+    const image = await decodePngToGrayscale(await readFile(path.join(pagesDir, "page-1.png")));
+    const expected = await readFile(path.join(fixtures, "page-1.xtg"));
+
+    expect(encodeXtgPage(image, { threshold: 128 }).equals(expected)).toBe(true);
+  });
+});
+
+describe("packPngFolderToXtc", () => {
+  test("names the page that is not 480x800", async () => {
+    await withTempDir(async (dir) => {
+      await writeFile(path.join(dir, "001.png"), await readFile(path.join(pagesDir, "page-1.png")));
+      await writeFile(path.join(dir, "002.png"), await readFile(path.join(fixtures, "odd-size.png")));
+
+      await expect(packPngFolderToXtc({ pngDir: dir, outputPath: path.join(dir, "out.xtc") })).rejects.toThrow(
+        "Page 002.png is 100x160",
+      );
+    });
+  });
+
+  test("packs 2-bit pages into a valid XTCH container", async () => {
+    await withTempDir(async (dir) => {
+      const outputPath = path.join(dir, "pages.xtc");
+      await packPngFolderToXtc({ pngDir: pagesDir, outputPath, colorDepth: "2bit", dither: false });
+      const container = await readFile(outputPath);
+      const inspection = inspectXtc(container);
+
+      expect(inspection.valid).toBe(true);
+      expect(inspection.header?.magic).toBe("XTCH");
+      expect(inspection.pages.map((page) => [page.width, page.height])).toEqual([
+        [480, 800],
+        [480, 800],
+        [480, 800],
+      ]);
+    });
+  });
+});
+
+describe("decodeXtcPage", () => {
+  test("round-trips the four XTH levels", () => {
+    const data = new Uint8Array(480 * 800);
+    for (let i = 0; i < data.length; i += 1) data[i] = [0, 85, 170, 255][i % 4];
+    const container = buildXtcContainer([encodeXthPage({ width: 480, height: 800, data }, { dither: false })]);
+
+    expect(decodeXtcPage(container, 1).data).toEqual(data);
+  });
+});
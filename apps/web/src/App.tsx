@@ -1,24 +1,83 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import {
+  addWishlistItem,
   archivePageUrl,
+  cancelConversionJob,
+  checkSavedDeviceHealth,
+  createApiToken,
+  createAuthUser,
+  createLanraragiSource,
+  createProfile,
   conversionFrameUrl,
+  createConversionBatch,
   createDeviceFolder,
+  createSavedDevice,
+  deleteApiToken,
+  deleteAuthUser,
+  deleteDevicePaths,
+  deleteLanraragiSource,
+  deleteSavedDevice,
   downloadConversionJob,
+  exportRuntimeSettings,
+  fetchApiTokens,
   fetchArchives,
+  fetchAuthSession,
+  fetchAuthUsers,
+  fetchCategories,
+  fetchConversionBatch,
   fetchConversionJob,
   fetchDeviceDefaults,
   fetchDeviceFiles,
+  fetchDeviceManifest,
+  fetchDeviceStorage,
+  fetchDeviceTree,
+  fetchWishlist,
+  importRuntimeSettings,
   fetchDefaults,
   fetchFacets,
   fetchLanraragiSettings,
+  fetchLanraragiSources,
+  fetchLibraryHealth,
+  fetchProfiles,
+  fetchSavedDevices,
   fetchTagSuggestions,
+  login,
+  logout,
+  moveDevicePaths,
+  removeWishlistItem,
+  retryConversionBatch,
+  runDeviceSync,
+  runReadingSync,
   startConversionJob,
   thumbnailUrl,
   updateLanraragiSettings,
   updateDeviceDefaults,
+  updateSavedDevice,
   uploadConversionJob,
+  watchConversionJob,
 } from "./lib/api";
-import type { ArchiveRecord, ConversionJob, ConversionSettings, DeviceFileEntry } from "./types";
+import type {
+  ApiToken,
+  ArchiveRecord,
+  AuthPrincipal,
+  LanraragiSettings,
+  LanraragiSource,
+  LanraragiSourceHealth,
+  AuthUser,
+  CategorySummary,
+  ConversionBatch,
+  ConversionJob,
+  ConversionProfile,
+  ConversionSettings,
+  DeviceFileEntry,
+  DeviceManifestEntry,
+  DeviceStorageInfo,
+  DeviceSyncReport,
+  DeviceTree,
+  DeviceTreeNode,
+  SavedDevice,
+  WishlistItem,
+} from "./types";
 
 const SORT_OPTIONS = [
   { label: "Title", value: "title" },
@@ -38,9 +97,8 @@ const DEVICE_PANEL_STORAGE_KEY = "xtc_device_panel_collapsed_v1";
 const PUBLIC_BASE_URL_STORAGE_KEY = "xtc_public_base_url_v1";
 const THEME_STORAGE_KEY = "xtc_theme_mode_v1";
 const FACET_PREFIXES = ["ALL", "0-9", ..."ABCDEFGHIJKLMNOPQRSTUVWXYZ"] as const;
-const BATCH_MAX_PARALLEL = 4;
 
-type ViewMode = "library" | "artists" | "groups";
+type ViewMode = "library" | "artists" | "groups" | "device";
 type FacetNamespace = "artist" | "group";
 type ThemeMode = "system" | "light" | "dark";
 
@@ -66,6 +124,7 @@ function buildEffectiveSettings(
     orientation: settings.orientation,
     splitMode: settings.splitMode,
     noDither: settings.noDither,
+    colorDepth: settings.colorDepth,
     contrastBoost: settings.contrastBoost,
     margin: settings.margin,
   };
@@ -296,6 +355,14 @@ function normalizeDeviceBaseUrlInput(input: string): string {
   return `${parsed.protocol}//${parsed.host}`;
 }
 
+// Archives from extra libraries carry a `<source>:` prefix; bare ids belong to the primary one.
+function splitArchiveSource(arcid: string): { sourceId: string; id: string } {
+  const separator = arcid.indexOf(":");
+  return separator > 0
+    ? { sourceId: arcid.slice(0, separator), id: arcid.slice(separator + 1) }
+    : { sourceId: "main", id: arcid };
+}
+
 function normalizeLanraragiBaseUrlInput(input: string): string {
   const trimmed = input.trim();
   if (!trimmed) {
@@ -321,6 +388,11 @@ function normalizeDevicePath(input: string): string {
   return withRoot.replace(/\/+/g, "/");
 }
 
+function devicePathParent(path: string): string {
+  const normalized = normalizeDevicePath(path);
+  return normalizeDevicePath(normalized.slice(0, normalized.lastIndexOf("/")));
+}
+
 function joinDevicePath(parentPath: string, segment: string): string {
   const parent = normalizeDevicePath(parentPath);
   const clean = segment.trim().replace(/^\/+|\/+$/g, "");
@@ -336,17 +408,23 @@ function matchesFacetPrefix(value: string, prefix: (typeof FACET_PREFIXES)[numbe
   return trimmed[0].toUpperCase() === prefix;
 }
 
-export default function App() {
+function Workspace({ principal, onSignOut }: { principal: AuthPrincipal | null; onSignOut: () => void }) {
   const initialSortRef = useRef(loadStoredSort());
   const uploadTickerRef = useRef<Record<string, number>>({});
   const singleUploadTickerRef = useRef<number | null>(null);
   const [settings, setSettings] = useState<ConversionSettings | null>(null);
   const [themeMode, setThemeMode] = useState<ThemeMode>(() => loadStoredThemeMode());
   const [defaultSettings, setDefaultSettings] = useState<ConversionSettings | null>(null);
+  const [profiles, setProfiles] = useState<ConversionProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  const [newProfileName, setNewProfileName] = useState("");
+  const [profileError, setProfileError] = useState<string | null>(null);
   const [archives, setArchives] = useState<ArchiveRecord[]>([]);
   const [total, setTotal] = useState(0);
   const [filter, setFilter] = useState("");
   const [normalizedFilter, setNormalizedFilter] = useState("");
+  const [categories, setCategories] = useState<CategorySummary[]>([]);
+  const [categoryId, setCategoryId] = useState("");
   const [start, setStart] = useState(0);
   const [sortby, setSortby] = useState(initialSortRef.current.sortby);
   const [order, setOrder] = useState<"asc" | "desc">(initialSortRef.current.order);
@@ -376,6 +454,7 @@ export default function App() {
   const [batchArchiveTitles, setBatchArchiveTitles] = useState<Record<string, string>>({});
   const [batchArchiveOrder, setBatchArchiveOrder] = useState<string[]>([]);
   const [batchUploads, setBatchUploads] = useState<Record<string, UploadProgressState>>({});
+  const [retryBatchId, setRetryBatchId] = useState<string | null>(null);
   const [singleUpload, setSingleUpload] = useState<UploadProgressState | null>(null);
   const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
   const [tagSuggestLoading, setTagSuggestLoading] = useState(false);
@@ -387,11 +466,33 @@ export default function App() {
   const [lanraragiBaseUrl, setLanraragiBaseUrl] = useState("");
   const [lanraragiApiKey, setLanraragiApiKey] = useState("");
   const [lanraragiHasApiKey, setLanraragiHasApiKey] = useState(false);
+  const [lanraragiSources, setLanraragiSources] = useState<LanraragiSettings["sources"] | null>(null);
   const [lanraragiLoading, setLanraragiLoading] = useState(false);
   const [lanraragiSaving, setLanraragiSaving] = useState(false);
   const [lanraragiError, setLanraragiError] = useState<string | null>(null);
   const [lanraragiNotice, setLanraragiNotice] = useState<string | null>(null);
   const [lanraragiReloadToken, setLanraragiReloadToken] = useState(0);
+  const [librarySources, setLibrarySources] = useState<LanraragiSource[]>([]);
+  const [sourceId, setSourceId] = useState("");
+  const [libraryHealth, setLibraryHealth] = useState<Record<string, LanraragiSourceHealth>>({});
+  const [newSourceName, setNewSourceName] = useState("");
+  const [newSourceUrl, setNewSourceUrl] = useState("");
+  const [newSourceKey, setNewSourceKey] = useState("");
+  const [deviceCopies, setDeviceCopies] = useState<Record<string, DeviceManifestEntry[]>>({});
+  const [manifestReloadToken, setManifestReloadToken] = useState(0);
+  const [wishlist, setWishlist] = useState<WishlistItem[]>([]);
+  const [wishlistKind, setWishlistKind] = useState<"tag" | "category">("tag");
+  const [wishlistValue, setWishlistValue] = useState("");
+  const [deviceSyncReport, setDeviceSyncReport] = useState<DeviceSyncReport | null>(null);
+  const [deviceTree, setDeviceTree] = useState<DeviceTree | null>(null);
+  const [deviceStorage, setDeviceStorage] = useState<DeviceStorageInfo | null>(null);
+  const [deviceTreeLoading, setDeviceTreeLoading] = useState(false);
+  const [deviceTreeError, setDeviceTreeError] = useState<string | null>(null);
+  const [deviceTreeNotice, setDeviceTreeNotice] = useState<string | null>(null);
+  const [expandedDeviceFolders, setExpandedDeviceFolders] = useState<Record<string, boolean>>({ "/": true });
+  const [selectedDevicePaths, setSelectedDevicePaths] = useState<Record<string, boolean>>({});
+  const [deviceMoveTarget, setDeviceMoveTarget] = useState("/");
+  const [deviceRenameValue, setDeviceRenameValue] = useState("");
   const [servicePanelCollapsed, setServicePanelCollapsed] = useState(() => loadServicePanelCollapsed());
   const [devicePanelCollapsed, setDevicePanelCollapsed] = useState(() => loadDevicePanelCollapsed());
   const [publicBaseUrl, setPublicBaseUrl] = useState(() => loadStoredPublicBaseUrl());
@@ -404,6 +505,16 @@ export default function App() {
   const [deviceError, setDeviceError] = useState<string | null>(null);
   const [deviceNotice, setDeviceNotice] = useState<string | null>(null);
   const [newDeviceFolderName, setNewDeviceFolderName] = useState("");
+  const [accessUsers, setAccessUsers] = useState<AuthUser[]>([]);
+  const [accessTokens, setAccessTokens] = useState<ApiToken[]>([]);
+  const [newAccessName, setNewAccessName] = useState("");
+  const [newAccessPassword, setNewAccessPassword] = useState("");
+  const [newAccessRole, setNewAccessRole] = useState<AuthUser["role"]>("reader");
+  const [newTokenSecret, setNewTokenSecret] = useState<string | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [savedDevices, setSavedDevices] = useState<SavedDevice[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState("");
+  const [newSavedDeviceName, setNewSavedDeviceName] = useState("");
 
   const [viewMode, setViewMode] = useState<ViewMode>("library");
   const [facetSearch, setFacetSearch] = useState("");
@@ -603,10 +714,12 @@ export default function App() {
       setLanraragiLoading(true);
       setLanraragiError(null);
       try {
-        const settings = await fetchLanraragiSettings();
+        const [settings, sources] = await Promise.all([fetchLanraragiSettings(), fetchLanraragiSources()]);
         if (cancelled) return;
         setLanraragiBaseUrl(settings.baseUrl);
         setLanraragiHasApiKey(settings.hasApiKey);
+        setLanraragiSources(settings.sources);
+        setLibrarySources(sources);
       } catch (err) {
         if (cancelled) return;
         setLanraragiError(err instanceof Error ? err.message : "Failed to load LANraragi connection settings.");
@@ -623,12 +736,28 @@ export default function App() {
     };
   }, []);
 
+  useEffect(() => {
+    if (principal?.role !== "admin") return;
+    const run = async () => {
+      try {
+        const [users, tokens] = await Promise.all([fetchAuthUsers(), fetchApiTokens()]);
+        setAccessUsers(users);
+        setAccessTokens(tokens);
+      } catch (err) {
+        setAccessError(err instanceof Error ? err.message : "Could not load users");
+      }
+    };
+    void run();
+  }, [principal]);
+
   useEffect(() => {
     const raw = localStorage.getItem(DEVICE_STORAGE_KEY);
     let hadLocalFallback = false;
+    let storedDeviceId = "";
     if (raw) {
       try {
-        const parsed = JSON.parse(raw) as { baseUrl?: string; path?: string };
+        const parsed = JSON.parse(raw) as { baseUrl?: string; path?: string; deviceId?: string };
+        storedDeviceId = parsed.deviceId ?? "";
         if (parsed.baseUrl) {
           setDeviceBaseUrl(parsed.baseUrl);
           hadLocalFallback = true;
@@ -649,6 +778,16 @@ export default function App() {
         if (cancelled) return;
         setDeviceBaseUrl(defaults.baseUrl);
         setDeviceTargetPath(normalizeDevicePath(defaults.path));
+        const devices = await fetchSavedDevices().catch(() => []);
+        if (cancelled) return;
+        setSavedDevices(devices);
+        const selected =
+          devices.find((item) => item.id === storedDeviceId) ?? devices.find((item) => item.isDefault) ?? null;
+        if (selected) {
+          setSelectedDeviceId(selected.id);
+          setDeviceBaseUrl(selected.baseUrl);
+          setDeviceTargetPath(normalizeDevicePath(selected.path));
+        }
       } catch {
         // Keep fallback local values when defaults endpoint is not reachable.
         if (!hadLocalFallback) {
@@ -674,6 +813,9 @@ export default function App() {
           ...defaults,
           ...(stored ?? {}),
         });
+        // Profiles are optional for the panel; a failure here should not block conversions.
+        const serverProfiles = await fetchProfiles().catch(() => []);
+        setProfiles(serverProfiles);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Could not load defaults");
       } finally {
@@ -694,9 +836,10 @@ export default function App() {
       JSON.stringify({
         baseUrl: deviceBaseUrl,
         path: normalizeDevicePath(deviceTargetPath),
+        deviceId: selectedDeviceId,
       }),
     );
-  }, [deviceBaseUrl, deviceTargetPath]);
+  }, [deviceBaseUrl, deviceTargetPath, selectedDeviceId]);
 
   useEffect(() => {
     if (!archives.length) return;
@@ -747,6 +890,27 @@ export default function App() {
     setNormalizedFilter(normalizeCommaTerms(filter));
   }, [filter]);
 
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const data = await fetchCategories();
+        if (cancelled) return;
+        setCategories(data);
+        setCategoryId((current) => (data.some((category) => category.id === current) ? current : ""));
+      } catch {
+        if (!cancelled) {
+          setCategories([]);
+        }
+      }
+    };
+
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [lanraragiReloadToken]);
+
   useEffect(() => {
     if (viewMode !== "library" || selectedFacet) {
       setTagSuggestions([]);
@@ -802,6 +966,8 @@ export default function App() {
           start,
           sortby,
           order,
+          category: categoryId || undefined,
+          source: sourceId || undefined,
         });
         if (cancelled) return;
         setArchives(data.data);
@@ -820,8 +986,77 @@ export default function App() {
     return () => {
       cancelled = true;
     };
-  }, [normalizedFilter, start, sortby, order, selectedFacet, isFacetListView, lanraragiReloadToken]);
+  }, [normalizedFilter, start, sortby, order, categoryId, sourceId, selectedFacet, isFacetListView, lanraragiReloadToken]);
 
+  useEffect(() => {
+    if (archives.length === 0) {
+      setDeviceCopies({});
+      return;
+    }
+
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const entries = await fetchDeviceManifest({ archiveIds: archives.map((archive) => archive.arcid) });
+        if (cancelled) return;
+        const byArchive: Record<string, DeviceManifestEntry[]> = {};
+        for (const entry of entries) {
+          (byArchive[entry.archiveId] ??= []).push(entry);
+        }
+        setDeviceCopies(byArchive);
+      } catch {
+        // Badges are informational; the library still works without them.
+        if (!cancelled) setDeviceCopies({});
+      }
+    };
+
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [archives, manifestReloadToken]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWishlist()
+      .then((items) => {
+        if (!cancelled) setWishlist(items);
+      })
+      .catch(() => {
+        if (!cancelled) setWishlist([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const loadDeviceTree = async () => {
+    setDeviceTreeLoading(true);
+    setDeviceTreeError(null);
+    try {
+      const baseUrl = normalizeDeviceBaseUrlInput(deviceBaseUrl);
+      const tree = await fetchDeviceTree({ baseUrl });
+      setDeviceTree(tree);
+      setSelectedDevicePaths({});
+      // Free space is optional; older firmware does not report it.
+      setDeviceStorage(await fetchDeviceStorage({ baseUrl }).catch(() => null));
+    } catch (err) {
+      setDeviceTreeError(err instanceof Error ? err.message : "Failed to read device storage");
+    } finally {
+      setDeviceTreeLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (viewMode !== "device" || deviceTree || deviceTreeLoading) return;
+    void loadDeviceTree();
+    // Only the first visit loads automatically; Refresh reloads.
+  }, [viewMode]);
+
+  const sourceNames = useMemo(
+    () => Object.fromEntries(librarySources.map((source) => [source.id, source.name])),
+    [librarySources],
+  );
   const canPrev = start > 0;
   const canNext = start + archives.length < total;
   const pageStep = archives.length || 100;
@@ -932,6 +1167,14 @@ export default function App() {
   ): Promise<ConversionJob> => {
     let job = await startConversionJob(archive.arcid, effectiveSettings);
     onJobUpdate?.(job);
+    try {
+      job = await watchConversionJob(job.jobId, (next) => {
+        job = next;
+        onJobUpdate?.(next);
+      });
+    } catch {
+      // Event stream unavailable (e.g. a buffering proxy); fall back to polling from the last known state.
+    }
     let pollFailures = 0;
 
     while (job.status === "queued" || job.status === "running") {
@@ -950,6 +1193,9 @@ export default function App() {
       }
     }
 
+    if (job.status === "cancelled") {
+      throw new Error("Conversion cancelled");
+    }
     if (job.status !== "completed") {
       throw new Error(job.error || "Conversion failed");
     }
@@ -979,9 +1225,11 @@ export default function App() {
       ? await params.uploadRunner(params.jobId)
       : await uploadConversionJob({
           jobId: params.jobId,
+          device: selectedDeviceId || undefined,
           baseUrl,
           path,
         });
+    setManifestReloadToken((token) => token + 1);
     return {
       size: upload.fileSize,
       target: `${baseUrl}${path}`,
@@ -1014,14 +1262,17 @@ export default function App() {
     setSelectedArchives({});
   };
 
-  const runSelectedAction = async (mode: "download" | "upload") => {
-    if (!settings || !defaultSettings) return;
-    const batch = Object.values(selectedArchives);
-    if (batch.length === 0) return;
+  const runBatch = async (params: {
+    mode: "download" | "upload";
+    archives: ArchiveRecord[];
+    start: () => Promise<ConversionBatch>;
+  }) => {
+    const { mode, archives: batch } = params;
     setError(null);
     setLastConversion(null);
     setConversionJob(null);
     setBatchJobs({});
+    setRetryBatchId(null);
     for (const timer of Object.values(uploadTickerRef.current)) {
       window.clearInterval(timer);
     }
@@ -1053,199 +1304,129 @@ export default function App() {
     });
 
     try {
-      const effectiveSettings = buildEffectiveSettings(settings, defaultSettings, showAdvanced);
-      const queue = [...batch];
-      const workerCount = Math.min(BATCH_MAX_PARALLEL, queue.length);
-      const failures: string[] = [];
-      let nextIndex = 0;
-      const uploadBaseUrl = mode === "upload" ? normalizeDeviceBaseUrlInput(deviceBaseUrl) : "";
-      const uploadPath = mode === "upload" ? normalizeDevicePath(deviceTargetPath) : "/";
-      let uploadQueue = Promise.resolve();
-      const uploadTasks: Promise<void>[] = [];
-      const enqueueUpload = (params: { archive: ArchiveRecord; jobId: string; archiveTitle: string }): Promise<void> => {
-        setBatchUploads((previous) => ({
-          ...previous,
-          [params.archive.arcid]: {
-            phase: "queued",
-            progress: 3,
-            message: "Queued for device upload",
-          },
-        }));
-        const run = async () => {
-          setBatchState((previous) =>
-            previous
-              ? {
-                  ...previous,
-                  currentTitle: `${params.archiveTitle} (upload)`,
-                }
-              : previous,
-          );
-          setBatchUploads((previous) => ({
-            ...previous,
-            [params.archive.arcid]: {
-              phase: "uploading",
-              progress: 8,
-              message: "Uploading to XTEink (00:00)",
-            },
-          }));
-          startBatchUploadTicker(params.archive.arcid);
-          try {
-            const upload = await uploadConversionJob({
-              jobId: params.jobId,
-              baseUrl: uploadBaseUrl,
-              path: uploadPath,
-            });
-            stopBatchUploadTicker(params.archive.arcid);
-            setBatchUploads((previous) => ({
-              ...previous,
-              [params.archive.arcid]: {
+      const archivesById = new Map(batch.map((archive) => [archive.arcid, archive]));
+      const uploadPhases = new Map<string, UploadProgressState["phase"]>();
+      const delivered = new Set<string>();
+      const deliveryFailures: string[] = [];
+      let snapshot = await params.start();
+      let pollFailures = 0;
+
+      while (true) {
+        // The server owns the queue; the browser only mirrors it and pulls finished downloads.
+        setBatchJobs(
+          Object.fromEntries(
+            snapshot.items
+              .filter((item) => item.job !== null)
+              .map((item) => [item.job!.jobId, item.job!]),
+          ),
+        );
+        if (mode === "upload") {
+          const uploadUpdates: Record<string, UploadProgressState> = {};
+          for (const item of snapshot.items) {
+            const previousPhase = uploadPhases.get(item.archiveId) ?? "idle";
+            if (item.status === "uploading" && previousPhase !== "uploading") {
+              uploadUpdates[item.archiveId] = {
+                phase: "uploading",
+                progress: 8,
+                message: "Uploading to XTEink (00:00)",
+              };
+              startBatchUploadTicker(item.archiveId);
+            } else if (item.status === "completed" && previousPhase !== "completed") {
+              stopBatchUploadTicker(item.archiveId);
+              uploadUpdates[item.archiveId] = {
                 phase: "completed",
                 progress: 100,
                 message: "Upload complete",
-              },
-            }));
-            setLastConversion({
-              id: params.archive.arcid,
-              title: params.archiveTitle,
-              size: upload.fileSize,
-              action: "uploaded",
-              target: `${uploadBaseUrl}${uploadPath}`,
-            });
-            setBatchState((previous) =>
-              previous
-                ? {
-                    ...previous,
-                    completed: previous.completed + 1,
-                  }
-                : previous,
-            );
-          } catch (err) {
-            stopBatchUploadTicker(params.archive.arcid);
-            failures.push(`${params.archiveTitle}: ${err instanceof Error ? err.message : "Upload failed"}`);
-            setBatchUploads((previous) => ({
-              ...previous,
-              [params.archive.arcid]: {
+              };
+              setLastConversion({
+                id: item.archiveId,
+                title: item.title,
+                size: item.fileSize ?? 0,
+                action: "uploaded",
+                target: item.uploadedTo ?? undefined,
+              });
+            } else if (item.status === "failed" && previousPhase !== "failed") {
+              stopBatchUploadTicker(item.archiveId);
+              uploadUpdates[item.archiveId] = {
                 phase: "failed",
                 progress: 100,
-                message: err instanceof Error ? err.message : "Upload failed",
-              },
-            }));
-            setBatchState((previous) =>
-              previous
-                ? {
-                    ...previous,
-                    failed: previous.failed + 1,
-                  }
-                : previous,
-            );
+                message: item.error || "Upload failed",
+              };
+            } else if ((item.status === "queued" || item.status === "converting") && previousPhase !== "idle") {
+              uploadUpdates[item.archiveId] = {
+                phase: "idle",
+                progress: 0,
+                message: "Waiting for conversion",
+              };
+            }
+            if (uploadUpdates[item.archiveId]) {
+              uploadPhases.set(item.archiveId, uploadUpdates[item.archiveId].phase);
+            }
           }
-        };
-        const chained = uploadQueue.then(run, run);
-        uploadQueue = chained.then(
-          () => undefined,
-          () => undefined,
-        );
-        return chained;
-      };
-
-      const runWorker = async () => {
-        while (true) {
-          const index = nextIndex;
-          nextIndex += 1;
-          if (index >= queue.length) {
-            return;
+          if (Object.keys(uploadUpdates).length > 0) {
+            setBatchUploads((previous) => ({ ...previous, ...uploadUpdates }));
           }
+        }
+        const activeItem = snapshot.items.find((item) => item.status === "converting" || item.status === "uploading");
+        setBatchState({
+          total: snapshot.total,
+          completed: snapshot.completed,
+          failed: snapshot.failed,
+          active: snapshot.active,
+          currentTitle: activeItem
+            ? `${activeItem.title}${activeItem.status === "uploading" ? " (upload)" : ""}`
+            : "",
+        });
 
-          const archive = queue[index];
-          const archiveTitle = archive.title || archive.filename || archive.arcid;
-          setBatchState((previous) =>
-            previous
-              ? {
-                  ...previous,
-                  active: previous.active + 1,
-                  currentTitle: archiveTitle,
-                }
-              : previous,
-          );
-
-          try {
-            const completedJob = await runConversionJob(
-              archive,
-              effectiveSettings,
-              (job) => {
-                setBatchJobs((previous) => ({
-                  ...previous,
-                  [job.jobId]: job,
-                }));
-              },
-            );
-            if (mode === "upload") {
-              uploadTasks.push(
-                enqueueUpload({
-                  archive,
-                  jobId: completedJob.jobId,
-                  archiveTitle,
-                }),
-              );
-            } else {
+        if (mode === "download") {
+          for (const item of snapshot.items) {
+            if (item.status !== "completed" || !item.jobId || delivered.has(item.jobId)) continue;
+            delivered.add(item.jobId);
+            const archive = archivesById.get(item.archiveId);
+            if (!archive) continue;
+            try {
               const result = await deliverCompletedJob({
                 archive,
                 mode: "download",
-                jobId: completedJob.jobId,
+                jobId: item.jobId,
               });
               setLastConversion({
                 id: archive.arcid,
-                title: archiveTitle,
+                title: item.title,
                 size: result.size,
                 action: "downloaded",
               });
-              setBatchState((previous) =>
-                previous
-                  ? {
-                      ...previous,
-                      completed: previous.completed + 1,
-                    }
-                  : previous,
-              );
-            }
-          } catch (err) {
-            failures.push(`${archiveTitle}: ${err instanceof Error ? err.message : "Conversion failed"}`);
-            if (mode === "upload") {
-              setBatchUploads((previous) => ({
-                ...previous,
-                [archive.arcid]: {
-                  phase: "failed",
-                  progress: 100,
-                  message: err instanceof Error ? err.message : "Conversion failed",
-                },
-              }));
+            } catch (err) {
+              deliveryFailures.push(`${item.title}: ${err instanceof Error ? err.message : "Download failed"}`);
             }
-            setBatchState((previous) =>
-              previous
-                ? {
-                    ...previous,
-                    failed: previous.failed + 1,
-                  }
-                : previous,
-            );
-          } finally {
-            setBatchState((previous) =>
-              previous
-                ? {
-                    ...previous,
-                    active: Math.max(0, previous.active - 1),
-                  }
-                : previous,
-            );
           }
         }
-      };
 
-      await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
-      if (mode === "upload") {
-        await Promise.all(uploadTasks);
+        if (snapshot.status === "completed") {
+          setManifestReloadToken((token) => token + 1);
+          break;
+        }
+
+        await wait(800);
+        try {
+          snapshot = await fetchConversionBatch(snapshot.batchId);
+          pollFailures = 0;
+        } catch (error) {
+          if (isRetryablePollError(error) && pollFailures < 5) {
+            pollFailures += 1;
+            await wait(300 * pollFailures);
+            continue;
+          }
+          throw error;
+        }
       }
 
+      const failures = [
+        ...snapshot.items
+          .filter((item) => item.status === "failed")
+          .map((item) => `${item.title}: ${item.error || "Conversion failed"}`),
+        ...deliveryFailures,
+      ];
       if (failures.length > 0) {
         const preview = failures.slice(0, 3).join(" | ");
         setError(
@@ -1253,6 +1434,9 @@ export default function App() {
             failures.length > 3 ? " ..." : ""
           }`,
         );
+        if (snapshot.failed > 0) {
+          setRetryBatchId(snapshot.batchId);
+        }
       } else {
         setSelectedArchives({});
       }
@@ -1284,6 +1468,60 @@ export default function App() {
     }
   };
 
+  const runSelectedAction = async (mode: "download" | "upload") => {
+    if (!settings || !defaultSettings) return;
+    const batch = Object.values(selectedArchives);
+    if (batch.length === 0) return;
+
+    await runBatch({
+      mode,
+      archives: batch,
+      start: () =>
+        createConversionBatch({
+          items: batch.map((archive) => ({
+            archiveId: archive.arcid,
+            title: archive.title || archive.filename || archive.arcid,
+          })),
+          settings: buildEffectiveSettings(settings, defaultSettings, showAdvanced),
+          mode,
+          ...(mode === "upload"
+            ? {
+                device: selectedDeviceId || undefined,
+                baseUrl: normalizeDeviceBaseUrlInput(deviceBaseUrl),
+                path: normalizeDevicePath(deviceTargetPath),
+              }
+            : {}),
+        }),
+    });
+  };
+
+  const onRetryFailedBatch = async () => {
+    if (!retryBatchId) return;
+    const batchId = retryBatchId;
+    const batch = Object.values(selectedArchives);
+    const current = await fetchConversionBatch(batchId).catch(() => null);
+    if (!current) {
+      setRetryBatchId(null);
+      setError("Batch is no longer available on the server.");
+      return;
+    }
+    const failedIds = new Set(current.items.filter((item) => item.status === "failed").map((item) => item.archiveId));
+    await runBatch({
+      mode: current.mode,
+      archives: batch.filter((archive) => failedIds.has(archive.arcid)),
+      start: () => retryConversionBatch(batchId),
+    });
+  };
+
+  const onCancelConversion = async () => {
+    if (!conversionJob) return;
+    try {
+      setConversionJob(await cancelConversionJob(conversionJob.jobId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Cancel failed");
+    }
+  };
+
   const onConvertSelected = async () => {
     await runSelectedAction("download");
   };
@@ -1345,7 +1583,7 @@ export default function App() {
       }
       setError(err instanceof Error ? err.message : "Conversion failed");
       setConversionJob((current) =>
-        current
+        current && current.status !== "cancelled"
           ? {
               ...current,
               status: "failed",
@@ -1377,6 +1615,33 @@ export default function App() {
     setStart(0);
   };
 
+  const onExportSettings = async () => {
+    setLanraragiError(null);
+    try {
+      const includeSecrets = window.confirm("Include LANraragi API keys in the export?");
+      const blob = await exportRuntimeSettings(includeSecrets);
+      triggerBlobDownload(blob, `xtc-bridge-settings-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (err) {
+      setLanraragiError(err instanceof Error ? err.message : "Failed to export settings.");
+    }
+  };
+
+  const onImportSettings = async (file: File | undefined) => {
+    if (!file) return;
+    setLanraragiError(null);
+    setLanraragiNotice(null);
+    try {
+      const result = await importRuntimeSettings(JSON.parse(await file.text()));
+      setLanraragiNotice(
+        `Imported ${result.profiles} profile(s), ${result.devices} device(s)${result.lanraragi ? " and the LANraragi connection" : ""}. Reloading...`,
+      );
+      // Profiles, devices and the library all depend on what was imported.
+      window.setTimeout(() => window.location.reload(), 800);
+    } catch (err) {
+      setLanraragiError(err instanceof Error ? err.message : "Failed to import settings.");
+    }
+  };
+
   const onSaveLanraragiSettings = async () => {
     setLanraragiError(null);
     setLanraragiNotice(null);
@@ -1394,6 +1659,7 @@ export default function App() {
       const settings = await updateLanraragiSettings(payload);
       setLanraragiBaseUrl(settings.baseUrl);
       setLanraragiHasApiKey(settings.hasApiKey);
+      setLanraragiSources(settings.sources);
       setLanraragiApiKey("");
       setPublicBaseUrl(normalizedPublicBaseUrl);
       setLanraragiNotice("Service connection settings updated.");
@@ -1407,6 +1673,54 @@ export default function App() {
     }
   };
 
+  const onAddLibrarySource = async () => {
+    setLanraragiError(null);
+    setLanraragiNotice(null);
+    try {
+      const source = await createLanraragiSource({
+        name: newSourceName.trim(),
+        baseUrl: normalizeLanraragiBaseUrlInput(newSourceUrl),
+        ...(newSourceKey.trim() ? { apiKey: newSourceKey } : {}),
+      });
+      setLibrarySources(await fetchLanraragiSources());
+      setNewSourceName("");
+      setNewSourceUrl("");
+      setNewSourceKey("");
+      setLanraragiNotice(`Library "${source.name}" added. Its archives use ids starting with "${source.id}:".`);
+      setLanraragiReloadToken((current) => current + 1);
+    } catch (err) {
+      setLanraragiError(err instanceof Error ? err.message : "Failed to add library.");
+    }
+  };
+
+  const onRemoveLibrarySource = async (source: LanraragiSource) => {
+    if (!window.confirm(`Remove library "${source.name}"? Its archives disappear from the catalog.`)) return;
+    setLanraragiError(null);
+    setLanraragiNotice(null);
+    try {
+      await deleteLanraragiSource(source.id);
+      setLibrarySources(await fetchLanraragiSources());
+      if (sourceId === source.id) {
+        setSourceId("");
+        setCategoryId("");
+        setStart(0);
+      }
+      setLanraragiReloadToken((current) => current + 1);
+    } catch (err) {
+      setLanraragiError(err instanceof Error ? err.message : "Failed to remove library.");
+    }
+  };
+
+  const onCheckLibraries = async () => {
+    setLanraragiError(null);
+    try {
+      const health = await fetchLibraryHealth();
+      setLibraryHealth(Object.fromEntries(health.map((entry) => [entry.id, entry])));
+    } catch (err) {
+      setLanraragiError(err instanceof Error ? err.message : "Failed to check libraries.");
+    }
+  };
+
   const onSaveDeviceDefaults = async () => {
     setDeviceError(null);
     setDeviceNotice(null);
@@ -1414,10 +1728,17 @@ export default function App() {
     try {
       const normalizedBaseUrl = normalizeDeviceBaseUrlInput(deviceBaseUrl);
       const normalizedPath = normalizeDevicePath(deviceTargetPath);
-      const saved = await updateDeviceDefaults({
-        baseUrl: normalizedBaseUrl,
-        path: normalizedPath,
-      });
+      let saved: { baseUrl: string; path: string };
+      if (selectedDeviceId) {
+        const updated = await updateSavedDevice(selectedDeviceId, { baseUrl: normalizedBaseUrl, path: normalizedPath });
+        setSavedDevices((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+        saved = updated;
+      } else {
+        saved = await updateDeviceDefaults({
+          baseUrl: normalizedBaseUrl,
+          path: normalizedPath,
+        });
+      }
       setDeviceBaseUrl(saved.baseUrl);
       setDeviceTargetPath(saved.path);
       setDeviceNotice("Device defaults saved.");
@@ -1429,6 +1750,147 @@ export default function App() {
     }
   };
 
+  const onCreateAccessUser = async () => {
+    const name = newAccessName.trim();
+    if (!name || !newAccessPassword) return;
+    setAccessError(null);
+    try {
+      const user = await createAuthUser({ name, password: newAccessPassword, role: newAccessRole });
+      setAccessUsers((prev) => [...prev, user]);
+      setNewAccessName("");
+      setNewAccessPassword("");
+    } catch (err) {
+      setAccessError(err instanceof Error ? err.message : "Failed to save user");
+    }
+  };
+
+  const onCreateAccessToken = async () => {
+    const name = newAccessName.trim();
+    if (!name) return;
+    setAccessError(null);
+    try {
+      const created = await createApiToken({ name, role: newAccessRole });
+      setAccessTokens((prev) => [...prev, created.token]);
+      setNewTokenSecret(created.secret);
+      setNewAccessName("");
+    } catch (err) {
+      setAccessError(err instanceof Error ? err.message : "Failed to create token");
+    }
+  };
+
+  const onDeleteAccessEntry = async (kind: "user" | "token", id: string, name: string) => {
+    if (!window.confirm(`Remove ${kind} ${name}?`)) return;
+    setAccessError(null);
+    try {
+      if (kind === "user") {
+        await deleteAuthUser(id);
+        setAccessUsers((prev) => prev.filter((item) => item.id !== id));
+      } else {
+        await deleteApiToken(id);
+        setAccessTokens((prev) => prev.filter((item) => item.id !== id));
+      }
+    } catch (err) {
+      setAccessError(err instanceof Error ? err.message : `Failed to remove ${kind}`);
+    }
+  };
+
+  // Switching devices also switches to its preferred profile and orientation, so previews match what it gets.
+  const onSelectSavedDevice = (deviceId: string) => {
+    const saved = savedDevices.find((item) => item.id === deviceId);
+    if (!saved) return;
+    setSelectedDeviceId(saved.id);
+    setDeviceBaseUrl(saved.baseUrl);
+    setDeviceTargetPath(normalizeDevicePath(saved.path));
+    setDeviceRootDirs([]);
+    setDeviceError(null);
+    setDeviceNotice(null);
+    if (saved.profileId) onSelectProfile(saved.profileId);
+    if (saved.orientation) {
+      const orientation = saved.orientation;
+      setSettings((prev) => (prev ? { ...prev, orientation } : prev));
+    }
+  };
+
+  const onSaveNewDevice = async () => {
+    const name = newSavedDeviceName.trim();
+    if (!name) return;
+    setDeviceError(null);
+    setDeviceNotice(null);
+    setDeviceSaving(true);
+    try {
+      const saved = await createSavedDevice({
+        name,
+        baseUrl: normalizeDeviceBaseUrlInput(deviceBaseUrl),
+        path: normalizeDevicePath(deviceTargetPath),
+        profileId: selectedProfileId || null,
+        orientation: settings?.orientation ?? null,
+      });
+      setSavedDevices((prev) => [...prev, saved]);
+      setSelectedDeviceId(saved.id);
+      setNewSavedDeviceName("");
+      setDeviceNotice(`Saved device ${saved.name}.`);
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to save device.");
+    } finally {
+      setDeviceSaving(false);
+    }
+  };
+
+  const onMakeDeviceDefault = async () => {
+    if (!selectedDeviceId) return;
+    setDeviceError(null);
+    setDeviceSaving(true);
+    try {
+      await updateSavedDevice(selectedDeviceId, { isDefault: true });
+      setSavedDevices(await fetchSavedDevices());
+      setDeviceNotice("Default device updated.");
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to update device.");
+    } finally {
+      setDeviceSaving(false);
+    }
+  };
+
+  const onDeleteSavedDevice = async () => {
+    const saved = savedDevices.find((item) => item.id === selectedDeviceId);
+    if (!saved || !window.confirm(`Forget device ${saved.name}?`)) return;
+    setDeviceError(null);
+    setDeviceSaving(true);
+    try {
+      await deleteSavedDevice(saved.id);
+      const remaining = savedDevices.filter((item) => item.id !== saved.id);
+      setSavedDevices(remaining);
+      const fallback = remaining.find((item) => item.isDefault) ?? remaining[0];
+      if (fallback) onSelectSavedDevice(fallback.id);
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to delete device.");
+    } finally {
+      setDeviceSaving(false);
+    }
+  };
+
+  const onCheckDeviceHealth = async () => {
+    if (!selectedDeviceId) return;
+    setDeviceLoading(true);
+    setDeviceError(null);
+    setDeviceNotice(null);
+    try {
+      const health = await checkSavedDeviceHealth(selectedDeviceId);
+      if (!health.online) {
+        setDeviceError(`Device offline: ${health.error ?? "no response"}`);
+        return;
+      }
+      const free = health.storage?.freeBytes;
+      setDeviceNotice(
+        `Device online (${health.latencyMs} ms)${typeof free === "number" ? `, ${formatSize(free)} free` : ""}.`,
+      );
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Health check failed.");
+    } finally {
+      setDeviceLoading(false);
+    }
+  };
+
   const refreshDeviceRootFolders = async () => {
     setDeviceLoading(true);
     setDeviceError(null);
@@ -1449,6 +1911,32 @@ export default function App() {
     }
   };
 
+  const onSelectProfile = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    const profile = profiles.find((item) => item.id === profileId);
+    if (!profile) return;
+    // The profile also becomes the base for options hidden behind the advanced toggle.
+    setDefaultSettings({ ...profile.settings });
+    setSettings({ ...profile.settings });
+  };
+
+  const onSaveProfile = async () => {
+    const name = newProfileName.trim();
+    if (!name || !settings || !defaultSettings) return;
+    setProfileError(null);
+    try {
+      const profile = await createProfile({
+        name,
+        settings: buildEffectiveSettings(settings, defaultSettings, showAdvanced),
+      });
+      setProfiles((prev) => [...prev, profile]);
+      setSelectedProfileId(profile.id);
+      setNewProfileName("");
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : "Failed to save profile");
+    }
+  };
+
   const onCreateDeviceFolder = async () => {
     const name = newDeviceFolderName.trim();
     if (!name) return;
@@ -1480,6 +1968,152 @@ export default function App() {
     }
   };
 
+  const onSyncReadingProgress = async () => {
+    setDeviceLoading(true);
+    setDeviceError(null);
+    setDeviceNotice(null);
+    try {
+      const run = await runReadingSync();
+      if (run.error) {
+        setDeviceError(`Reading sync failed: ${run.error}`);
+      } else {
+        setDeviceNotice(
+          `Reading progress: ${run.pushed} updated, ${run.conflicts} conflicts, ${run.failed} failed of ${run.scanned} checked` +
+            (run.unmapped.length ? ` (${run.unmapped.length} unknown files)` : ""),
+        );
+      }
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to sync reading progress");
+    } finally {
+      setDeviceLoading(false);
+    }
+  };
+
+  const onAddWishlistItem = async (params: { kind: WishlistItem["kind"]; value: string; label?: string }) => {
+    const value = params.value.trim();
+    if (!value) return;
+    setDeviceError(null);
+    try {
+      const item = await addWishlistItem({ ...params, value });
+      setWishlist((previous) => (previous.some((entry) => entry.id === item.id) ? previous : [...previous, item]));
+      if (params.kind !== "archive") setWishlistValue("");
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to update the keep-on-device list");
+    }
+  };
+
+  const onRemoveWishlistItem = async (id: string) => {
+    setDeviceError(null);
+    try {
+      await removeWishlistItem(id);
+      setWishlist((previous) => previous.filter((entry) => entry.id !== id));
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to update the keep-on-device list");
+    }
+  };
+
+  const onDeviceSync = async (dryRun: boolean) => {
+    setDeviceLoading(true);
+    setDeviceError(null);
+    setDeviceNotice(null);
+    try {
+      const report = await runDeviceSync({ dryRun });
+      setDeviceSyncReport(report);
+      if (report.error) {
+        setDeviceError(`Device sync failed: ${report.error}`);
+      }
+      if (!dryRun) setManifestReloadToken((token) => token + 1);
+    } catch (err) {
+      setDeviceError(err instanceof Error ? err.message : "Failed to sync device");
+    } finally {
+      setDeviceLoading(false);
+    }
+  };
+
+  const selectedDeviceList = Object.keys(selectedDevicePaths).filter((path) => selectedDevicePaths[path]);
+
+  const summarizeDeviceResults = (results: Array<{ ok: boolean; error: string | null }>, verb: string) => {
+    const failed = results.filter((result) => !result.ok);
+    setDeviceTreeNotice(`${results.length - failed.length} ${verb}`);
+    setDeviceTreeError(failed.length ? `${failed.length} failed: ${failed.map((result) => result.error).join("; ")}` : null);
+  };
+
+  const onDeleteDeviceSelection = async () => {
+    if (selectedDeviceList.length === 0) return;
+    if (!window.confirm(`Delete ${selectedDeviceList.length} item(s) from the device? Folders are deleted with their contents.`)) {
+      return;
+    }
+    setDeviceTreeLoading(true);
+    setDeviceTreeNotice(null);
+    try {
+      const results = await deleteDevicePaths({
+        baseUrl: normalizeDeviceBaseUrlInput(deviceBaseUrl),
+        paths: selectedDeviceList,
+      });
+      summarizeDeviceResults(results, "deleted");
+      setManifestReloadToken((token) => token + 1);
+    } catch (err) {
+      setDeviceTreeError(err instanceof Error ? err.message : "Failed to delete from device");
+    } finally {
+      setDeviceTreeLoading(false);
+    }
+    await loadDeviceTree();
+  };
+
+  const onMoveDeviceSelection = async (moves: Array<{ from: string; to: string }>, verb: string) => {
+    if (moves.length === 0) return;
+    setDeviceTreeLoading(true);
+    setDeviceTreeNotice(null);
+    try {
+      const results = await moveDevicePaths({ baseUrl: normalizeDeviceBaseUrlInput(deviceBaseUrl), moves });
+      summarizeDeviceResults(results, verb);
+      if (results.some((result) => result.method === "copy")) {
+        setDeviceTreeNotice((notice) => `${notice} (copied through the bridge; firmware has no move)`);
+      }
+      setDeviceRenameValue("");
+      setManifestReloadToken((token) => token + 1);
+    } catch (err) {
+      setDeviceTreeError(err instanceof Error ? err.message : "Failed to move on device");
+    } finally {
+      setDeviceTreeLoading(false);
+    }
+    await loadDeviceTree();
+  };
+
+  const renderDeviceNode = (node: DeviceTreeNode, depth: number): JSX.Element[] => {
+    const expanded = Boolean(expandedDeviceFolders[node.path]);
+    const rows = [
+      <li key={node.path} className="device-tree-row" style={{ paddingLeft: `${depth * 1.1}rem` }}>
+        <input
+          type="checkbox"
+          checked={Boolean(selectedDevicePaths[node.path])}
+          disabled={node.path === "/"}
+          onChange={(e) => setSelectedDevicePaths((previous) => ({ ...previous, [node.path]: e.target.checked }))}
+        />
+        {node.isDirectory ? (
+          <button
+            type="button"
+            className="device-tree-toggle"
+            onClick={() => setExpandedDeviceFolders((previous) => ({ ...previous, [node.path]: !expanded }))}
+          >
+            {expanded ? "v" : ">"} {node.name}/
+          </button>
+        ) : (
+          <span>{node.name}</span>
+        )}
+        <span className="device-tree-size">
+          {node.isDirectory && node.children === null ? "not listed" : formatSize(node.size)}
+        </span>
+      </li>,
+    ];
+    if (node.isDirectory && expanded && node.children) {
+      for (const child of node.children) {
+        rows.push(...renderDeviceNode(child, depth + 1));
+      }
+    }
+    return rows;
+  };
+
   const isCbz2xtcStage = conversionJob?.stage === "cbz2xtc";
   const showingConvertedFrame = isCbz2xtcStage && conversionJob.convertedFrameVersion > 0 && !!conversionJob.jobId;
   const conversionPreviewSrc = conversionJob
@@ -1526,6 +2160,17 @@ export default function App() {
         <div className={`settings-pane-body ${settingsPanelCollapsed ? "hidden" : ""}`}>
         <h1>XTC Forge</h1>
         <p className="muted">LANraragi to XTEink X4 converter with live OPDS delivery.</p>
+        {principal ? (
+          <div className="signed-in-row">
+            <span className="muted">
+              Signed in as {principal.name}
+              {principal.role === "reader" ? " (read-only)" : ""}
+            </span>
+            <button type="button" onClick={onSignOut}>
+              Sign out
+            </button>
+          </div>
+        ) : null}
 
         <div className="settings-grid display-options">
           <h2>Display</h2>
@@ -1602,6 +2247,67 @@ export default function App() {
               <div className="conversion-sub">
                 Stored key: {lanraragiHasApiKey ? "set" : "not set"}
                 {lanraragiApiKey ? " • New key pending save" : ""}
+                {lanraragiSources
+                  ? ` • Address from ${lanraragiSources.baseUrl === "file" ? "saved settings" : "server env"}`
+                  : ""}
+              </div>
+              <div className="small-label">Libraries</div>
+              <div className="conversion-sub">
+                Extra LANraragi servers are searched together as "All libraries"; pick one in the library filter to
+                browse it alone.
+              </div>
+              <div className="device-folder-list">
+                {librarySources.map((source) => {
+                  const health = libraryHealth[source.id];
+                  const status = health
+                    ? health.ok
+                      ? ` ✓ ${health.latencyMs} ms`
+                      : health.circuit === "open"
+                        ? " ✗ offline, retrying later"
+                        : " ✗ offline"
+                    : "";
+                  return source.isPrimary ? (
+                    <span key={source.id} className="library-chip" title={source.baseUrl}>
+                      {source.name} (primary){status}
+                    </span>
+                  ) : (
+                    <button
+                      key={source.id}
+                      type="button"
+                      title={`${source.baseUrl}${health?.error ? `\n${health.error}` : ""}\nRemove ${source.name}`}
+                      onClick={() => void onRemoveLibrarySource(source)}
+                    >
+                      {source.name}
+                      {status} x
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="device-create-row library-create-row">
+                <input value={newSourceName} onChange={(e) => setNewSourceName(e.target.value)} placeholder="Library name" />
+                <input
+                  value={newSourceUrl}
+                  onChange={(e) => setNewSourceUrl(e.target.value)}
+                  placeholder="http://archive-box:3001"
+                />
+                <input
+                  type="password"
+                  value={newSourceKey}
+                  onChange={(e) => setNewSourceKey(e.target.value)}
+                  placeholder="API key (optional)"
+                />
+                <button
+                  type="button"
+                  onClick={() => void onAddLibrarySource()}
+                  disabled={!newSourceName.trim() || !newSourceUrl.trim()}
+                >
+                  Add library
+                </button>
+              </div>
+              <div className="device-actions">
+                <button type="button" onClick={() => void onCheckLibraries()}>
+                  Check libraries
+                </button>
               </div>
               <div className="conversion-sub">
                 OPDS link preview:{" "}
@@ -1620,12 +2326,91 @@ export default function App() {
                   {lanraragiSaving ? "Saving..." : "Save service settings"}
                 </button>
               </div>
+              <div className="device-actions">
+                <button type="button" onClick={() => void onExportSettings()}>
+                  Export settings
+                </button>
+                <label className="file-button">
+                  Import settings
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => {
+                      void onImportSettings(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              </div>
             </>
           )}
           {lanraragiNotice ? <p className="success">{lanraragiNotice}</p> : null}
           {lanraragiError ? <p className="error">{lanraragiError}</p> : null}
         </div>
 
+        {principal?.role === "admin" ? (
+          <div className="opds-box device-box">
+            <div className="small-label">Access</div>
+            <div className="conversion-sub">
+              Users sign in here and in OPDS readers (HTTP Basic). Tokens are for scripts: send them as a bearer token
+              or as the Basic password.
+            </div>
+            {accessUsers.length + accessTokens.length > 0 ? (
+              <div className="device-folder-list">
+                {accessUsers.map((user) => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    title={`Remove user ${user.name}`}
+                    onClick={() => void onDeleteAccessEntry("user", user.id, user.name)}
+                  >
+                    {user.name} ({user.role}) x
+                  </button>
+                ))}
+                {accessTokens.map((token) => (
+                  <button
+                    key={token.id}
+                    type="button"
+                    title={`Remove token ${token.name}`}
+                    onClick={() => void onDeleteAccessEntry("token", token.id, token.name)}
+                  >
+                    token {token.name} {token.prefix}... ({token.role}) x
+                  </button>
+                ))}
+              </div>
+            ) : null}
+            <div className="device-create-row">
+              <input value={newAccessName} onChange={(e) => setNewAccessName(e.target.value)} placeholder="Name" />
+              <select value={newAccessRole} onChange={(e) => setNewAccessRole(e.target.value as AuthUser["role"])}>
+                <option value="reader">Read-only</option>
+                <option value="admin">Admin</option>
+              </select>
+            </div>
+            <div className="device-create-row">
+              <input
+                type="password"
+                value={newAccessPassword}
+                onChange={(e) => setNewAccessPassword(e.target.value)}
+                placeholder="Password (8+ characters)"
+              />
+              <button type="button" onClick={() => void onCreateAccessUser()}>
+                Add user
+              </button>
+            </div>
+            <div className="device-actions">
+              <button type="button" onClick={() => void onCreateAccessToken()}>
+                Create API token
+              </button>
+            </div>
+            {newTokenSecret ? (
+              <div className="conversion-sub">
+                New token (shown once): <code>{newTokenSecret}</code>
+              </div>
+            ) : null}
+            {accessError ? <p className="error">{accessError}</p> : null}
+          </div>
+        ) : null}
+
         <div className="opds-box device-box">
           <div className="section-header-row">
             <div className="small-label">XTEink Device</div>
@@ -1646,6 +2431,19 @@ export default function App() {
             </div>
           ) : (
             <>
+              {savedDevices.length > 0 ? (
+                <label>
+                  Saved device
+                  <select value={selectedDeviceId} onChange={(e) => onSelectSavedDevice(e.target.value)}>
+                    {savedDevices.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name}
+                        {item.isDefault ? " (default)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
               <label>
                 Device address
                 <input
@@ -1683,6 +2481,26 @@ export default function App() {
                 >
                   {deviceSaving ? "Saving..." : "Save device defaults"}
                 </button>
+                {selectedDeviceId ? (
+                  <>
+                    <button type="button" onClick={() => void onCheckDeviceHealth()} disabled={deviceLoading}>
+                      Check
+                    </button>
+                    {savedDevices.find((item) => item.id === selectedDeviceId)?.isDefault ? null : (
+                      <>
+                        <button type="button" onClick={() => void onMakeDeviceDefault()} disabled={deviceSaving}>
+                          Make default
+                        </button>
+                        <button type="button" onClick={() => void onDeleteSavedDevice()} disabled={deviceSaving}>
+                          Forget
+                        </button>
+                      </>
+                    )}
+                  </>
+                ) : null}
+                <button type="button" onClick={() => void onSyncReadingProgress()} disabled={deviceLoading}>
+                  Sync reading progress
+                </button>
               </div>
               {deviceRootDirs.length > 0 ? (
                 <div className="device-folder-list">
@@ -1697,6 +2515,16 @@ export default function App() {
                   ))}
                 </div>
               ) : null}
+              <div className="device-create-row">
+                <input
+                  value={newSavedDeviceName}
+                  onChange={(e) => setNewSavedDeviceName(e.target.value)}
+                  placeholder="Save as new device named..."
+                />
+                <button type="button" onClick={() => void onSaveNewDevice()} disabled={deviceSaving}>
+                  Save
+                </button>
+              </div>
               <div className="device-create-row">
                 <input
                   value={newDeviceFolderName}
@@ -1707,6 +2535,99 @@ export default function App() {
                   Create
                 </button>
               </div>
+              <p className="small-label">Keep on device</p>
+              {wishlist.length > 0 ? (
+                <div className="device-folder-list">
+                  {wishlist.map((item) => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      title={`Remove ${item.kind} ${item.value}`}
+                      onClick={() => void onRemoveWishlistItem(item.id)}
+                    >
+                      {item.kind === "archive" ? item.label : `${item.kind}: ${item.label}`} x
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              <div className="device-create-row wishlist-row">
+                <select
+                  value={wishlistKind}
+                  onChange={(e) => {
+                    setWishlistKind(e.target.value as "tag" | "category");
+                    setWishlistValue("");
+                  }}
+                >
+                  <option value="tag">Tag</option>
+                  <option value="category">Category</option>
+                </select>
+                {wishlistKind === "category" ? (
+                  <select value={wishlistValue} onChange={(e) => setWishlistValue(e.target.value)}>
+                    <option value="">Choose a category</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    value={wishlistValue}
+                    onChange={(e) => setWishlistValue(e.target.value)}
+                    placeholder="series:name"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    void onAddWishlistItem({
+                      kind: wishlistKind,
+                      value: wishlistValue,
+                      label:
+                        wishlistKind === "category"
+                          ? categories.find((category) => category.id === wishlistValue)?.name
+                          : undefined,
+                    })
+                  }
+                  disabled={!wishlistValue.trim()}
+                >
+                  Add
+                </button>
+              </div>
+              <div className="device-actions">
+                <button type="button" onClick={() => void onDeviceSync(true)} disabled={deviceLoading}>
+                  Preview sync
+                </button>
+                <button type="button" onClick={() => void onDeviceSync(false)} disabled={deviceLoading}>
+                  {deviceLoading ? "Working..." : "Sync now"}
+                </button>
+              </div>
+              {deviceSyncReport ? (
+                <div className="sync-report">
+                  <p>
+                    {deviceSyncReport.dryRun ? "Preview" : "Sync"}: {deviceSyncReport.wanted} wanted
+                    {deviceSyncReport.truncated ? " (list truncated)" : ""},{" "}
+                    {deviceSyncReport.actions.filter((item) => item.action === "upload").length} to upload,{" "}
+                    {deviceSyncReport.actions.filter((item) => item.action === "reupload").length} to re-upload,{" "}
+                    {deviceSyncReport.actions.filter((item) => item.action === "delete").length} to delete,{" "}
+                    {deviceSyncReport.actions.filter((item) => item.action === "skip").length} skipped
+                    {deviceSyncReport.dryRun
+                      ? ""
+                      : `, ${deviceSyncReport.actions.filter((item) => item.status === "failed").length} failed`}
+                  </p>
+                  <ul>
+                    {deviceSyncReport.actions
+                      .filter((item) => item.action !== "keep" || item.status === "failed")
+                      .slice(0, 30)
+                      .map((item) => (
+                        <li key={`${item.action}-${item.archiveId}-${item.filePath ?? ""}`}>
+                          {item.action} {item.title}: {item.error ?? item.reason}
+                          {item.status === "planned" ? "" : ` (${item.status})`}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              ) : null}
             </>
           )}
           {deviceNotice ? <p className="success">{deviceNotice}</p> : null}
@@ -1716,6 +2637,30 @@ export default function App() {
         <div className="settings-grid basic-options">
           <h2>Recommended Options</h2>
 
+          <label>
+            Profile
+            <select value={selectedProfileId} onChange={(e) => onSelectProfile(e.target.value)}>
+              <option value="">Custom</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.isDefault ? `${profile.name} (default)` : profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="device-create-row">
+            <input
+              value={newProfileName}
+              onChange={(e) => setNewProfileName(e.target.value)}
+              placeholder="Save current options as profile"
+            />
+            <button type="button" onClick={() => void onSaveProfile()} disabled={!newProfileName.trim()}>
+              Save
+            </button>
+          </div>
+          {profileError ? <p className="error">{profileError}</p> : null}
+
           <label>
             Orientation
             <select
@@ -1760,6 +2705,22 @@ export default function App() {
             </select>
           </label>
 
+          <label>
+            Color depth
+            <select
+              value={settings.colorDepth}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  colorDepth: e.target.value as ConversionSettings["colorDepth"],
+                })
+              }
+            >
+              <option value="1bit">1-bit (black &amp; white)</option>
+              <option value="2bit">2-bit (4-level grayscale)</option>
+            </select>
+          </label>
+
           <label>
             Contrast
             <select
@@ -1958,9 +2919,87 @@ export default function App() {
           <button className={viewMode === "groups" ? "active" : ""} onClick={() => switchMode("groups")}>
             Groups
           </button>
+          <button className={viewMode === "device" ? "active" : ""} onClick={() => switchMode("device")}>
+            Device
+          </button>
         </div>
 
-        {isFacetListView ? (
+        {viewMode === "device" ? (
+          <section className="device-storage">
+            <header className="device-storage-toolbar">
+              <button type="button" onClick={() => void loadDeviceTree()} disabled={deviceTreeLoading}>
+                {deviceTreeLoading ? "Working..." : "Refresh"}
+              </button>
+              <span>
+                {deviceTree
+                  ? `${deviceTree.fileCount} files, ${deviceTree.folderCount} folders, ${formatSize(deviceTree.root.size)}` +
+                    (deviceTree.truncated ? " (listing truncated)" : "")
+                  : "Not loaded"}
+              </span>
+              <span>
+                {deviceStorage?.available && deviceStorage.freeBytes != null
+                  ? `${formatSize(deviceStorage.freeBytes)} free` +
+                    (deviceStorage.totalBytes != null ? ` of ${formatSize(deviceStorage.totalBytes)}` : "")
+                  : "Free space not reported by the device"}
+              </span>
+            </header>
+            <div className="device-storage-actions">
+              <button
+                type="button"
+                onClick={() => void onDeleteDeviceSelection()}
+                disabled={deviceTreeLoading || selectedDeviceList.length === 0}
+              >
+                Delete selected ({selectedDeviceList.length})
+              </button>
+              <input
+                value={deviceMoveTarget}
+                onChange={(e) => setDeviceMoveTarget(e.target.value)}
+                onBlur={() => setDeviceMoveTarget(normalizeDevicePath(deviceMoveTarget))}
+                placeholder="/Target folder"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  void onMoveDeviceSelection(
+                    selectedDeviceList.map((from) => ({
+                      from,
+                      to: joinDevicePath(normalizeDevicePath(deviceMoveTarget), from.split("/").pop() ?? ""),
+                    })),
+                    "moved",
+                  )
+                }
+                disabled={deviceTreeLoading || selectedDeviceList.length === 0}
+              >
+                Move selected
+              </button>
+              <input
+                value={deviceRenameValue}
+                onChange={(e) => setDeviceRenameValue(e.target.value)}
+                placeholder="New name"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  void onMoveDeviceSelection(
+                    [
+                      {
+                        from: selectedDeviceList[0],
+                        to: joinDevicePath(devicePathParent(selectedDeviceList[0]), deviceRenameValue.trim()),
+                      },
+                    ],
+                    "renamed",
+                  )
+                }
+                disabled={deviceTreeLoading || selectedDeviceList.length !== 1 || !deviceRenameValue.trim()}
+              >
+                Rename
+              </button>
+            </div>
+            {deviceTreeNotice ? <p className="success">{deviceTreeNotice}</p> : null}
+            {deviceTreeError ? <p className="error">{deviceTreeError}</p> : null}
+            {deviceTree ? <ul className="device-tree">{renderDeviceNode(deviceTree.root, 0)}</ul> : null}
+          </section>
+        ) : isFacetListView ? (
           <>
             <header className="toolbar facets-toolbar">
               <input
@@ -2018,6 +3057,47 @@ export default function App() {
                 />
               </div>
 
+              {librarySources.length > 1 ? (
+                <select
+                  value={sourceId}
+                  onChange={(e) => {
+                    setSourceId(e.target.value);
+                    setCategoryId("");
+                    setStart(0);
+                  }}
+                  aria-label="Library"
+                >
+                  <option value="">All libraries</option>
+                  {librarySources.map((source) => (
+                    <option key={source.id} value={source.id}>
+                      {source.name}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+
+              {categories.length > 0 ? (
+                <select
+                  value={categoryId}
+                  onChange={(e) => {
+                    setCategoryId(e.target.value);
+                    setStart(0);
+                  }}
+                  aria-label="Category"
+                >
+                  <option value="">All categories</option>
+                  {categories
+                    .filter((category) => !sourceId || splitArchiveSource(category.id).sourceId === sourceId)
+                    .map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.pinned ? "★ " : ""}
+                        {category.name}
+                        {category.kind === "dynamic" ? " (dynamic)" : ` (${category.archiveCount ?? 0})`}
+                      </option>
+                    ))}
+                </select>
+              ) : null}
+
               <select
                 value={sortby}
                 onChange={(e) => {
@@ -2095,12 +3175,25 @@ export default function App() {
                   <strong>
                     Conversion {conversionJob.archiveId.slice(0, 8)}: {conversionJob.status}
                   </strong>
-                  <span>{Math.round(conversionJob.progress * 100)}%</span>
+                  <span className="conversion-head-actions">
+                    {Math.round(conversionJob.progress * 100)}%
+                    {conversionJob.status === "queued" || conversionJob.status === "running" ? (
+                      <button type="button" onClick={() => void onCancelConversion()}>
+                        Cancel
+                      </button>
+                    ) : null}
+                  </span>
                 </div>
                 <div className="conversion-bar">
                   <span style={{ width: `${Math.max(2, Math.round(conversionJob.progress * 100))}%` }} />
                 </div>
                 <p className="conversion-message">{conversionJob.message}</p>
+                {conversionJob.appliedRule ? (
+                  <p className="conversion-sub">
+                    Rule "{conversionJob.appliedRule.name}" ({conversionJob.appliedRule.match})
+                    {conversionJob.appliedRule.profileName ? ` applied profile ${conversionJob.appliedRule.profileName}` : " patched settings"}
+                  </p>
+                ) : null}
                 {conversionPageFrameLine ? <p className="conversion-sub">{conversionPageFrameLine}</p> : null}
                 {isCbz2xtcStage && !showingConvertedFrame ? (
                   <p className="conversion-sub">Waiting for first fully converted frame...</p>
@@ -2246,6 +3339,16 @@ export default function App() {
               >
                 Convert + upload selected
               </button>
+              {retryBatchId && !isBatchRunning ? (
+                <button
+                  className="secondary-btn"
+                  onClick={() => {
+                    void onRetryFailedBatch();
+                  }}
+                >
+                  Retry failed
+                </button>
+              ) : null}
             </div>
 
             <div className="stats-row">
@@ -2266,6 +3369,10 @@ export default function App() {
                 const artists = namespaceValues(tags, "artist");
                 const groups = namespaceValues(tags, "group");
                 const isSelected = Boolean(selectedArchives[archive.arcid]);
+                const copies = deviceCopies[archive.arcid] ?? [];
+                const hasStaleCopy = copies.some((copy) => copy.stale === true);
+                const keepItem = wishlist.find((item) => item.kind === "archive" && item.value === archive.arcid);
+                const archiveSource = splitArchiveSource(archive.arcid);
 
                 return (
                   <article className={`archive-card ${isSelected ? "selected" : ""}`} key={archive.arcid}>
@@ -2308,11 +3415,30 @@ export default function App() {
 
                       <p className="summary">{archive.summary || "No summary"}</p>
                       <div className="meta-line">
-                        <span title={archive.arcid}>ID {archive.arcid.slice(0, 8)}</span>
+                        {librarySources.length > 1 ? <span>{sourceNames[archiveSource.sourceId] ?? archiveSource.sourceId}</span> : null}
+                        <span title={archive.arcid}>ID {archiveSource.id.slice(0, 8)}</span>
                         <span>{archive.extension.toUpperCase()}</span>
                         <span>{archive.pagecount || 0} pages</span>
                         <span>{formatSize(archive.size || 0)}</span>
                       </div>
+                      {copies.length > 0 ? (
+                        <div className="device-badges">
+                          <span
+                            className="device-badge"
+                            title={copies.map((copy) => `${copy.baseUrl}${copy.filePath}`).join("\n")}
+                          >
+                            On device{copies.length > 1 ? ` (${copies.length})` : ""}
+                          </span>
+                          {hasStaleCopy ? (
+                            <span
+                              className="device-badge stale"
+                              title="Converted with settings that differ from the current default profile"
+                            >
+                              Stale
+                            </span>
+                          ) : null}
+                        </div>
+                      ) : null}
                       <div className="card-actions">
                         <button
                           disabled={isBatchRunning || (convertingId !== null && convertingId !== archive.arcid)}
@@ -2331,6 +3457,22 @@ export default function App() {
                         >
                           {convertingId === archive.arcid ? "Converting..." : "Convert and upload to XTEink"}
                         </button>
+                        <button
+                          className="secondary-btn"
+                          onClick={() => {
+                            if (keepItem) {
+                              void onRemoveWishlistItem(keepItem.id);
+                            } else {
+                              void onAddWishlistItem({
+                                kind: "archive",
+                                value: archive.arcid,
+                                label: archive.title || archive.arcid,
+                              });
+                            }
+                          }}
+                        >
+                          {keepItem ? "Stop keeping on device" : "Keep on device"}
+                        </button>
                       </div>
                     </div>
                   </article>
@@ -2355,3 +3497,68 @@ export default function App() {
     </div>
   );
 }
+
+// Without auth configured the session endpoint reports `enabled: false` and the workspace opens directly.
+export default function App() {
+  const [session, setSession] = useState<{ enabled: boolean; principal: AuthPrincipal | null } | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [loginName, setLoginName] = useState("");
+  const [loginPassword, setLoginPassword] = useState("");
+  const [loginBusy, setLoginBusy] = useState(false);
+
+  useEffect(() => {
+    fetchAuthSession()
+      .then(setSession)
+      .catch((err) => setSessionError(err instanceof Error ? err.message : "Could not reach the server"));
+  }, []);
+
+  const onLogin = async () => {
+    setLoginBusy(true);
+    setSessionError(null);
+    try {
+      const principal = await login({ username: loginName.trim() || undefined, password: loginPassword });
+      setLoginPassword("");
+      setSession({ enabled: true, principal });
+    } catch (err) {
+      setSessionError(err instanceof Error ? err.message : "Sign-in failed");
+    } finally {
+      setLoginBusy(false);
+    }
+  };
+
+  const onSignOut = () => {
+    void logout().finally(() => setSession({ enabled: true, principal: null }));
+  };
+
+  if (!session) {
+    return <div className="center-screen">{sessionError ?? "Loading..."}</div>;
+  }
+  if (session.enabled && !session.principal) {
+    return (
+      <div className="center-screen">
+        <form
+          className="opds-box device-box login-box"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void onLogin();
+          }}
+        >
+          <h1>XTC Forge</h1>
+          <label>
+            Username
+            <input value={loginName} onChange={(e) => setLoginName(e.target.value)} placeholder="admin" />
+          </label>
+          <label>
+            Password
+            <input type="password" value={loginPassword} onChange={(e) => setLoginPassword(e.target.value)} autoFocus />
+          </label>
+          <button type="submit" disabled={loginBusy || !loginPassword}>
+            {loginBusy ? "Signing in..." : "Sign in"}
+          </button>
+          {sessionError ? <p className="error">{sessionError}</p> : null}
+        </form>
+      </div>
+    );
+  }
+  return <Workspace principal={session.principal} onSignOut={onSignOut} />;
+}
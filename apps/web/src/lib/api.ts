@@ -1,4 +1,132 @@
-import type { ConversionJob, ConversionSettings, DeviceFileEntry, SearchResponse } from "../types";
+import type {
+  ApiToken,
+  AuthPrincipal,
+  AuthSession,
+  AuthUser,
+  CategorySummary,
+  ConversionBatch,
+  ConversionJob,
+  ConversionJobEvent,
+  ConversionProfile,
+  ConversionSettings,
+  DeviceFileEntry,
+  DeviceHealth,
+  DeviceManifestEntry,
+  DeviceMoveResult,
+  DevicePathResult,
+  DeviceStorageInfo,
+  DeviceSyncReport,
+  DeviceTree,
+  LanraragiSettings,
+  LanraragiSource,
+  LanraragiSourceHealth,
+  ReadingSyncRun,
+  SavedDevice,
+  SearchResponse,
+  SettingsImportResult,
+  WishlistItem,
+} from "../types";
+
+export async function fetchAuthSession(): Promise<AuthSession> {
+  const response = await fetch("/api/auth/session");
+  if (!response.ok) {
+    throw new Error(`Session request failed (${response.status})`);
+  }
+  return (await response.json()) as AuthSession;
+}
+
+export async function login(params: { username?: string; password: string }): Promise<AuthPrincipal> {
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (response.status === 401) {
+    throw new Error("Invalid username or password.");
+  }
+  if (response.status === 429) {
+    const seconds = Number(response.headers.get("retry-after")) || 0;
+    throw new Error(`Too many failed sign-in attempts. Try again in ${Math.max(1, Math.ceil(seconds / 60))} min.`);
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Sign-in failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { principal: AuthPrincipal };
+  return body.principal;
+}
+
+export async function logout(): Promise<void> {
+  await fetch("/api/auth/logout", { method: "POST" });
+}
+
+export async function fetchAuthUsers(): Promise<AuthUser[]> {
+  const response = await fetch("/api/auth/users");
+  if (!response.ok) {
+    throw new Error(`Users request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { users: AuthUser[] };
+  return body.users;
+}
+
+export async function createAuthUser(params: {
+  name: string;
+  password: string;
+  role: AuthUser["role"];
+}): Promise<AuthUser> {
+  const response = await fetch("/api/auth/users", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Saving user failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { user: AuthUser };
+  return body.user;
+}
+
+export async function deleteAuthUser(id: string): Promise<void> {
+  const response = await fetch(`/api/auth/users/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Deleting user failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+}
+
+export async function fetchApiTokens(): Promise<ApiToken[]> {
+  const response = await fetch("/api/auth/tokens");
+  if (!response.ok) {
+    throw new Error(`Tokens request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { tokens: ApiToken[] };
+  return body.tokens;
+}
+
+export async function createApiToken(params: {
+  name: string;
+  role: ApiToken["role"];
+}): Promise<{ token: ApiToken; secret: string }> {
+  const response = await fetch("/api/auth/tokens", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Creating token failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  return (await response.json()) as { token: ApiToken; secret: string };
+}
+
+export async function deleteApiToken(id: string): Promise<void> {
+  const response = await fetch(`/api/auth/tokens/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Deleting token failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+}
 
 export async function fetchDefaults(): Promise<ConversionSettings> {
   const response = await fetch("/api/settings/defaults");
@@ -9,19 +137,46 @@ export async function fetchDefaults(): Promise<ConversionSettings> {
   return body.settings;
 }
 
-export async function fetchLanraragiSettings(): Promise<{ baseUrl: string; hasApiKey: boolean }> {
+export async function fetchProfiles(): Promise<ConversionProfile[]> {
+  const response = await fetch("/api/profiles");
+  if (!response.ok) {
+    throw new Error(`Profiles request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { profiles: ConversionProfile[] };
+  return body.profiles;
+}
+
+export async function createProfile(params: {
+  name: string;
+  settings: ConversionSettings;
+  isDefault?: boolean;
+}): Promise<ConversionProfile> {
+  const response = await fetch("/api/profiles", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Saving profile failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { profile: ConversionProfile };
+  return body.profile;
+}
+
+export async function fetchLanraragiSettings(): Promise<LanraragiSettings> {
   const response = await fetch("/api/lanraragi/settings");
   if (!response.ok) {
     throw new Error(`LANraragi settings request failed (${response.status})`);
   }
-  const body = (await response.json()) as { settings: { baseUrl: string; hasApiKey: boolean } };
+  const body = (await response.json()) as { settings: LanraragiSettings };
   return body.settings;
 }
 
 export async function updateLanraragiSettings(params: {
   baseUrl?: string;
   apiKey?: string;
-}): Promise<{ baseUrl: string; hasApiKey: boolean }> {
+}): Promise<LanraragiSettings> {
   const response = await fetch("/api/lanraragi/settings", {
     method: "POST",
     headers: { "content-type": "application/json" },
@@ -31,10 +186,77 @@ export async function updateLanraragiSettings(params: {
     const text = await response.text();
     throw new Error(`LANraragi settings update failed (${response.status}): ${text.slice(0, 200)}`);
   }
-  const body = (await response.json()) as { settings: { baseUrl: string; hasApiKey: boolean } };
+  const body = (await response.json()) as { settings: LanraragiSettings };
   return body.settings;
 }
 
+export async function fetchLanraragiSources(): Promise<LanraragiSource[]> {
+  const response = await fetch("/api/lanraragi/sources");
+  if (!response.ok) {
+    throw new Error(`LANraragi sources request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { sources: LanraragiSource[] };
+  return body.sources;
+}
+
+export async function createLanraragiSource(params: {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}): Promise<LanraragiSource> {
+  const response = await fetch("/api/lanraragi/sources", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Saving library failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { source: LanraragiSource };
+  return body.source;
+}
+
+export async function deleteLanraragiSource(id: string): Promise<void> {
+  const response = await fetch(`/api/lanraragi/sources/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Removing library failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+}
+
+// /api/health answers 500 while the primary source is down but still reports every source.
+export async function fetchLibraryHealth(): Promise<LanraragiSourceHealth[]> {
+  const response = await fetch("/api/health");
+  const body = (await response.json().catch(() => ({}))) as { sources?: LanraragiSourceHealth[] };
+  if (!body.sources) {
+    throw new Error(`Health request failed (${response.status})`);
+  }
+  return body.sources;
+}
+
+export async function exportRuntimeSettings(includeSecrets: boolean): Promise<Blob> {
+  const response = await fetch(`/api/settings/export?secrets=${includeSecrets ? "true" : "false"}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Settings export failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  return response.blob();
+}
+
+export async function importRuntimeSettings(snapshot: unknown): Promise<SettingsImportResult> {
+  const response = await fetch("/api/settings/import", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(snapshot),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Settings import failed (${response.status}): ${text.slice(0, 300)}`);
+  }
+  return (await response.json()) as SettingsImportResult;
+}
+
 export async function fetchDeviceDefaults(): Promise<{ baseUrl: string; path: string }> {
   const response = await fetch("/api/device/defaults");
   if (!response.ok) {
@@ -60,11 +282,77 @@ export async function updateDeviceDefaults(params: {
   return body.settings;
 }
 
+export async function fetchSavedDevices(): Promise<SavedDevice[]> {
+  const response = await fetch("/api/devices");
+  if (!response.ok) {
+    throw new Error(`Devices request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { devices: SavedDevice[] };
+  return body.devices;
+}
+
+export async function createSavedDevice(params: {
+  name: string;
+  baseUrl: string;
+  path?: string;
+  profileId?: string | null;
+  orientation?: SavedDevice["orientation"];
+  isDefault?: boolean;
+}): Promise<SavedDevice> {
+  const response = await fetch("/api/devices", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Saving device failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { device: SavedDevice };
+  return body.device;
+}
+
+export async function updateSavedDevice(
+  id: string,
+  params: Partial<Pick<SavedDevice, "name" | "baseUrl" | "path" | "profileId" | "orientation" | "isDefault">>,
+): Promise<SavedDevice> {
+  const response = await fetch(`/api/devices/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Updating device failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { device: SavedDevice };
+  return body.device;
+}
+
+export async function deleteSavedDevice(id: string): Promise<void> {
+  const response = await fetch(`/api/devices/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Deleting device failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+}
+
+export async function checkSavedDeviceHealth(id: string): Promise<DeviceHealth> {
+  const response = await fetch(`/api/devices/${encodeURIComponent(id)}/health`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device health check failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  return (await response.json()) as DeviceHealth;
+}
+
 export async function fetchArchives(params: {
   q: string;
   start: number;
   sortby: string;
   order: "asc" | "desc";
+  category?: string;
+  source?: string;
 }): Promise<SearchResponse> {
   const query = new URLSearchParams({
     q: params.q,
@@ -72,6 +360,12 @@ export async function fetchArchives(params: {
     sortby: params.sortby,
     order: params.order,
   });
+  if (params.category) {
+    query.set("category", params.category);
+  }
+  if (params.source) {
+    query.set("source", params.source);
+  }
 
   const response = await fetch(`/api/archives?${query.toString()}`);
   if (!response.ok) {
@@ -81,6 +375,15 @@ export async function fetchArchives(params: {
   return (await response.json()) as SearchResponse;
 }
 
+export async function fetchCategories(): Promise<CategorySummary[]> {
+  const response = await fetch("/api/categories");
+  if (!response.ok) {
+    throw new Error(`Category request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { data: CategorySummary[] };
+  return body.data;
+}
+
 export async function fetchFacets(params: { namespace: "artist" | "group"; q?: string }): Promise<Array<{ name: string; count: number }>> {
   const query = new URLSearchParams({
     namespace: params.namespace,
@@ -154,6 +457,89 @@ export async function fetchConversionJob(jobId: string): Promise<ConversionJob>
   return body.job;
 }
 
+export function watchConversionJob(
+  jobId: string,
+  onUpdate: (job: ConversionJob) => void,
+): Promise<ConversionJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/convert/jobs/${encodeURIComponent(jobId)}/events`);
+    source.addEventListener("job", (message) => {
+      const payload = JSON.parse((message as MessageEvent<string>).data) as ConversionJobEvent;
+      onUpdate(payload.job);
+      // The lifecycle event (no progress payload) is the one sent after the artifact is ready.
+      const finished = ["completed", "failed", "cancelled"].includes(payload.job.status);
+      if (payload.event === null && finished) {
+        source.close();
+        resolve(payload.job);
+      }
+    });
+    // EventSource reconnects by itself after a network blip, and the server then resends the current snapshot.
+    // Only once the browser gives up is the latest state fetched and handed back, so the caller can poll.
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+      fetchConversionJob(jobId).then((job) => {
+        onUpdate(job);
+        resolve(job);
+      }, reject);
+    };
+  });
+}
+
+export async function cancelConversionJob(jobId: string): Promise<ConversionJob> {
+  const response = await fetch(`/api/convert/jobs/${encodeURIComponent(jobId)}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to cancel conversion (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { job: ConversionJob };
+  return body.job;
+}
+
+export async function createConversionBatch(params: {
+  items: Array<{ archiveId: string; title?: string }>;
+  settings: ConversionSettings;
+  mode: "download" | "upload";
+  device?: string;
+  baseUrl?: string;
+  path?: string;
+}): Promise<ConversionBatch> {
+  const response = await fetch("/api/batches", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to start batch (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { batch: ConversionBatch };
+  return body.batch;
+}
+
+export async function fetchConversionBatch(batchId: string): Promise<ConversionBatch> {
+  const response = await fetch(`/api/batches/${encodeURIComponent(batchId)}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to fetch batch (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { batch: ConversionBatch };
+  return body.batch;
+}
+
+export async function retryConversionBatch(batchId: string): Promise<ConversionBatch> {
+  const response = await fetch(`/api/batches/${encodeURIComponent(batchId)}/retry`, {
+    method: "POST",
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to retry batch (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const body = (await response.json()) as { batch: ConversionBatch };
+  return body.batch;
+}
+
 export async function downloadConversionJob(jobId: string): Promise<Blob> {
   const response = await fetch(`/api/convert/jobs/${encodeURIComponent(jobId)}/download`);
   if (!response.ok) {
@@ -165,6 +551,7 @@ export async function downloadConversionJob(jobId: string): Promise<Blob> {
 
 export async function uploadConversionJob(params: {
   jobId: string;
+  device?: string;
   baseUrl: string;
   path: string;
 }): Promise<{ ok: true; fileName: string; fileSize: number; baseUrl: string; path: string }> {
@@ -172,6 +559,7 @@ export async function uploadConversionJob(params: {
     method: "POST",
     headers: { "content-type": "application/json" },
     body: JSON.stringify({
+      device: params.device,
       baseUrl: params.baseUrl,
       path: params.path,
     }),
@@ -215,6 +603,129 @@ export async function createDeviceFolder(params: {
   }
 }
 
+export async function fetchDeviceTree(params: { baseUrl?: string; path?: string }): Promise<DeviceTree> {
+  const query = new URLSearchParams();
+  if (params.baseUrl) query.set("baseUrl", params.baseUrl);
+  if (params.path) query.set("path", params.path);
+  const response = await fetch(`/api/device/tree?${query.toString()}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device tree failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  return (await response.json()) as DeviceTree;
+}
+
+export async function fetchDeviceStorage(params: { baseUrl?: string }): Promise<DeviceStorageInfo> {
+  const query = new URLSearchParams();
+  if (params.baseUrl) query.set("baseUrl", params.baseUrl);
+  const response = await fetch(`/api/device/storage?${query.toString()}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device storage failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  return (await response.json()) as DeviceStorageInfo;
+}
+
+export async function deleteDevicePaths(params: { baseUrl?: string; paths: string[] }): Promise<DevicePathResult[]> {
+  const response = await fetch("/api/device/delete", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device delete failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { results: DevicePathResult[] };
+  return data.results;
+}
+
+export async function moveDevicePaths(params: {
+  baseUrl?: string;
+  moves: Array<{ from: string; to: string }>;
+}): Promise<DeviceMoveResult[]> {
+  const response = await fetch("/api/device/move", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device move failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { results: DeviceMoveResult[] };
+  return data.results;
+}
+
+export async function fetchDeviceManifest(params: { archiveIds: string[] }): Promise<DeviceManifestEntry[]> {
+  const query = new URLSearchParams({ archiveIds: params.archiveIds.join(",") });
+  const response = await fetch(`/api/device/manifest?${query.toString()}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device manifest failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { data: DeviceManifestEntry[] };
+  return data.data;
+}
+
+export async function fetchWishlist(): Promise<WishlistItem[]> {
+  const response = await fetch("/api/wishlist");
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Wishlist request failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { items: WishlistItem[] };
+  return data.items;
+}
+
+export async function addWishlistItem(params: {
+  kind: WishlistItem["kind"];
+  value: string;
+  label?: string;
+}): Promise<WishlistItem> {
+  const response = await fetch("/api/wishlist", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Wishlist update failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { item: WishlistItem };
+  return data.item;
+}
+
+export async function removeWishlistItem(id: string): Promise<void> {
+  const response = await fetch(`/api/wishlist/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Wishlist update failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+}
+
+export async function runDeviceSync(params: { dryRun: boolean }): Promise<DeviceSyncReport> {
+  const response = await fetch(params.dryRun ? "/api/device-sync/preview" : "/api/device-sync/run", {
+    method: "POST",
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Device sync failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { report: DeviceSyncReport };
+  return data.report;
+}
+
+export async function runReadingSync(): Promise<ReadingSyncRun> {
+  const response = await fetch("/api/reading-sync/run", { method: "POST" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Reading sync failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+  const data = (await response.json()) as { run: ReadingSyncRun };
+  return data.run;
+}
+
 export function thumbnailUrl(id: string): string {
   return `/api/archives/${encodeURIComponent(id)}/thumbnail`;
 }
@@ -17,10 +17,33 @@ export type SearchResponse = {
   data: ArchiveRecord[];
 };
 
+export type CategorySummary = {
+  id: string;
+  name: string;
+  kind: "static" | "dynamic";
+  pinned: boolean;
+  archiveCount: number | null;
+  search: string;
+};
+
+export type ReadingSyncRun = {
+  trigger: "manual" | "schedule";
+  policy: "furthest" | "device" | "lanraragi";
+  startedAt: number;
+  finishedAt: number;
+  scanned: number;
+  pushed: number;
+  conflicts: number;
+  failed: number;
+  unmapped: string[];
+  error: string | null;
+};
+
 export type ConversionSettings = {
   orientation: "landscape" | "portrait";
   splitMode: "overlap" | "split" | "nosplit";
   noDither: boolean;
+  colorDepth: "1bit" | "2bit";
   overlap: boolean;
   splitSpreads: string;
   splitAll: boolean;
@@ -43,6 +66,15 @@ export type ConversionSettings = {
   sampleSet: string;
 };
 
+export type ConversionProfile = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  settings: ConversionSettings;
+  createdAt: number;
+  updatedAt: number;
+};
+
 export type ConversionJobPage = {
   label: string;
   done: boolean;
@@ -51,7 +83,7 @@ export type ConversionJobPage = {
 export type ConversionJob = {
   jobId: string;
   archiveId: string;
-  status: "queued" | "running" | "completed" | "failed";
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
   stage: string;
   message: string;
   progress: number;
@@ -64,13 +96,219 @@ export type ConversionJob = {
   error: string | null;
   downloadName: string | null;
   fileSize: number | null;
+  appliedRule: {
+    id: string;
+    name: string;
+    match: string;
+    profileId: string | null;
+    profileName: string | null;
+  } | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type ConversionJobEvent = {
+  jobId: string;
+  event: { type: string } | null;
+  job: ConversionJob;
+};
+
 export type DeviceFileEntry = {
   name: string;
   size: number;
   isDirectory: boolean;
   isEpub: boolean;
 };
+
+export type DeviceTreeNode = {
+  name: string;
+  path: string;
+  size: number;
+  isDirectory: boolean;
+  children: DeviceTreeNode[] | null;
+};
+
+export type DeviceTree = {
+  baseUrl: string;
+  root: DeviceTreeNode;
+  fileCount: number;
+  folderCount: number;
+  truncated: boolean;
+};
+
+export type SavedDevice = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  path: string;
+  profileId: string | null;
+  orientation: "landscape" | "portrait" | null;
+  isDefault: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type DeviceHealth = {
+  id: string;
+  baseUrl: string;
+  online: boolean;
+  latencyMs: number;
+  error: string | null;
+  storage: { totalBytes: number | null; usedBytes: number | null; freeBytes: number | null } | null;
+};
+
+export type DeviceStorageInfo = {
+  baseUrl: string;
+  available: boolean;
+  totalBytes?: number | null;
+  usedBytes?: number | null;
+  freeBytes?: number | null;
+};
+
+export type DevicePathResult = {
+  path: string;
+  ok: boolean;
+  error: string | null;
+};
+
+export type DeviceMoveResult = {
+  from: string;
+  to: string;
+  ok: boolean;
+  method: "move" | "copy" | null;
+  error: string | null;
+};
+
+export type DeviceManifestEntry = {
+  archiveId: string;
+  baseUrl: string;
+  devicePath: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  settingsHash: string;
+  jobId: string | null;
+  uploadedAt: string;
+  // null when the archive could not be looked up in LANraragi.
+  stale: boolean | null;
+};
+
+export type WishlistItem = {
+  id: string;
+  kind: "archive" | "tag" | "category";
+  value: string;
+  label: string;
+  enabled: boolean;
+  createdAt: number;
+};
+
+export type DeviceSyncAction = {
+  archiveId: string;
+  title: string;
+  action: "upload" | "reupload" | "delete" | "keep" | "skip";
+  reason: string;
+  filePath: string | null;
+  status: "planned" | "done" | "failed";
+  error: string | null;
+};
+
+export type DeviceSyncReport = {
+  trigger: "manual" | "schedule" | "preview";
+  dryRun: boolean;
+  baseUrl: string;
+  path: string;
+  startedAt: number;
+  finishedAt: number;
+  wanted: number;
+  truncated: boolean;
+  actions: DeviceSyncAction[];
+  error: string | null;
+};
+
+export type ConversionBatchItem = {
+  archiveId: string;
+  title: string;
+  status: "queued" | "converting" | "uploading" | "completed" | "failed";
+  attempts: number;
+  jobId: string | null;
+  job: ConversionJob | null;
+  error: string | null;
+  fileSize: number | null;
+  uploadedTo: string | null;
+};
+
+export type ConversionBatch = {
+  batchId: string;
+  mode: "download" | "upload";
+  status: "running" | "completed";
+  target: { baseUrl: string; path: string } | null;
+  total: number;
+  completed: number;
+  failed: number;
+  active: number;
+  items: ConversionBatchItem[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AuthPrincipal = {
+  kind: "admin" | "user" | "token";
+  id: string | null;
+  name: string;
+  role: "admin" | "reader";
+};
+
+export type AuthSession = {
+  enabled: boolean;
+  principal: AuthPrincipal | null;
+};
+
+export type AuthUser = {
+  id: string;
+  name: string;
+  role: "admin" | "reader";
+  createdAt: number;
+  lastUsedAt: number | null;
+};
+
+export type ApiToken = {
+  id: string;
+  name: string;
+  role: "admin" | "reader";
+  prefix: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+};
+
+export type LanraragiSettings = {
+  baseUrl: string;
+  hasApiKey: boolean;
+  // "file" once saved from the UI, "env" while the server's env vars apply.
+  sources: { baseUrl: "env" | "file"; apiKey: "env" | "file" };
+};
+
+// Extra sources prefix their archive and category ids with `<id>:`; the primary source keeps bare ids.
+export type LanraragiSource = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  hasApiKey: boolean;
+  isPrimary: boolean;
+};
+
+export type LanraragiSourceHealth = {
+  id: string;
+  name: string;
+  ok: boolean;
+  latencyMs: number;
+  version: string | null;
+  error: string | null;
+  circuit: "closed" | "open" | "half-open";
+};
+
+export type SettingsImportResult = {
+  ok: true;
+  lanraragi: boolean;
+  devices: number;
+  profiles: number;
+};
@@ -28,6 +28,12 @@ TARGET_HEIGHT = 800
 # Global flag for dithering (default True)
 USE_DITHERING = True
 
+# Stop after rendering PNG pages and leave packing to the caller
+PNG_ONLY = False
+
+# Keep 8-bit grayscale pages so the caller can pack 4-level (2-bit) XTH output
+GRAYSCALE_2BIT = False
+
 
 def find_png2xtc():
     """
@@ -369,7 +375,7 @@ def save_with_padding(img, output_path, *, padcolor=255):
     img_resized = img.resize((new_width, new_height), Image.Resampling.LANCZOS)
     
     # Apply dithering if enabled (for better grayscale → B&W conversion)
-    if USE_DITHERING:
+    if USE_DITHERING and not GRAYSCALE_2BIT:
         # Convert to 1-bit with Floyd-Steinberg dithering
         img_resized = img_resized.convert('1', dither=Image.Dither.FLOYDSTEINBERG)
         # Convert back to grayscale mode so we can paste on white background
@@ -475,6 +481,10 @@ def process_cbz_file(cbz_path, output_dir, temp_dir, clean_temp, file_num=None,
     png_folder = extract_cbz_to_png(cbz_path, temp_dir)
     if not png_folder:
         return False, cbz_path.name, 0
+
+    if PNG_ONLY:
+        print(f"  ✓ Rendered PNG pages to {png_folder} (packing skipped)")
+        return True, cbz_path.name, time.time() - start_time
     
     # Step 2: Convert to XTC
     output_file = output_dir / f"{cbz_path.stem}.xtc"
@@ -573,6 +583,11 @@ def main():
         print("                conversion. Saves disk space and prevents leftover")
         print("                files from interfering with conversions using different")
         print("                split or overview settings.")
+        print("\n  --png-only    Stop after rendering PNG pages into ./.temp_png/ and")
+        print("                skip png2xtc packing. Temp PNGs are kept even with --clean.")
+        print("\n  --2bit        Keep pages in full grayscale instead of 1-bit dithering,")
+        print("                for packers that write 4-level XTH pages. Combine with")
+        print("                --png-only; png2xtc.py itself only writes 1-bit pages.")
         print("\n  --help, -h    Show this help message")
         print("\nWhat it does:")
         print("  1. Extracts images from CBZ files")
@@ -604,6 +619,8 @@ def main():
     
     # Parse arguments
     global USE_DITHERING
+    global PNG_ONLY
+    global GRAYSCALE_2BIT
     global OVERLAP
     global SPLIT_SPREADS
     global SPLIT_SPREADS_PAGES
@@ -634,7 +651,9 @@ def main():
     global PADDING_COLOR
 
 
-    clean_temp = "--clean" in sys.argv
+    PNG_ONLY = "--png-only" in sys.argv
+    GRAYSCALE_2BIT = "--2bit" in sys.argv
+    clean_temp = "--clean" in sys.argv and not PNG_ONLY
     USE_DITHERING = "--no-dither" not in sys.argv  # Inverted logic
     OVERLAP = "--overlap" in sys.argv
     SPLIT_SPREADS = "--split-spreads" in sys.argv
@@ -798,7 +817,7 @@ def main():
     
     # Verify png2xtc.py exists
     png2xtc_path = find_png2xtc()
-    if not png2xtc_path:
+    if not png2xtc_path and not PNG_ONLY:
         print(f"\n✗ Error: png2xtc.py not found")
         print(f"\nThe epub2xtc library is required to convert PNG to XTC format.")
         print(f"Repository: https://github.com/jonasdiemer/epub2xtc")
@@ -844,7 +863,10 @@ def main():
             print("  git clone https://github.com/jonasdiemer/epub2xtc.git")
             return 1
     
-    print(f"Using png2xtc.py from: {png2xtc_path.parent}")
+    if PNG_ONLY:
+        print("PNG only: packing is left to the caller")
+    else:
+        print(f"Using png2xtc.py from: {png2xtc_path.parent}")
     
     # Process files with multithreading
     start_time = time.time()